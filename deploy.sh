@@ -11,6 +11,8 @@
 # Infrastructure:
 #   - S3 bucket: qcut.app
 #   - CloudFront distribution: set via CLOUDFRONT_DISTRIBUTION_ID env var
+#   - Response headers policy: cloudfront-response-headers-policy.json (COOP/COEP),
+#     created or updated and attached to the distribution on every deploy
 #   - Domain: https://qcut.app
 #   - ACM certificate: set via AWS console
 
@@ -34,43 +36,112 @@ DEPLOY_TAG="deploy-$(date +%Y%m%d-%H%M%S)"
 echo "Deploy tag: $DEPLOY_TAG"
 echo ""
 
-echo "[1/7] Installing dependencies..."
+echo "[1/8] Installing dependencies..."
 CI=true pnpm install --frozen-lockfile
 
 echo ""
-echo "[2/7] Building Vite static export..."
+echo "[2/8] Building Vite static export..."
 pnpm build
 
 echo ""
-echo "[3/7] Uploading HTML files to S3 (no-cache)..."
+echo "[3/8] Uploading HTML files and service worker to S3 (no-cache)..."
 AWS_PROFILE=$AWS_PROFILE aws s3 sync dist/ s3://$S3_BUCKET/ \
   --exclude "*" \
   --include "*.html" \
+  --include "sw.js" \
   --cache-control "no-cache" \
   --delete
 
 echo ""
-echo "[4/7] Uploading hashed assets to S3 (immutable cache)..."
+echo "[4/8] Uploading hashed assets to S3 (immutable cache)..."
 AWS_PROFILE=$AWS_PROFILE aws s3 sync dist/assets/ s3://$S3_BUCKET/assets/ \
   --cache-control "public, max-age=31536000, immutable"
 
 echo ""
-echo "[5/7] Uploading other static assets to S3 (1 day cache)..."
+echo "[5/8] Uploading other static assets to S3 (1 day cache)..."
 AWS_PROFILE=$AWS_PROFILE aws s3 sync dist/ s3://$S3_BUCKET/ \
   --exclude "*.html" \
+  --exclude "sw.js" \
   --exclude "assets/*" \
   --cache-control "public, max-age=86400" \
   --delete
 
 echo ""
-echo "[6/7] Invalidating CloudFront cache..."
+echo "[6/8] Applying cross-origin isolation headers..."
+# COOP/COEP make the page cross-origin isolated, which the multithreaded FFmpeg
+# core needs (SharedArrayBuffer). The policy lives in
+# cloudfront-response-headers-policy.json and is attached to every cache behavior
+# that has no response headers policy yet.
+HEADERS_POLICY_FILE="cloudfront-response-headers-policy.json"
+HEADERS_POLICY_NAME=$(node -p "require('./$HEADERS_POLICY_FILE').Name")
+HEADERS_POLICY_ID=$(AWS_PROFILE=$AWS_PROFILE aws cloudfront list-response-headers-policies \
+  --type custom \
+  --query "ResponseHeadersPolicyList.Items[?ResponseHeadersPolicy.ResponseHeadersPolicyConfig.Name=='$HEADERS_POLICY_NAME'].ResponseHeadersPolicy.Id | [0]" \
+  --output text)
+if [ -z "$HEADERS_POLICY_ID" ] || [ "$HEADERS_POLICY_ID" = "None" ]; then
+  HEADERS_POLICY_ID=$(AWS_PROFILE=$AWS_PROFILE aws cloudfront create-response-headers-policy \
+    --response-headers-policy-config "file://$HEADERS_POLICY_FILE" \
+    --query "ResponseHeadersPolicy.Id" \
+    --output text)
+  echo "Created response headers policy $HEADERS_POLICY_ID"
+else
+  HEADERS_POLICY_ETAG=$(AWS_PROFILE=$AWS_PROFILE aws cloudfront get-response-headers-policy \
+    --id "$HEADERS_POLICY_ID" --query "ETag" --output text)
+  AWS_PROFILE=$AWS_PROFILE aws cloudfront update-response-headers-policy \
+    --id "$HEADERS_POLICY_ID" \
+    --if-match "$HEADERS_POLICY_ETAG" \
+    --response-headers-policy-config "file://$HEADERS_POLICY_FILE" \
+    --output text > /dev/null
+  echo "Updated response headers policy $HEADERS_POLICY_ID"
+fi
+
+DISTRIBUTION_CONFIG_FILE=$(mktemp)
+trap 'rm -f "$DISTRIBUTION_CONFIG_FILE"' EXIT
+AWS_PROFILE=$AWS_PROFILE aws cloudfront get-distribution-config \
+  --id "$CLOUDFRONT_DISTRIBUTION_ID" \
+  --output json > "$DISTRIBUTION_CONFIG_FILE"
+DISTRIBUTION_ETAG=$(node -p "JSON.parse(require('fs').readFileSync('$DISTRIBUTION_CONFIG_FILE', 'utf8')).ETag")
+# Prints "changed" after pointing behaviors without a policy at ours, or
+# "unchanged". A behavior with some other policy is left to be fixed by hand:
+# replacing it could drop headers it sends.
+POLICY_CHANGE=$(node -e '
+  const fs = require("fs")
+  const [file, policyId] = process.argv.slice(1)
+  const config = JSON.parse(fs.readFileSync(file, "utf8")).DistributionConfig
+  const behaviors = [config.DefaultCacheBehavior, ...(config.CacheBehaviors.Items || [])]
+  const conflicts = behaviors.filter((b) => b.ResponseHeadersPolicyId && b.ResponseHeadersPolicyId !== policyId)
+  if (conflicts.length > 0) {
+    for (const b of conflicts) {
+      console.error(`Behavior ${b.PathPattern ?? "(default)"} already uses response headers policy ${b.ResponseHeadersPolicyId}.`)
+    }
+    console.error("Add the COOP/COEP headers to that policy, or detach it, then deploy again.")
+    process.exit(1)
+  }
+  const unset = behaviors.filter((b) => !b.ResponseHeadersPolicyId)
+  for (const b of unset) b.ResponseHeadersPolicyId = policyId
+  fs.writeFileSync(file, JSON.stringify(config))
+  console.log(unset.length > 0 ? "changed" : "unchanged")
+' "$DISTRIBUTION_CONFIG_FILE" "$HEADERS_POLICY_ID")
+if [ "$POLICY_CHANGE" = "changed" ]; then
+  AWS_PROFILE=$AWS_PROFILE aws cloudfront update-distribution \
+    --id "$CLOUDFRONT_DISTRIBUTION_ID" \
+    --if-match "$DISTRIBUTION_ETAG" \
+    --distribution-config "file://$DISTRIBUTION_CONFIG_FILE" \
+    --output text > /dev/null
+  echo "Attached the policy to the distribution (takes a few minutes to roll out)"
+else
+  echo "Distribution already uses the policy"
+fi
+
+echo ""
+echo "[7/8] Invalidating CloudFront cache..."
 AWS_PROFILE=$AWS_PROFILE aws cloudfront create-invalidation \
   --distribution-id $CLOUDFRONT_DISTRIBUTION_ID \
   --paths "/*" \
   --output text
 
 echo ""
-echo "[7/7] Tagging deployment in git..."
+echo "[8/8] Tagging deployment in git..."
 git tag "$DEPLOY_TAG"
 git push origin "$DEPLOY_TAG"
 
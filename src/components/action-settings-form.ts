@@ -0,0 +1,127 @@
+import type { Component } from "../types"
+import { getBatchSettingErrors, type BatchActionDefinition, type BatchSettingField } from "../lib/batch-actions"
+
+const inputClass =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+/**
+ * Generic settings form for an action, rendered from its field definitions.
+ * Writes values straight into the given params object and calls onChange after
+ * every edit. Used where one set of settings applies without a preview, such as
+ * batch mode. Invalid values are flagged under their field once it's been edited.
+ */
+export function createActionSettingsForm(
+  definition: BatchActionDefinition,
+  params: Record<string, unknown>,
+  onChange: () => void
+): Component {
+  const form = document.createElement("div")
+  form.className = "grid grid-cols-1 sm:grid-cols-2 gap-4"
+  const errorEls = new Map<string, HTMLElement>()
+  const editedKeys = new Set<string>()
+
+  for (const field of definition.fields) {
+    form.appendChild(createField(field))
+  }
+
+  function handleEdit(key: string): void {
+    editedKeys.add(key)
+    showErrors()
+    onChange()
+  }
+
+  function showErrors(): void {
+    const errors = getBatchSettingErrors(definition, params) ?? {}
+    errorEls.forEach((el, key) => {
+      const message = editedKeys.has(key) ? errors[key] : undefined
+      el.textContent = message ?? ""
+      el.classList.toggle("hidden", !message)
+    })
+  }
+
+  function createField(field: BatchSettingField): HTMLElement {
+    const wrapper = document.createElement("div")
+    wrapper.className = "space-y-2"
+    const inputId = `asf-${definition.type}-${field.key}`
+
+    if (field.type === "checkbox") {
+      wrapper.innerHTML = `
+        <label for="${inputId}" class="flex items-center gap-2 text-sm font-medium leading-none h-10 cursor-pointer">
+          <input id="${inputId}" type="checkbox" class="accent-[hsl(var(--accent))]" ${params[field.key] ? "checked" : ""} />
+          ${field.label}
+        </label>
+      `
+      const checkbox = wrapper.querySelector("input") as HTMLInputElement
+      checkbox.addEventListener("change", () => {
+        params[field.key] = checkbox.checked
+        handleEdit(field.key)
+      })
+      return wrapper
+    }
+
+    const label = document.createElement("label")
+    label.htmlFor = inputId
+    label.className = "text-sm font-medium leading-none"
+    label.textContent = field.label
+    wrapper.appendChild(label)
+
+    if (field.type === "select") {
+      const select = document.createElement("select")
+      select.id = inputId
+      select.className = inputClass
+      select.innerHTML = (field.options ?? [])
+        .map((o) => `<option value="${o.value}" ${String(params[field.key]) === o.value ? "selected" : ""}>${o.label}</option>`)
+        .join("")
+      select.addEventListener("change", () => {
+        params[field.key] = select.value
+        handleEdit(field.key)
+      })
+      wrapper.appendChild(select)
+    } else if (field.type === "number") {
+      const input = document.createElement("input")
+      input.id = inputId
+      input.type = "number"
+      input.className = inputClass
+      if (field.min !== undefined) input.min = String(field.min)
+      if (field.max !== undefined) input.max = String(field.max)
+      if (field.step !== undefined) input.step = String(field.step)
+      input.value = params[field.key] !== undefined ? String(params[field.key]) : ""
+      input.addEventListener("input", () => {
+        const value = Number.parseFloat(input.value)
+        params[field.key] = Number.isFinite(value) ? value : field.defaultValue
+        handleEdit(field.key)
+      })
+      wrapper.appendChild(input)
+    } else {
+      const input = document.createElement("input")
+      input.id = inputId
+      input.type = "file"
+      if (field.accept) input.accept = field.accept
+      input.className = "block w-full text-sm text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-2 file:text-sm file:font-medium"
+      input.addEventListener("change", () => {
+        params[field.key] = input.files?.[0] ?? undefined
+        handleEdit(field.key)
+      })
+      wrapper.appendChild(input)
+    }
+
+    if (field.hint) {
+      const hint = document.createElement("p")
+      hint.className = "text-xs text-muted-foreground"
+      hint.textContent = field.hint
+      wrapper.appendChild(hint)
+    }
+
+    const error = document.createElement("p")
+    error.className = "text-xs text-destructive hidden"
+    errorEls.set(field.key, error)
+    wrapper.appendChild(error)
+
+    return wrapper
+  }
+
+  return {
+    element: form,
+    destroy: () => {},
+  }
+}
@@ -0,0 +1,203 @@
+import type { Component, ActionConfig } from "../types"
+import { getState, getVideoData, subscribe } from "../store"
+import { isJobCancelled } from "../lib/ffmpeg-pool"
+import { encodeCompressionSample, PREVIEW_SAMPLE_SEC, type CompressionSample } from "../lib/compress-preview"
+import { formatFileSize } from "../lib/file-utils"
+import { iconSvg } from "../lib/icons"
+import { createLogger } from "../lib/logger"
+
+const log = createLogger("compression-preview")
+
+interface CompressionPreviewOptions {
+  /** Object URL of the original video, used for the "before" side. */
+  videoUrl: string
+  /** Returns the compress config to preview. */
+  getConfig: () => ActionConfig
+}
+
+/**
+ * Encodes a short sample with the current compress settings and shows it in a
+ * wipe comparison against the original, with the full size extrapolated from
+ * the sample. Call invalidate() when settings change so a stale sample isn't shown.
+ */
+export function createCompressionPreview(options: CompressionPreviewOptions): Component & { invalidate: () => void } {
+  const container = document.createElement("div")
+  container.className = "space-y-3"
+
+  let sample: CompressionSample | null = null
+  let sampleUrl: string | null = null
+  let isEncoding = false
+  let progress = 0
+  let error: string | null = null
+  let wipePct = 50
+  let isDestroyed = false
+  // Bumped on invalidate so a sample for old settings is dropped when it finishes.
+  let generation = 0
+  let abortController: AbortController | null = null
+
+  const storeUnsub = subscribe(() => {
+    if (!sample && !isEncoding) render()
+  })
+
+  function clearSample(): void {
+    if (sampleUrl) URL.revokeObjectURL(sampleUrl)
+    sampleUrl = null
+    sample = null
+  }
+
+  async function runPreview(): Promise<void> {
+    const runGeneration = ++generation
+    abortController?.abort()
+    const controller = new AbortController()
+    abortController = controller
+    clearSample()
+    isEncoding = true
+    progress = 0
+    error = null
+    render()
+
+    try {
+      const result = await encodeCompressionSample(options.getConfig(), (p) => {
+        progress = Math.round(p * 100)
+        const label = container.querySelector("#cp-progress")
+        if (label) label.textContent = `${progress}%`
+      }, controller.signal)
+      if (isDestroyed || runGeneration !== generation) return
+      sample = result
+      sampleUrl = URL.createObjectURL(result.blob)
+    } catch (err) {
+      if (isJobCancelled(err)) return
+      log.error("Compression preview failed: %o", err)
+      if (runGeneration === generation) error = (err as Error).message
+    } finally {
+      if (abortController === controller) abortController = null
+      if (runGeneration === generation) isEncoding = false
+      if (!isDestroyed && runGeneration === generation) render()
+    }
+  }
+
+  function renderComparison(current: CompressionSample, url: string): HTMLElement {
+    const videoData = getVideoData()
+    const fileSize = videoData?.file.size ?? 0
+    const totalSec = videoData?.duration || current.durationSec
+    const originalSampleBytes = totalSec > 0 ? (fileSize / totalSec) * current.durationSec : fileSize
+    const ratioPct = fileSize > 0 ? Math.round((current.estimatedSizeBytes / fileSize) * 100) : 0
+
+    const wrapper = document.createElement("div")
+    wrapper.className = "space-y-3"
+    wrapper.innerHTML = `
+      <div id="cp-stage" class="relative aspect-video bg-black rounded-lg overflow-hidden select-none">
+        <video id="cp-original" class="absolute inset-0 w-full h-full object-contain" muted playsinline></video>
+        <video id="cp-sample" class="absolute inset-0 w-full h-full object-contain" muted playsinline></video>
+        <div id="cp-divider" class="absolute top-0 bottom-0 w-0.5 bg-white/80 pointer-events-none"></div>
+        <span class="absolute top-2 left-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">Original</span>
+        <span class="absolute top-2 right-2 rounded bg-black/60 px-2 py-0.5 text-xs text-white">Compressed</span>
+      </div>
+      <div class="flex items-center gap-3">
+        <button id="cp-play" class="inline-flex items-center justify-center rounded-full border border-input bg-transparent hover:bg-accent hover:text-accent-foreground w-10 h-10 flex-shrink-0" aria-label="Play comparison">
+          ${iconSvg("Play", 18, "w-[18px] h-[18px] ml-0.5")}
+        </button>
+        <input id="cp-wipe" type="range" min="0" max="100" step="1" value="${wipePct}" aria-label="Comparison position"
+          class="w-full h-2 rounded-lg appearance-none cursor-pointer accent-[hsl(var(--accent))]" />
+      </div>
+      <div class="bg-background/50 rounded p-4 text-sm space-y-1">
+        <p class="text-muted-foreground">Sample: ${current.durationSec.toFixed(1)}s from the middle · ${formatFileSize(current.blob.size)} (original ~${formatFileSize(originalSampleBytes)})</p>
+        <p class="font-medium">Estimated full size: ~${formatFileSize(current.estimatedSizeBytes)}${ratioPct > 0 ? ` (${ratioPct}% of original)` : ""}</p>
+        <p class="text-xs text-muted-foreground">Estimates vary with how much motion the rest of the video has.</p>
+      </div>
+    `
+
+    const originalEl = wrapper.querySelector("#cp-original") as HTMLVideoElement
+    const sampleEl = wrapper.querySelector("#cp-sample") as HTMLVideoElement
+    const divider = wrapper.querySelector("#cp-divider") as HTMLElement
+    const wipeInput = wrapper.querySelector("#cp-wipe") as HTMLInputElement
+    const playBtn = wrapper.querySelector("#cp-play") as HTMLButtonElement
+
+    originalEl.src = options.videoUrl
+    originalEl.preload = "auto"
+    sampleEl.src = url
+    originalEl.addEventListener("loadedmetadata", () => { originalEl.currentTime = current.startSec }, { once: true })
+
+    function applyWipe(): void {
+      sampleEl.style.clipPath = `inset(0 0 0 ${wipePct}%)`
+      divider.style.left = `${wipePct}%`
+    }
+    applyWipe()
+    wipeInput.addEventListener("input", () => {
+      wipePct = Number(wipeInput.value)
+      applyWipe()
+    })
+
+    function syncOriginal(): void {
+      const target = current.startSec + sampleEl.currentTime
+      if (Math.abs(originalEl.currentTime - target) > 0.1) originalEl.currentTime = target
+    }
+
+    playBtn.addEventListener("click", () => {
+      if (sampleEl.paused) {
+        syncOriginal()
+        sampleEl.play()
+        originalEl.play()
+      } else {
+        sampleEl.pause()
+        originalEl.pause()
+      }
+    })
+    sampleEl.addEventListener("play", () => { playBtn.innerHTML = iconSvg("Pause", 18, "w-[18px] h-[18px]") })
+    sampleEl.addEventListener("pause", () => { playBtn.innerHTML = iconSvg("Play", 18, "w-[18px] h-[18px] ml-0.5") })
+    sampleEl.addEventListener("seeked", syncOriginal)
+    sampleEl.addEventListener("ended", () => {
+      originalEl.pause()
+      sampleEl.currentTime = 0
+      originalEl.currentTime = current.startSec
+    })
+
+    return wrapper
+  }
+
+  function render(): void {
+    container.innerHTML = ""
+    const { isFFmpegLoaded } = getState()
+
+    const button = document.createElement("button")
+    const isDisabled = isEncoding || !isFFmpegLoaded
+    button.className = `inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 w-full ${isDisabled ? "opacity-50 cursor-not-allowed" : ""}`
+    button.disabled = isDisabled
+    button.innerHTML = isEncoding
+      ? `${iconSvg("Loader2", 16, "w-4 h-4 mr-2 animate-spin")} Encoding sample... <span id="cp-progress" class="ml-1">${progress}%</span>`
+      : `${iconSvg("Play", 16, "w-4 h-4 mr-2")} ${sample ? "Preview Again" : `Preview ${PREVIEW_SAMPLE_SEC}s Sample`}`
+    button.addEventListener("click", () => runPreview())
+    container.appendChild(button)
+
+    if (error) {
+      const errorEl = document.createElement("div")
+      errorEl.className = "p-3 bg-destructive/10 text-destructive rounded-lg text-sm"
+      errorEl.textContent = error
+      container.appendChild(errorEl)
+    }
+
+    if (sample && sampleUrl) container.appendChild(renderComparison(sample, sampleUrl))
+  }
+
+  render()
+
+  return {
+    element: container,
+    invalidate: () => {
+      if (!sample && !isEncoding && !error) return
+      // Stop a running encode; its result would be for the old settings.
+      generation++
+      abortController?.abort()
+      isEncoding = false
+      error = null
+      clearSample()
+      render()
+    },
+    destroy: () => {
+      isDestroyed = true
+      abortController?.abort()
+      storeUnsub()
+      clearSample()
+    },
+  }
+}
@@ -0,0 +1,100 @@
+import type { Component, ActionConfig, VideoData } from "../types"
+import { validateActionConfig } from "../lib/action-params"
+import { buildDesktopCommand, formatDesktopCommand, type CommandShell } from "../lib/ffmpeg-command"
+import { iconSvg } from "../lib/icons"
+import { createLogger } from "../lib/logger"
+
+const log = createLogger("ffmpeg-command-panel")
+
+interface FFmpegCommandPanelOptions {
+  config: ActionConfig
+  videoData: VideoData
+  /** Name the output is saved under. */
+  outputFileName: string
+}
+
+// Kept across panels: pages rebuild their processing button (and this panel) on every settings change.
+let isOpen = false
+let shell: CommandShell = navigator.userAgent.includes("Windows") ? "powershell" : "bash"
+
+const tabClass = "rounded px-2.5 py-1 text-xs font-medium"
+
+/**
+ * Collapsible panel showing the desktop ffmpeg command for an action, with
+ * the user's file names, quoted for bash or PowerShell.
+ */
+export function createFFmpegCommandPanel(options: FFmpegCommandPanelOptions): Component {
+  const details = document.createElement("details")
+  details.className = "mt-3 text-sm"
+  details.open = isOpen
+  details.innerHTML = `
+    <summary class="cursor-pointer text-muted-foreground">Show ffmpeg command</summary>
+    <div class="mt-2 space-y-2">
+      <div class="flex items-center gap-1">
+        <button data-shell="bash" class="${tabClass}">Bash</button>
+        <button data-shell="powershell" class="${tabClass}">PowerShell</button>
+        <button id="ffcmd-copy" class="ml-auto inline-flex items-center text-xs text-muted-foreground hover:text-foreground">
+          ${iconSvg("Copy", 12, "w-3 h-3 mr-1")} <span>Copy</span>
+        </button>
+      </div>
+      <pre id="ffcmd-text" class="overflow-x-auto whitespace-pre-wrap break-all rounded bg-muted/50 p-3 font-mono text-xs"></pre>
+      <p class="text-xs text-muted-foreground">Run it in the folder that holds your files, with ffmpeg installed.</p>
+    </div>
+  `
+
+  const text = details.querySelector("#ffcmd-text") as HTMLElement
+  const copyLabel = details.querySelector("#ffcmd-copy span") as HTMLElement
+  let command: string | null = null
+
+  function render(): void {
+    details.querySelectorAll<HTMLButtonElement>("[data-shell]").forEach((btn) => {
+      const isActive = btn.dataset.shell === shell
+      btn.classList.toggle("bg-accent", isActive)
+      btn.classList.toggle("text-accent-foreground", isActive)
+      btn.classList.toggle("text-muted-foreground", !isActive)
+    })
+
+    command = null
+    const validation = validateActionConfig(options.config)
+    if (!validation.success) {
+      text.textContent = "Fix the settings above to see the command."
+      return
+    }
+    try {
+      const { videoData } = options
+      const desktop = buildDesktopCommand(validation.config, { input: videoData.file.name, output: options.outputFileName }, videoData.duration)
+      command = formatDesktopCommand(desktop, shell)
+      text.textContent = command
+    } catch (err) {
+      text.textContent = (err as Error).message
+    }
+  }
+
+  details.addEventListener("toggle", () => {
+    isOpen = details.open
+  })
+  details.querySelectorAll<HTMLButtonElement>("[data-shell]").forEach((btn) => {
+    btn.addEventListener("click", () => {
+      shell = btn.dataset.shell === "powershell" ? "powershell" : "bash"
+      copyLabel.textContent = "Copy"
+      render()
+    })
+  })
+  details.querySelector("#ffcmd-copy")?.addEventListener("click", async () => {
+    if (!command) return
+    try {
+      await navigator.clipboard.writeText(command)
+      copyLabel.textContent = "Copied"
+    } catch (err) {
+      log.warn("Copying the ffmpeg command failed: %o", err)
+      copyLabel.textContent = "Couldn't access the clipboard"
+    }
+  })
+
+  render()
+
+  return {
+    element: details,
+    destroy: () => {},
+  }
+}
@@ -57,7 +57,7 @@ export function createFileSelectModal(
   function validateAndSelect(file: File): void {
     const warningType = getFileSizeWarningType(file.size)
     if (warningType) {
-      const warning = createFileSizeWarning(warningType, file.size, () => {}, () => {
+      const warning = createFileSizeWarning(file.size, () => {}, () => {
         dialog.close()
         onFileSelect(file)
       })
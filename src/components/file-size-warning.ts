@@ -3,37 +3,28 @@ import { formatFileSize } from "../lib/file-utils"
 import { iconSvg } from "../lib/icons"
 
 /**
- * Dialog shown when users select files that exceed browser limitations.
- * Shows an error for files >4GB (browser cannot process).
- * Shows a warning for files 2-4GB (output files may exceed 2GB limit).
+ * Dialog shown when users select files larger than 2GB.
+ * Inputs of any size are streamed from disk, but outputs are assembled in memory,
+ * so operations that keep the file about as large (remuxing, converting) may fail.
  * Uses native <dialog> element.
  */
 export function createFileSizeWarning(
-  type: "error" | "warning",
   fileSizeBytes: number,
   onClose: () => void,
-  onProceed?: () => void
+  onProceed: () => void
 ): Component {
-  const isError = type === "error"
   const formattedSize = formatFileSize(fileSizeBytes)
 
   const dialog = document.createElement("dialog")
   dialog.className = "rounded-lg border bg-background p-6 shadow-lg backdrop:bg-black/50 w-full max-w-md"
 
-  const titleHtml = isError
-    ? `${iconSvg("XCircle", 20, "h-5 w-5 text-destructive inline")} File Too Large`
-    : `${iconSvg("AlertTriangle", 20, "h-5 w-5 text-yellow-500 inline")} Large File Warning`
+  const titleHtml = `${iconSvg("AlertTriangle", 20, "h-5 w-5 text-yellow-500 inline")} Large File Warning`
 
-  const bodyHtml = isError
-    ? `<p>Your file (${formattedSize}) exceeds the 4GB limit that browsers can process.</p>
-       <p class="text-foreground font-medium mt-2">Your browser doesn't support processing files larger than 4GB.</p>`
-    : `<p>Your file (${formattedSize}) is between 2GB and 4GB.</p>
-       <p class="text-foreground font-medium mt-2">Your browser can process this file, but won't be able to save output files larger than 2GB.</p>
-       <p class="mt-2">Some operations like trimming may work, but operations that increase file size could fail.</p>`
+  const bodyHtml = `<p>Your file (${formattedSize}) is larger than 2GB.</p>
+       <p class="text-foreground font-medium mt-2">Qcut reads large files straight from disk, but can't save output files larger than 2GB.</p>
+       <p class="mt-2">Trimming, compressing and extracting audio work well. Operations that keep the file about as large, like converting, could fail.</p>`
 
-  const buttonsHtml = isError
-    ? `<button id="fsw-ok" class="inline-flex items-center justify-center rounded-md text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2">OK</button>`
-    : `<button id="fsw-cancel" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2">Cancel</button>
+  const buttonsHtml = `<button id="fsw-cancel" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2">Cancel</button>
        <button id="fsw-proceed" class="inline-flex items-center justify-center rounded-md text-sm font-medium bg-primary text-primary-foreground hover:bg-primary/90 h-10 px-4 py-2">Proceed Anyway</button>`
 
   dialog.innerHTML = `
@@ -59,12 +50,11 @@ export function createFileSizeWarning(
     onClose()
   }
 
-  dialog.querySelector("#fsw-ok")?.addEventListener("click", close)
   dialog.querySelector("#fsw-cancel")?.addEventListener("click", close)
   dialog.querySelector("#fsw-proceed")?.addEventListener("click", () => {
     dialog.close()
     dialog.remove()
-    onProceed?.()
+    onProceed()
   })
 
   dialog.addEventListener("click", (e) => {
@@ -0,0 +1,150 @@
+import type { Component, ActionConfig } from "../types"
+import { createActionSettingsForm } from "./action-settings-form"
+import { createProcessingButton } from "./processing-button"
+import { batchActions, getDefaultBatchParams, getBatchSettingErrors, type BatchActionDefinition } from "../lib/batch-actions"
+import { getPipelineError, planPipeline } from "../lib/pipeline"
+import { iconSvg } from "../lib/icons"
+
+interface PipelineStep {
+  id: number
+  definition: BatchActionDefinition
+  params: Record<string, unknown>
+}
+
+const iconButtonClass =
+  "inline-flex items-center justify-center rounded-md text-sm font-medium hover:bg-accent hover:text-accent-foreground h-8 w-8 disabled:opacity-40 disabled:pointer-events-none"
+
+/**
+ * Builder for chained actions (e.g. trim → resize → compress) run on the
+ * current video in one go. Steps can be added, reordered and removed; the
+ * output of each step feeds the next without downloading in between.
+ */
+export function createPipelineBuilder(): Component {
+  const container = document.createElement("div")
+  container.className = "rounded-xl border bg-card text-card-foreground shadow-sm p-6 space-y-4"
+
+  let steps: PipelineStep[] = []
+  let nextId = 1
+  let stepForms: Component[] = []
+  let processingBtn: Component | null = null
+
+  container.innerHTML = `
+    <div class="space-y-1">
+      <h3 class="font-semibold flex items-center gap-2">${iconSvg("Layers", 18, "w-[18px] h-[18px]")} Pipeline</h3>
+      <p class="text-sm text-muted-foreground">Chain several actions and run them in one go. Each step works on the previous step's result.</p>
+    </div>
+    <div id="pipeline-steps" class="space-y-3"></div>
+    <div class="flex gap-2">
+      <select id="pipeline-add-select" class="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+        ${batchActions.map((a) => `<option value="${a.type}">${a.label}</option>`).join("")}
+      </select>
+      <button id="pipeline-add" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 whitespace-nowrap">
+        ${iconSvg("Plus", 16, "w-4 h-4 mr-2")} Add Step
+      </button>
+    </div>
+    <div id="pipeline-status"></div>
+    <div id="pipeline-process"></div>
+  `
+
+  const stepsList = container.querySelector("#pipeline-steps") as HTMLElement
+  const addSelect = container.querySelector("#pipeline-add-select") as HTMLSelectElement
+  const statusEl = container.querySelector("#pipeline-status") as HTMLElement
+  const processContainer = container.querySelector("#pipeline-process") as HTMLElement
+
+  container.querySelector("#pipeline-add")?.addEventListener("click", () => {
+    const definition = batchActions.find((a) => a.type === addSelect.value) ?? batchActions[0]
+    steps.push({ id: nextId++, definition, params: getDefaultBatchParams(definition) })
+    renderSteps()
+  })
+
+  function getPipeline(): ActionConfig[] {
+    return steps.map((s) => ({ type: s.definition.type, params: { ...s.params } }))
+  }
+
+  function moveStep(index: number, delta: number): void {
+    const target = index + delta
+    if (target < 0 || target >= steps.length) return
+    ;[steps[index], steps[target]] = [steps[target], steps[index]]
+    renderSteps()
+  }
+
+  function renderSteps(): void {
+    stepForms.forEach((f) => f.destroy())
+    stepForms = []
+    stepsList.innerHTML = ""
+
+    steps.forEach((step, index) => {
+      const card = document.createElement("div")
+      card.className = "bg-secondary/50 rounded-lg p-4 space-y-3"
+      card.innerHTML = `
+        <div class="flex items-center gap-2">
+          <span class="flex items-center justify-center w-6 h-6 rounded-full bg-background text-xs font-medium">${index + 1}</span>
+          <span class="font-medium flex-1">${step.definition.label}</span>
+          <button data-step-up class="${iconButtonClass}" aria-label="Move step up" ${index === 0 ? "disabled" : ""}>${iconSvg("ArrowLeft", 16, "w-4 h-4 rotate-90")}</button>
+          <button data-step-down class="${iconButtonClass}" aria-label="Move step down" ${index === steps.length - 1 ? "disabled" : ""}>${iconSvg("ArrowRight", 16, "w-4 h-4 rotate-90")}</button>
+          <button data-step-remove class="${iconButtonClass}" aria-label="Remove step">${iconSvg("X", 16, "w-4 h-4")}</button>
+        </div>
+      `
+      card.querySelector("[data-step-up]")?.addEventListener("click", () => moveStep(index, -1))
+      card.querySelector("[data-step-down]")?.addEventListener("click", () => moveStep(index, 1))
+      card.querySelector("[data-step-remove]")?.addEventListener("click", () => {
+        steps = steps.filter((s) => s.id !== step.id)
+        renderSteps()
+      })
+
+      const form = createActionSettingsForm(step.definition, step.params, updateProcessing)
+      stepForms.push(form)
+      card.appendChild(form.element)
+      stepsList.appendChild(card)
+    })
+
+    updateProcessing()
+  }
+
+  function getStatusMessage(): string | null {
+    if (steps.length === 0) return null
+    const pipelineError = getPipelineError(getPipeline())
+    if (pipelineError) return pipelineError
+    for (const [i, step] of steps.entries()) {
+      const errors = getBatchSettingErrors(step.definition, step.params)
+      if (errors) return `Step ${i + 1} (${step.definition.label}): ${Object.values(errors).join(" ")}`
+    }
+    return null
+  }
+
+  function updateProcessing(): void {
+    processingBtn?.destroy()
+    processingBtn = null
+    processContainer.innerHTML = ""
+
+    const message = getStatusMessage()
+    const fusedGroups = planPipeline(getPipeline()).filter((s) => s.isFused)
+    statusEl.innerHTML = message
+      ? `<div class="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">${message}</div>`
+      : fusedGroups.length > 0
+        ? `<p class="text-xs text-muted-foreground">${fusedGroups
+            .map((g) => g.steps.map((s) => batchActions.find((a) => a.type === s.type)?.label ?? s.type).join(" + "))
+            .join("; ")} will run as a single encode.</p>`
+        : ""
+
+    if (steps.length === 0 || message) return
+
+    const pipeline = getPipeline()
+    processingBtn = createProcessingButton({
+      config: pipeline[pipeline.length - 1],
+      pipeline,
+      onReset: () => updateProcessing(),
+    })
+    processContainer.appendChild(processingBtn.element)
+  }
+
+  renderSteps()
+
+  return {
+    element: container,
+    destroy: () => {
+      stepForms.forEach((f) => f.destroy())
+      processingBtn?.destroy()
+    },
+  }
+}
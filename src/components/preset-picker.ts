@@ -0,0 +1,138 @@
+import type { Component, ActionType } from "../types"
+import { getPresets, savePreset, deletePreset, exportPresets, importPresets } from "../lib/presets"
+import { iconSvg } from "../lib/icons"
+import { buildSettingsLink } from "../lib/settings-link"
+import { actionTypePath } from "../router"
+
+interface PresetPickerOptions {
+  type: ActionType
+  /** Returns the page's current settings to save. */
+  getParams: () => Record<string, unknown>
+  /** Applies a loaded preset's settings to the page. */
+  onApply: (params: Record<string, unknown>) => void
+}
+
+const inputClass =
+  "flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+const buttonClass =
+  "inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-3 whitespace-nowrap"
+
+/**
+ * Load/save/delete control for named presets of one action, with JSON
+ * export and import and a link to the page with the current settings, so
+ * settings can be shared.
+ */
+export function createPresetPicker(options: PresetPickerOptions): Component {
+  const container = document.createElement("div")
+  container.className = "space-y-2"
+  let selectedName = ""
+
+  function setStatus(message: string, isError = false): void {
+    const status = container.querySelector("#preset-status")
+    if (!status) return
+    status.className = `text-xs ${isError ? "text-destructive" : "text-muted-foreground"}`
+    status.textContent = message
+  }
+
+  function render(): void {
+    const presets = getPresets(options.type)
+    if (!presets.some((p) => p.name === selectedName)) selectedName = ""
+
+    container.innerHTML = `
+      <label for="preset-select" class="text-sm font-medium leading-none">Saved Presets</label>
+      <div class="flex gap-2">
+        <select id="preset-select" class="${inputClass}">
+          <option value="">${presets.length > 0 ? "Load a preset…" : "No saved presets"}</option>
+          ${presets.map((p) => `<option value="${encodeURIComponent(p.name)}" ${p.name === selectedName ? "selected" : ""}>${p.name.replace(/</g, "&lt;")}</option>`).join("")}
+        </select>
+        <button id="preset-delete" class="${buttonClass} w-9 px-0 ${selectedName ? "" : "opacity-50 cursor-not-allowed"}" aria-label="Delete preset" ${selectedName ? "" : "disabled"}>
+          ${iconSvg("X", 16, "w-4 h-4")}
+        </button>
+      </div>
+      <div class="flex gap-2">
+        <input id="preset-name" type="text" maxlength="60" placeholder="Preset name" class="${inputClass}" value="${selectedName.replace(/"/g, "&quot;")}" />
+        <button id="preset-save" class="${buttonClass}">Save</button>
+      </div>
+      <div class="flex items-center gap-3">
+        <button id="preset-export" class="text-xs text-muted-foreground hover:text-foreground underline-offset-2 hover:underline">Export JSON</button>
+        <button id="preset-import" class="text-xs text-muted-foreground hover:text-foreground underline-offset-2 hover:underline">Import JSON</button>
+        <input id="preset-import-file" type="file" accept="application/json,.json" class="sr-only" />
+        <button id="preset-copy-link" class="text-xs text-muted-foreground hover:text-foreground underline-offset-2 hover:underline">Copy link to these settings</button>
+      </div>
+      <p id="preset-status" class="text-xs text-muted-foreground"></p>
+    `
+
+    const select = container.querySelector("#preset-select") as HTMLSelectElement
+    const nameInput = container.querySelector("#preset-name") as HTMLInputElement
+    const importInput = container.querySelector("#preset-import-file") as HTMLInputElement
+
+    select.addEventListener("change", () => {
+      selectedName = decodeURIComponent(select.value)
+      const preset = presets.find((p) => p.name === selectedName)
+      render()
+      if (preset) {
+        options.onApply({ ...preset.params })
+        setStatus(`Loaded "${preset.name}".`)
+      }
+    })
+
+    container.querySelector("#preset-delete")?.addEventListener("click", () => {
+      if (!selectedName) return
+      const name = selectedName
+      deletePreset(options.type, name)
+      selectedName = ""
+      render()
+      setStatus(`Deleted "${name}".`)
+    })
+
+    container.querySelector("#preset-save")?.addEventListener("click", () => {
+      try {
+        const preset = savePreset(options.type, nameInput.value, options.getParams())
+        selectedName = preset.name
+        render()
+        setStatus(`Saved "${preset.name}".`)
+      } catch (err) {
+        setStatus((err as Error).message, true)
+      }
+    })
+
+    container.querySelector("#preset-export")?.addEventListener("click", () => {
+      const blob = new Blob([exportPresets(options.type)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement("a")
+      a.href = url
+      a.download = `qcut-presets-${options.type}.json`
+      a.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    })
+
+    container.querySelector("#preset-copy-link")?.addEventListener("click", async () => {
+      try {
+        await navigator.clipboard.writeText(buildSettingsLink(actionTypePath[options.type], options.getParams()))
+        setStatus("Link copied. It opens this page with these settings; the video isn't included.")
+      } catch {
+        setStatus("Couldn't access the clipboard.", true)
+      }
+    })
+
+    container.querySelector("#preset-import")?.addEventListener("click", () => importInput.click())
+    importInput.addEventListener("change", async () => {
+      const file = importInput.files?.[0]
+      if (!file) return
+      try {
+        const count = importPresets(await file.text())
+        render()
+        setStatus(`Imported ${count} preset${count === 1 ? "" : "s"}.`)
+      } catch (err) {
+        setStatus((err as Error).message, true)
+      }
+    })
+  }
+
+  render()
+
+  return {
+    element: container,
+    destroy: () => {},
+  }
+}
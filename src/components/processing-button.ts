@@ -1,7 +1,15 @@
 import type { Component, ActionConfig } from "../types"
 import { VideoProcessor } from "../lib/video-processor"
-import { getState, subscribe, resetVideo } from "../store"
+import { getState, getVideoData, subscribe, resetVideo } from "../store"
+import { isSaveFilePickerSupported, isPickerCancelled } from "../lib/output-storage"
+import { describeFFmpegCore } from "../lib/ffmpeg-core"
+import { requiresFFmpeg } from "../lib/processing-engines"
+import { validateActionConfig, type FieldErrors } from "../lib/action-params"
+import { createFFmpegCommandPanel } from "./ffmpeg-command-panel"
 import { iconSvg } from "../lib/icons"
+import { createLogger } from "../lib/logger"
+
+const log = createLogger("processing-button")
 
 /**
  * Formats a duration in milliseconds to a human-readable string.
@@ -20,17 +28,39 @@ function formatWallClockTime(date: Date): string {
 
 interface ProcessingButtonOptions {
   config: ActionConfig
+  /** Steps to run as a pipeline instead of config alone; config should be the last step. */
+  pipeline?: ActionConfig[]
   onReset?: () => void
+  /**
+   * Where each setting's error goes, keyed on param (see FieldErrors): the
+   * message is appended to the element, usually the input's wrapper. Errors
+   * for settings without one are listed under the button.
+   */
+  fieldTargets?: Record<string, HTMLElement>
+}
+
+export interface ProcessingButton extends Component {
+  processor: VideoProcessor
+  /**
+   * Swaps in new settings, keeping the processor and any run it has underway,
+   * so pages update the button on every settings change instead of rebuilding it.
+   */
+  update: (options: Pick<ProcessingButtonOptions, "config" | "pipeline" | "fieldTargets">) => void
 }
 
 /**
  * Button component that handles video processing and download.
  * Shows loading state during processing and download/reset options when complete.
+ * Single actions also get a panel with the equivalent desktop ffmpeg command.
  */
-export function createProcessingButton(options: ProcessingButtonOptions): Component & { processor: VideoProcessor } {
+export function createProcessingButton(options: ProcessingButtonOptions): ProcessingButton {
   const container = document.createElement("div")
   const processor = new VideoProcessor()
   let etaInterval: ReturnType<typeof setInterval> | null = null
+  // Kept across re-renders (ETA ticks, store updates) until the run ends.
+  let isCancelling = false
+  // Error messages placed next to the page's inputs, removed on every render.
+  let fieldMessages: HTMLElement[] = []
 
   const storeUnsub = subscribe(() => render())
 
@@ -38,18 +68,49 @@ export function createProcessingButton(options: ProcessingButtonOptions): Compon
     const ps = processor.getState()
     const appState = getState()
     const isLoaded = appState.isFFmpegLoaded
-    const requiresFfmpeg = !(options.config.type === "frame-extract" && options.config.params.mode === "single")
+    // Pipelines always run on FFmpeg, and so may settings nothing else can check yet.
+    const validation = options.pipeline ? null : validateActionConfig(options.config)
+    const isFFmpegRequired = !validation?.success || requiresFFmpeg(validation.config)
 
     container.innerHTML = ""
+    clearFieldMessages()
+    if (!ps.isProcessing) isCancelling = false
 
     if (ps.error) {
       container.innerHTML = `
         <div class="space-y-3">
-          <div class="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">${ps.error}</div>
-          <button id="pb-retry" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 w-full">Try Again</button>
+          <div class="p-3 bg-destructive/10 text-destructive rounded-lg text-sm space-y-1">
+            <p id="pb-error-title" class="font-medium ${ps.failure ? "" : "hidden"}"></p>
+            <p id="pb-error-message"></p>
+            <p id="pb-error-suggestion" class="text-xs ${ps.failure ? "" : "hidden"}"></p>
+          </div>
+          <div class="flex gap-3">
+            <button id="pb-retry" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 flex-1">Try Again</button>
+            ${ps.failure ? `
+              <button id="pb-report" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 flex-1">
+                ${iconSvg("Copy", 16, "w-4 h-4 mr-2")} <span>Copy diagnostic report</span>
+              </button>
+            ` : ""}
+          </div>
         </div>
       `
+      // Messages can quote file names and FFmpeg output, so they go in as text.
+      container.querySelector("#pb-error-message")!.textContent = ps.error
+      if (ps.failure) {
+        container.querySelector("#pb-error-title")!.textContent = ps.failure.title
+        container.querySelector("#pb-error-suggestion")!.textContent = ps.failure.suggestion
+      }
       container.querySelector("#pb-retry")?.addEventListener("click", () => { processor.reset(); render() })
+      container.querySelector("#pb-report")?.addEventListener("click", async (e) => {
+        const label = (e.currentTarget as HTMLElement).querySelector("span")!
+        try {
+          await navigator.clipboard.writeText(processor.getDiagnosticReport() ?? "")
+          label.textContent = "Report copied"
+        } catch (err) {
+          log.warn("Copying the diagnostic report failed: %o", err)
+          label.textContent = "Couldn't access the clipboard"
+        }
+      })
       return
     }
 
@@ -72,8 +133,16 @@ export function createProcessingButton(options: ProcessingButtonOptions): Compon
             <div class="h-full bg-accent transition-all duration-300" style="width:${ps.progress}%"></div>
           </div>
           ${etaHtml}
+          <button id="pb-cancel" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-4 w-full" ${isCancelling ? "disabled" : ""}>
+            ${iconSvg("X", 16, "w-4 h-4 mr-2")} ${isCancelling ? "Cancelling..." : "Cancel"}
+          </button>
         </div>
       `
+      container.querySelector("#pb-cancel")?.addEventListener("click", () => {
+        isCancelling = true
+        processor.cancel()
+        render()
+      })
       return
     }
 
@@ -83,7 +152,7 @@ export function createProcessingButton(options: ProcessingButtonOptions): Compon
         <div class="space-y-3">
           <div class="flex items-center gap-2 text-accent text-sm">
             ${iconSvg("CheckCircle2", 16, "w-4 h-4")}
-            <span>Complete! File downloaded.</span>
+            <span id="pb-complete-message"></span>
           </div>
           <div class="flex gap-3">
             <button id="pb-download" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 flex-1">
@@ -95,6 +164,9 @@ export function createProcessingButton(options: ProcessingButtonOptions): Compon
           </div>
         </div>
       `
+      container.querySelector("#pb-complete-message")!.textContent = ps.savedFileName
+        ? `Complete! Saved to ${ps.savedFileName}.`
+        : "Complete! File downloaded."
       container.querySelector("#pb-download")?.addEventListener("click", () => processor.download(options.config))
       container.querySelector("#pb-reset")?.addEventListener("click", () => {
         processor.reset()
@@ -106,36 +178,126 @@ export function createProcessingButton(options: ProcessingButtonOptions): Compon
     }
 
     // Default: Process button
-    const isDisabled = requiresFfmpeg && !isLoaded
+    const settingErrors = getSettingErrors()
+    const isDisabled = (isFFmpegRequired && !isLoaded) || Object.keys(settingErrors).length > 0
     container.innerHTML = `
       <button id="pb-process" class="inline-flex items-center justify-center rounded-md text-sm font-medium bg-accent text-accent-foreground hover:bg-accent/90 h-10 px-4 py-2 w-full ${isDisabled ? "opacity-50 cursor-not-allowed" : ""}" ${isDisabled ? "disabled" : ""}>
-        ${isLoaded || !requiresFfmpeg
+        ${isLoaded || !isFFmpegRequired
           ? `${iconSvg("Download", 16, "w-4 h-4 mr-2")} Process & Download`
           : `${iconSvg("Loader2", 16, "w-4 h-4 mr-2 animate-spin")} Loading Qcut...`
         }
       </button>
+      <ul id="pb-setting-errors" class="mt-2 text-xs text-destructive space-y-1"></ul>
+      ${ps.isCancelled ? `
+        <p class="mt-2 text-xs text-muted-foreground text-center">Cancelled. Nothing was saved.</p>
+      ` : ""}
+      ${isFFmpegRequired && appState.ffmpegCore ? `
+        <p class="mt-2 text-xs text-muted-foreground text-center" title="${appState.ffmpegCore === "multi-thread" ? "Encodes run on all CPU cores." : "Encodes run on one CPU core. Multithreading needs a cross-origin isolated page."}">
+          ${iconSvg("Cpu", 12, "w-3 h-3 inline-block mr-1 -mt-0.5")}${describeFFmpegCore(appState.ffmpegCore)}
+        </p>
+      ` : ""}
     `
+    const errorList = container.querySelector("#pb-setting-errors")!
+    for (const [key, message] of Object.entries(settingErrors)) {
+      const target = options.fieldTargets?.[key]
+      const item = document.createElement(target ? "p" : "li")
+      item.textContent = message
+      if (target) {
+        item.className = "text-xs text-destructive"
+        target.appendChild(item)
+        fieldMessages.push(item)
+      } else {
+        errorList.appendChild(item)
+      }
+    }
+    errorList.classList.toggle("hidden", errorList.childElementCount === 0)
     container.querySelector("#pb-process")?.addEventListener("click", async () => {
-      await processor.process(options.config)
+      // Ask where to save up front, while the click still counts as a user gesture,
+      // so the output can be written straight to disk when it's done.
+      let saveHandle: FileSystemFileHandle | undefined
+      const videoData = getVideoData()
+      if (isSaveFilePickerSupported() && videoData) {
+        const lastStep = options.pipeline ? options.pipeline[options.pipeline.length - 1] : options.config
+        try {
+          saveHandle = (await processor.pickSaveLocation(lastStep, videoData, !!options.pipeline)) ?? undefined
+        } catch (err) {
+          if (isPickerCancelled(err)) return
+          log.warn("Save location picker failed: %o", err)
+        }
+      }
+
+      if (options.pipeline) await processor.processPipeline(options.pipeline, { saveHandle })
+      else await processor.process(options.config, { saveHandle })
       render()
     })
   }
 
+  /**
+   * Returns a message per invalid setting (see validateActionConfig), so
+   * they're fixed before processing rather than failing it. Pipeline steps'
+   * errors are keyed "<step>.<param>", counting from 1.
+   */
+  function getSettingErrors(): FieldErrors {
+    if (!options.pipeline) {
+      const validation = validateActionConfig(options.config)
+      return validation.success ? {} : validation.fieldErrors
+    }
+    const errors: FieldErrors = {}
+    options.pipeline.forEach((step, i) => {
+      const validation = validateActionConfig(step)
+      if (validation.success) return
+      for (const [key, message] of Object.entries(validation.fieldErrors)) {
+        errors[`${i + 1}.${key}`] = `Step ${i + 1}: ${message}`
+      }
+    })
+    return errors
+  }
+
+  function clearFieldMessages(): void {
+    fieldMessages.forEach((message) => message.remove())
+    fieldMessages = []
+  }
+
   // Subscribe to processor state changes
   const processorUnsub = processor.subscribe(() => render())
 
   // Initial render
   render()
 
+  const element = document.createElement("div")
+  element.appendChild(container)
+  let commandPanel: Component | null = null
+
+  function renderCommandPanel(): void {
+    commandPanel?.destroy()
+    commandPanel?.element.remove()
+    const videoData = getVideoData()
+    commandPanel = !options.pipeline && videoData
+      ? createFFmpegCommandPanel({ config: options.config, videoData, outputFileName: processor.getOutputFileName(options.config, videoData) })
+      : null
+    if (commandPanel) element.appendChild(commandPanel.element)
+  }
+  renderCommandPanel()
+
   // Update ETA periodically during processing
   etaInterval = setInterval(() => {
     if (processor.getState().isProcessing) render()
   }, 1000)
 
   return {
-    element: container,
+    element,
     processor,
+    update: (next) => {
+      options = { ...options, ...next }
+      // A run underway carries on with the settings it started with; a
+      // finished or failed one's output is for the old settings.
+      if (!processor.getState().isProcessing) processor.reset()
+      renderCommandPanel()
+      render()
+    },
     destroy: () => {
+      clearFieldMessages()
+      commandPanel?.destroy()
       storeUnsub()
       processorUnsub()
       if (etaInterval) clearInterval(etaInterval)
@@ -0,0 +1,76 @@
+import type { Component } from "../types"
+import { navigate, getCurrentPath, refreshRoute } from "../router"
+import { restoreSession, dismissSavedSession, type SavedSession } from "../lib/session"
+import { formatFileSize } from "../lib/file-utils"
+import { iconSvg } from "../lib/icons"
+import { createLogger } from "../lib/logger"
+
+const log = createLogger("session-restore-banner")
+
+function formatSavedAgo(savedAtMs: number): string {
+  const minutes = Math.round((Date.now() - savedAtMs) / 60000)
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `${hours} h ago`
+  return new Date(savedAtMs).toLocaleDateString()
+}
+
+/**
+ * Floating card offering to reopen the session saved by an earlier page load:
+ * the same video, route and page settings. Removes itself once the user
+ * restores or dismisses it.
+ */
+export function createSessionRestoreBanner(session: SavedSession): Component {
+  const card = document.createElement("div")
+  card.className = "fixed bottom-6 left-6 right-24 sm:right-auto z-40 sm:w-96 rounded-lg border bg-background p-4 shadow-lg space-y-3"
+  card.setAttribute("role", "status")
+
+  card.innerHTML = `
+    <div class="flex items-start gap-3">
+      ${iconSvg("RotateCcw", 18, "w-[18px] h-[18px] mt-0.5 text-accent flex-shrink-0")}
+      <div class="min-w-0 space-y-1">
+        <p class="text-sm font-medium">Pick up where you left off?</p>
+        <p id="srb-details" class="text-xs text-muted-foreground truncate"></p>
+      </div>
+    </div>
+    <p id="srb-error" class="hidden text-xs text-destructive"></p>
+    <div class="flex gap-2 justify-end">
+      <button id="srb-dismiss" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-3">Dismiss</button>
+      <button id="srb-restore" class="inline-flex items-center justify-center rounded-md text-sm font-medium bg-accent text-accent-foreground hover:bg-accent/90 h-9 px-3">Restore</button>
+    </div>
+  `
+
+  const details = card.querySelector("#srb-details") as HTMLElement
+  details.textContent = `${session.video.name} · ${formatFileSize(session.video.size)} · saved ${formatSavedAgo(session.savedAtMs)}`
+  details.title = session.video.name
+
+  const errorEl = card.querySelector("#srb-error") as HTMLElement
+  const restoreBtn = card.querySelector("#srb-restore") as HTMLButtonElement
+
+  restoreBtn.addEventListener("click", async () => {
+    restoreBtn.disabled = true
+    restoreBtn.innerHTML = `${iconSvg("Loader2", 14, "w-3.5 h-3.5 mr-2 animate-spin")} Restoring...`
+    try {
+      const path = await restoreSession(session)
+      card.remove()
+      if (path === getCurrentPath()) await refreshRoute()
+      else await navigate(path)
+    } catch (err) {
+      log.warn("Session restore failed: %o", err)
+      errorEl.textContent = (err as Error).message
+      errorEl.classList.remove("hidden")
+      restoreBtn.remove()
+    }
+  })
+
+  card.querySelector("#srb-dismiss")?.addEventListener("click", () => {
+    card.remove()
+    dismissSavedSession()
+  })
+
+  return {
+    element: card,
+    destroy: () => card.remove(),
+  }
+}
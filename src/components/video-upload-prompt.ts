@@ -1,7 +1,9 @@
 import type { Component } from "../types"
-import { setVideoData, ensureVideoBytes } from "../store"
+import { setVideoData, ensureVideoSource } from "../store"
 import { getFileSizeWarningType } from "../lib/file-utils"
 import { createFileSizeWarning } from "./file-size-warning"
+import { loadVideoMetadata } from "../lib/video-metadata"
+import { prefetchMediaProbe } from "../lib/media-probe"
 import { createLogger } from "../lib/logger"
 import { iconSvg } from "../lib/icons"
 
@@ -44,7 +46,7 @@ export function createVideoUploadPrompt(onVideoLoaded: () => void): Component {
   function handleFileSelect(file: File): void {
     const warningType = getFileSizeWarningType(file.size)
     if (warningType) {
-      const warning = createFileSizeWarning(warningType, file.size, () => {}, () => processFile(file))
+      const warning = createFileSizeWarning(file.size, () => {}, () => processFile(file))
       document.body.appendChild(warning.element)
       ;(warning.element as HTMLDialogElement).showModal()
     } else {
@@ -54,34 +56,20 @@ export function createVideoUploadPrompt(onVideoLoaded: () => void): Component {
 
   function processFile(file: File): void {
     errorDiv.classList.add("hidden")
-    const video = document.createElement("video")
-    video.preload = "metadata"
-    video.playsInline = true
-    const objectUrl = URL.createObjectURL(file)
-
-    video.onloadedmetadata = () => {
-      URL.revokeObjectURL(objectUrl)
-      log.info("Video metadata loaded: %s (%dx%d, %ds)", file.name, video.videoWidth, video.videoHeight, video.duration)
-      setVideoData({
-        file,
-        duration: video.duration,
-        width: video.videoWidth,
-        height: video.videoHeight,
-        format: file.name.split(".").pop()?.toUpperCase(),
+    loadVideoMetadata(file)
+      .then((data) => {
+        log.info("Video metadata loaded: %s (%dx%d, %ds)", file.name, data.width, data.height, data.duration)
+        setVideoData(data)
+        onVideoLoaded()
+        // Snapshot the file in the background so processing reads the copy instead
+        // of re-reading the (possibly stale) File reference later. See issue #2.
+        ensureVideoSource().catch(() => {})
+        prefetchMediaProbe()
+      })
+      .catch((err: Error) => {
+        errorDiv.textContent = err.message
+        errorDiv.classList.remove("hidden")
       })
-      onVideoLoaded()
-      // Pre-read the file bytes in the background so the cut reuses them instead
-      // of re-reading the (possibly stale) File reference later. See issue #2.
-      ensureVideoBytes().catch(() => {})
-    }
-
-    video.onerror = () => {
-      URL.revokeObjectURL(objectUrl)
-      errorDiv.textContent = "Unable to load video. The file may be corrupted or in an unsupported format."
-      errorDiv.classList.remove("hidden")
-    }
-
-    video.src = objectUrl
   }
 
   label.addEventListener("dragover", (e) => { e.preventDefault() })
@@ -0,0 +1,213 @@
+import { z } from "zod"
+import type { ActionConfig, ActionType } from "../types"
+
+/** Settings that failed validation: param key → message naming the setting. */
+export type FieldErrors = Record<string, string>
+
+export type ActionValidation =
+  | { success: true; config: ParsedActionConfig }
+  | { success: false; fieldErrors: FieldErrors; message: string }
+
+/** A cleared input ("" or null) counts as not set, so defaults apply. */
+function blankToUndefined(value: unknown): unknown {
+  return value === "" || value === null ? undefined : value
+}
+
+/**
+ * A numeric setting. Pages keep input values as strings, so strings are
+ * coerced; anything that isn't a number is rejected instead of becoming NaN.
+ */
+function numberField(label: string, limits: { min?: number; max?: number; isInteger?: boolean } = {}) {
+  let schema = z.coerce.number({ invalid_type_error: `${label} must be a number.` })
+  if (limits.isInteger) schema = schema.int(`${label} must be a whole number.`)
+  if (limits.min !== undefined) schema = schema.min(limits.min, `${label} must be at least ${limits.min}.`)
+  if (limits.max !== undefined) schema = schema.max(limits.max, `${label} must be at most ${limits.max}.`)
+  return schema
+}
+
+function optionalNumber(label: string, limits?: Parameters<typeof numberField>[1]) {
+  return z.preprocess(blankToUndefined, numberField(label, limits).optional())
+}
+
+function numberWithDefault(label: string, defaultValue: number, limits?: Parameters<typeof numberField>[1]) {
+  return z.preprocess(blankToUndefined, numberField(label, limits).default(defaultValue))
+}
+
+function choice<const T extends readonly [string, ...string[]]>(label: string, values: T, defaultValue: T[number]) {
+  return z.preprocess((value) => blankToUndefined(value) ?? defaultValue, z.enum(values, { message: `Choose a valid ${label}.` }))
+}
+
+function fileField(message: string) {
+  return z.instanceof(File, { message })
+}
+
+/** -1 and -2 tell FFmpeg's scale filter to keep the aspect ratio (-2 rounds to even). */
+function dimensionField(label: string) {
+  return optionalNumber(label, { isInteger: true }).refine(
+    (value) => value === undefined || value > 0 || value === -1 || value === -2,
+    `${label} must be a positive number of pixels, or -1 or -2 to keep the aspect ratio.`
+  )
+}
+
+const convertParams = z.object({
+  format: choice("output format", ["mp4", "webm", "avi", "mov", "mkv"], "mp4"),
+  codec: choice("video codec", ["copy", "libx264", "libx265", "libvpx-vp9"], "libx264"),
+})
+
+const compressParams = z.object({
+  mode: choice("compression mode", ["quality", "target-size"], "quality"),
+  crf: numberWithDefault("Quality (CRF)", 23, { min: 0, max: 51, isInteger: true }),
+  preset: choice("encoding preset", ["ultrafast", "superfast", "veryfast", "faster", "fast", "medium", "slow", "slower", "veryslow"], "medium"),
+  targetSizeMB: optionalNumber("Target size", { min: 0.1 }),
+  audioBitrateKbps: numberWithDefault("Audio bitrate", 128, { min: 8, max: 512, isInteger: true }),
+}).superRefine((params, ctx) => {
+  if (params.mode === "target-size" && params.targetSizeMB === undefined) {
+    ctx.addIssue({ code: "custom", path: ["targetSizeMB"], message: "Enter a target size." })
+  }
+})
+
+const trimParams = z.object({
+  mode: choice("trim mode", ["keep", "remove"], "keep"),
+  cutMode: choice("cut mode", ["fast", "exact"], "fast"),
+  ranges: z.array(z.object({ start: z.number().finite(), end: z.number().finite() }), {
+    invalid_type_error: "The selected ranges are invalid.",
+  }).optional(),
+  start: optionalNumber("Start", { min: 0 }),
+  /** 0 or unset means the end of the video. */
+  end: optionalNumber("End", { min: 0 }),
+}).superRefine((params, ctx) => {
+  if (params.ranges) return
+  if (params.end && params.end <= (params.start ?? 0)) {
+    ctx.addIssue({ code: "custom", path: ["end"], message: "End must be after the start." })
+  }
+})
+
+const extractAudioParams = z.object({
+  extractMode: choice("extract mode", ["audio", "video"], "audio"),
+  format: choice("audio format", ["mp3", "wav", "aac", "flac", "ogg"], "mp3"),
+  bitrate: z.preprocess(
+    blankToUndefined,
+    z.string().regex(/^\d+k$/, "Bitrate must look like 192k.").default("192k")
+  ),
+  videoFormat: choice("video format", ["mp4", "webm", "mov"], "mp4"),
+})
+
+const mergeParams = z.object({
+  audioFile: fileField("Select an audio file to merge."),
+})
+
+const gifParams = z.object({
+  start: numberWithDefault("Start", 0, { min: 0 }),
+  end: numberWithDefault("End", 3, { min: 0 }),
+  fps: numberWithDefault("Frame rate", 10, { min: 1, max: 60, isInteger: true }),
+  scale: numberWithDefault("Width", 480, { min: 16, max: 4096, isInteger: true }),
+}).superRefine((params, ctx) => {
+  if (params.end <= params.start) {
+    ctx.addIssue({ code: "custom", path: ["end"], message: "End must be after the start." })
+  }
+})
+
+const resizeParams = z.object({
+  width: dimensionField("Width"),
+  height: dimensionField("Height"),
+}).superRefine((params, ctx) => {
+  if (!((params.width ?? -1) > 0 || (params.height ?? -1) > 0)) {
+    ctx.addIssue({ code: "custom", path: ["width"], message: "Enter a width or a height." })
+  }
+})
+
+const frameExtractParams = z.object({
+  mode: choice("extraction mode", ["single", "interval", "all"], "interval"),
+  interval: numberWithDefault("Interval", 1, { min: 0.01 }),
+  timestamp: numberWithDefault("Timestamp", 0, { min: 0 }),
+  format: choice("image format", ["png", "jpg", "webp"], "png"),
+})
+
+const combineParams = z.object({
+  clips: z.array(fileField("Clips must be video files."), { required_error: "Add at least two clips to combine." })
+    .min(2, "Add at least two clips to combine."),
+})
+
+const normalizeAudioParams = z.object({
+  targetLoudnessLufs: numberWithDefault("Target loudness", -16, { min: -70, max: -5 }),
+  truePeakDb: numberWithDefault("True peak", -1.5, { min: -9, max: 0 }),
+  loudnessRangeLu: numberWithDefault("Loudness range", 11, { min: 1, max: 20 }),
+})
+
+const rotateParams = z.object({
+  rotation: numberWithDefault("Rotation", 0).refine(
+    (value) => value === 0 || value === 90 || value === 180 || value === 270,
+    "Rotation must be 0, 90, 180 or 270 degrees."
+  ),
+  isFlipHorizontal: z.boolean().default(false),
+  isFlipVertical: z.boolean().default(false),
+  /** Set by the page when the container can carry a rotation tag, so no re-encode is needed. */
+  isLosslessFormat: z.boolean().default(false),
+})
+
+const overlayParams = z.object({
+  overlayFile: fileField("Select an overlay image."),
+  position: choice("position", ["top-left", "top-right", "bottom-left", "bottom-right", "center"], "top-left"),
+  offsetX: numberWithDefault("Horizontal offset", 10, { min: 0, isInteger: true }),
+  offsetY: numberWithDefault("Vertical offset", 10, { min: 0, isInteger: true }),
+  scalePct: numberWithDefault("Scale", 100, { min: 1, max: 500 }),
+  opacityPct: numberWithDefault("Opacity", 100, { min: 0, max: 100 }),
+})
+
+/**
+ * Every action with the params it takes, keyed on type. Parsing applies the
+ * same defaults the pages start with, and turns numeric strings into numbers.
+ */
+const actionConfigSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("convert"), params: convertParams }),
+  z.object({ type: z.literal("compress"), params: compressParams }),
+  z.object({ type: z.literal("trim"), params: trimParams }),
+  z.object({ type: z.literal("extract-audio"), params: extractAudioParams }),
+  z.object({ type: z.literal("merge"), params: mergeParams }),
+  z.object({ type: z.literal("gif"), params: gifParams }),
+  z.object({ type: z.literal("resize"), params: resizeParams }),
+  z.object({ type: z.literal("frame-extract"), params: frameExtractParams }),
+  z.object({ type: z.literal("combine"), params: combineParams }),
+  z.object({ type: z.literal("normalize-audio"), params: normalizeAudioParams }),
+  z.object({ type: z.literal("rotate"), params: rotateParams }),
+  z.object({ type: z.literal("overlay"), params: overlayParams }),
+])
+
+/** An ActionConfig whose params have been validated and typed (see validateActionConfig). */
+export type ParsedActionConfig = z.infer<typeof actionConfigSchema>
+
+/** A validated config of one action type. */
+export type ParsedAction<T extends ActionType> = Extract<ParsedActionConfig, { type: T }>
+
+/** Validated params of one action type. */
+export type ActionParams<T extends ActionType> = ParsedAction<T>["params"]
+
+/**
+ * Validates an action's params and fills in defaults.
+ * @param config - Action as built by a page, preset or batch form
+ * @returns The typed config, or a message per invalid setting
+ */
+export function validateActionConfig(config: ActionConfig): ActionValidation {
+  const result = actionConfigSchema.safeParse(config)
+  if (result.success) return { success: true, config: result.data }
+
+  const fieldErrors: FieldErrors = {}
+  for (const issue of result.error.issues) {
+    // Issues are on "type" or on ["params", key, ...]; report each setting once.
+    const key = String(issue.path[0] === "params" ? issue.path[1] ?? "params" : issue.path[0] ?? "type")
+    fieldErrors[key] ??= issue.path[0] === "type" ? `Unknown action "${config.type}".` : issue.message
+  }
+  return { success: false, fieldErrors, message: Object.values(fieldErrors).join(" ") }
+}
+
+/**
+ * Validates an action's params, for callers that can only fail.
+ * @param config - Action to validate
+ * @returns The typed config
+ * @throws Error listing the invalid settings
+ */
+export function parseActionConfig(config: ActionConfig): ParsedActionConfig {
+  const validation = validateActionConfig(config)
+  if (!validation.success) throw new Error(validation.message)
+  return validation.config
+}
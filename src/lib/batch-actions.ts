@@ -0,0 +1,258 @@
+import type { ActionType } from "../types"
+import { validateActionConfig, type FieldErrors } from "./action-params"
+
+/** A single setting shown in batch mode's action form. */
+export interface BatchSettingField {
+  /** Key in ActionConfig.params. */
+  key: string
+  label: string
+  type: "select" | "number" | "checkbox" | "file"
+  options?: Array<{ value: string; label: string }>
+  defaultValue?: string | number | boolean
+  min?: number
+  max?: number
+  step?: number
+  /** MIME filter for file fields. */
+  accept?: string
+  hint?: string
+}
+
+/** An action that can be applied to every file in a batch, with its settings form. */
+export interface BatchActionDefinition {
+  type: ActionType
+  label: string
+  fields: BatchSettingField[]
+}
+
+/**
+ * Actions available in batch mode and as pipeline steps. Merge and combine
+ * take several inputs per output, so they are not offered here. Defaults
+ * mirror each action page.
+ */
+export const batchActions: BatchActionDefinition[] = [
+  {
+    type: "compress",
+    label: "Compress Video",
+    fields: [
+      {
+        key: "mode",
+        label: "Mode",
+        type: "select",
+        defaultValue: "quality",
+        options: [
+          { value: "quality", label: "Quality (CRF)" },
+          { value: "target-size", label: "Target size (two-pass)" },
+        ],
+      },
+      { key: "crf", label: "Quality (CRF)", type: "number", defaultValue: 28, min: 0, max: 51, step: 1, hint: "Lower = better quality, larger file (18-28 recommended)" },
+      {
+        key: "preset",
+        label: "Encoding Preset",
+        type: "select",
+        defaultValue: "medium",
+        options: [
+          { value: "ultrafast", label: "Ultra Fast (largest file)" },
+          { value: "fast", label: "Fast" },
+          { value: "medium", label: "Medium (balanced)" },
+          { value: "slow", label: "Slow" },
+          { value: "veryslow", label: "Very Slow (smallest file)" },
+        ],
+      },
+      { key: "targetSizeMB", label: "Target size (MB)", type: "number", defaultValue: 25, min: 1, step: 1, hint: "Used in target size mode" },
+      { key: "audioBitrateKbps", label: "Audio bitrate (kbps)", type: "number", defaultValue: 128, min: 32, max: 320, step: 32, hint: "Used in target size mode" },
+    ],
+  },
+  {
+    type: "convert",
+    label: "Convert Format",
+    fields: [
+      {
+        key: "format",
+        label: "Output Format",
+        type: "select",
+        defaultValue: "mp4",
+        options: [
+          { value: "mp4", label: "MP4" },
+          { value: "webm", label: "WebM" },
+          { value: "avi", label: "AVI" },
+          { value: "mov", label: "MOV" },
+          { value: "mkv", label: "MKV" },
+        ],
+      },
+      {
+        key: "codec",
+        label: "Video Codec",
+        type: "select",
+        defaultValue: "copy",
+        options: [
+          { value: "copy", label: "Keep original (no re-encode)" },
+          { value: "libx264", label: "H.264 (re-encode)" },
+          { value: "libx265", label: "H.265 (re-encode)" },
+          { value: "libvpx-vp9", label: "VP9 (re-encode)" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "resize",
+    label: "Resize",
+    fields: [
+      { key: "width", label: "Width (px)", type: "number", defaultValue: 1280, min: -2, step: 2, hint: "Use -2 to keep the aspect ratio" },
+      { key: "height", label: "Height (px)", type: "number", defaultValue: -2, min: -2, step: 2, hint: "Use -2 to keep the aspect ratio" },
+    ],
+  },
+  {
+    type: "trim",
+    label: "Cut/Trim",
+    fields: [
+      { key: "start", label: "Start (seconds)", type: "number", defaultValue: 0, min: 0, step: 0.1 },
+      { key: "end", label: "End (seconds, 0 = end of video)", type: "number", defaultValue: 0, min: 0, step: 0.1 },
+    ],
+  },
+  {
+    type: "extract-audio",
+    label: "Extract Audio",
+    fields: [
+      {
+        key: "format",
+        label: "Audio Format",
+        type: "select",
+        defaultValue: "mp3",
+        options: [
+          { value: "mp3", label: "MP3" },
+          { value: "wav", label: "WAV" },
+          { value: "aac", label: "AAC" },
+          { value: "flac", label: "FLAC (lossless)" },
+          { value: "ogg", label: "OGG" },
+        ],
+      },
+      {
+        key: "bitrate",
+        label: "Bitrate",
+        type: "select",
+        defaultValue: "192k",
+        options: [
+          { value: "128k", label: "128 kbps" },
+          { value: "192k", label: "192 kbps (recommended)" },
+          { value: "256k", label: "256 kbps" },
+          { value: "320k", label: "320 kbps (highest)" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "normalize-audio",
+    label: "Normalize Audio",
+    fields: [
+      { key: "targetLoudnessLufs", label: "Target loudness (LUFS)", type: "number", defaultValue: -16, min: -70, max: -5, step: 0.5 },
+      { key: "truePeakDb", label: "True peak (dBTP)", type: "number", defaultValue: -1.5, min: -9, max: 0, step: 0.1 },
+      { key: "loudnessRangeLu", label: "Loudness range (LU)", type: "number", defaultValue: 11, min: 1, max: 20, step: 0.5 },
+    ],
+  },
+  {
+    type: "rotate",
+    label: "Rotate / Flip",
+    fields: [
+      {
+        key: "rotation",
+        label: "Rotation",
+        type: "select",
+        defaultValue: "90",
+        options: [
+          { value: "0", label: "None" },
+          { value: "90", label: "90° clockwise" },
+          { value: "180", label: "180°" },
+          { value: "270", label: "90° counter-clockwise" },
+        ],
+      },
+      { key: "isFlipHorizontal", label: "Flip horizontally", type: "checkbox", defaultValue: false },
+      { key: "isFlipVertical", label: "Flip vertically", type: "checkbox", defaultValue: false },
+    ],
+  },
+  {
+    type: "gif",
+    label: "Create GIF",
+    fields: [
+      { key: "start", label: "Start (seconds)", type: "number", defaultValue: 0, min: 0, step: 0.1 },
+      { key: "end", label: "End (seconds)", type: "number", defaultValue: 3, min: 0, step: 0.1 },
+      { key: "fps", label: "Frame rate", type: "number", defaultValue: 10, min: 1, max: 30, step: 1 },
+      { key: "scale", label: "Width (px)", type: "number", defaultValue: 480, min: 16, step: 2 },
+    ],
+  },
+  {
+    type: "frame-extract",
+    label: "Frame Extract",
+    fields: [
+      {
+        key: "mode",
+        label: "Extraction Mode",
+        type: "select",
+        defaultValue: "interval",
+        options: [
+          { value: "interval", label: "Every N seconds" },
+          { value: "all", label: "All frames" },
+        ],
+      },
+      { key: "interval", label: "Interval (seconds)", type: "number", defaultValue: 1, min: 0.1, step: 0.1 },
+      {
+        key: "format",
+        label: "Image Format",
+        type: "select",
+        defaultValue: "png",
+        options: [
+          { value: "png", label: "PNG (lossless)" },
+          { value: "jpg", label: "JPG (smaller file)" },
+          { value: "webp", label: "WebP" },
+        ],
+      },
+    ],
+  },
+  {
+    type: "overlay",
+    label: "Add Overlay",
+    fields: [
+      { key: "overlayFile", label: "Overlay image", type: "file", accept: "image/*" },
+      {
+        key: "position",
+        label: "Position",
+        type: "select",
+        defaultValue: "top-left",
+        options: [
+          { value: "top-left", label: "Top Left" },
+          { value: "top-right", label: "Top Right" },
+          { value: "bottom-left", label: "Bottom Left" },
+          { value: "bottom-right", label: "Bottom Right" },
+          { value: "center", label: "Center" },
+        ],
+      },
+      { key: "scalePct", label: "Scale (%)", type: "number", defaultValue: 100, min: 1, max: 500, step: 1 },
+      { key: "opacityPct", label: "Opacity (%)", type: "number", defaultValue: 100, min: 0, max: 100, step: 1 },
+      { key: "offsetX", label: "Horizontal offset (px)", type: "number", defaultValue: 10, min: 0, step: 1 },
+      { key: "offsetY", label: "Vertical offset (px)", type: "number", defaultValue: 10, min: 0, step: 1 },
+    ],
+  },
+]
+
+/**
+ * Builds the default params for a batch action from its field defaults.
+ * @param definition - The batch action definition
+ * @returns Params object suitable for ActionConfig.params
+ */
+export function getDefaultBatchParams(definition: BatchActionDefinition): Record<string, unknown> {
+  const params: Record<string, unknown> = {}
+  for (const field of definition.fields) {
+    if (field.defaultValue !== undefined) params[field.key] = field.defaultValue
+  }
+  return params
+}
+
+/**
+ * Validates batch params against the action's schema (see validateActionConfig).
+ * @param definition - The batch action definition
+ * @param params - The current params
+ * @returns The invalid settings by field key, or null if the params are valid
+ */
+export function getBatchSettingErrors(definition: BatchActionDefinition, params: Record<string, unknown>): FieldErrors | null {
+  const validation = validateActionConfig({ type: definition.type, params })
+  return validation.success ? null : validation.fieldErrors
+}
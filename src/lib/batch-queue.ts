@@ -0,0 +1,227 @@
+import JSZip from "jszip"
+import type { ActionConfig } from "../types"
+import { loadFFmpeg } from "../store"
+import { VideoProcessor } from "./video-processor"
+import { loadVideoMetadata } from "./video-metadata"
+import { createLogger } from "./logger"
+
+const log = createLogger("batch-queue")
+
+export type BatchItemStatus = "pending" | "processing" | "done" | "error" | "cancelled"
+
+export interface BatchItem {
+  id: number
+  file: File
+  status: BatchItemStatus
+  progress: number
+  error: string | null
+  output: { blob: Blob; fileName: string } | null
+}
+
+/**
+ * Creates a queue that runs one ActionConfig over many files, one at a time,
+ * through a single VideoProcessor. Outputs are kept (in OPFS where available,
+ * see storeOutput) so they can be downloaded individually or together as a ZIP
+ * once the run finishes.
+ * @returns Object with queue management, run/cancel, download helpers and cleanup
+ */
+export function createBatchQueue(): {
+  getItems: () => readonly BatchItem[]
+  isRunning: () => boolean
+  addFiles: (files: File[]) => void
+  removeItem: (id: number) => void
+  clear: () => void
+  run: (config: ActionConfig) => Promise<void>
+  cancel: () => Promise<void>
+  downloadItem: (id: number) => void
+  downloadAllAsZip: () => Promise<void>
+  subscribe: (fn: () => void) => () => void
+  destroy: () => void
+} {
+  const processor = new VideoProcessor()
+  const listeners = new Set<() => void>()
+  let items: BatchItem[] = []
+  let nextId = 1
+  let isRunning = false
+  let isCancelRequested = false
+
+  function notify(): void {
+    listeners.forEach((fn) => fn())
+  }
+
+  function updateItem(item: BatchItem, partial: Partial<BatchItem>): void {
+    Object.assign(item, partial)
+    notify()
+  }
+
+  function triggerDownload(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = fileName
+    a.click()
+    // Give the browser a moment to start the download before revoking.
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+
+  /**
+   * Processes a single item and stores its output. Errors are recorded on the
+   * item rather than thrown, so one bad file doesn't stop the rest of the batch.
+   */
+  async function runItem(item: BatchItem, config: ActionConfig): Promise<void> {
+    updateItem(item, { status: "processing", progress: 0, error: null, output: null })
+
+    const unsubscribe = processor.subscribe((state) => {
+      if (state.isProcessing && state.progress !== item.progress) updateItem(item, { progress: state.progress })
+    })
+
+    try {
+      // Until process() starts there's no run for cancel() to abort, so it's
+      // checked after each step instead.
+      const videoData = await loadVideoMetadata(item.file)
+      if (isCancelRequested) {
+        updateItem(item, { status: "cancelled", progress: 0 })
+        return
+      }
+      await loadFFmpeg()
+      if (isCancelRequested) {
+        updateItem(item, { status: "cancelled", progress: 0 })
+        return
+      }
+      await processor.process(config, { videoData, autoDownload: false })
+
+      const state = processor.getState()
+      if (isCancelRequested || state.isCancelled) {
+        updateItem(item, { status: "cancelled", progress: 0 })
+      } else if (state.error || !state.outputBlob) {
+        updateItem(item, { status: "error", error: state.error ?? "No output was produced." })
+      } else {
+        updateItem(item, {
+          status: "done",
+          progress: 100,
+          output: { blob: state.outputBlob, fileName: state.outputFileName ?? item.file.name },
+        })
+      }
+    } catch (err) {
+      log.error("Batch item failed: %s %o", item.file.name, err)
+      updateItem(item, { status: isCancelRequested ? "cancelled" : "error", error: (err as Error).message })
+    } finally {
+      unsubscribe()
+      processor.reset()
+    }
+  }
+
+  return {
+    getItems: () => items,
+
+    isRunning: () => isRunning,
+
+    /**
+     * Adds files to the end of the queue as pending items.
+     * @param files - Files to add
+     */
+    addFiles(files: File[]): void {
+      for (const file of files) {
+        items.push({ id: nextId++, file, status: "pending", progress: 0, error: null, output: null })
+      }
+      notify()
+    },
+
+    /**
+     * Removes an item that is not currently being processed.
+     * @param id - Item id
+     */
+    removeItem(id: number): void {
+      items = items.filter((item) => item.id !== id || item.status === "processing")
+      notify()
+    },
+
+    /**
+     * Removes every item. Ignored while a run is in progress.
+     */
+    clear(): void {
+      if (isRunning) return
+      items = []
+      notify()
+    },
+
+    /**
+     * Runs the config over every item that hasn't completed yet, sequentially.
+     * Items that previously failed or were cancelled are retried.
+     * @param config - Action and settings to apply to each file
+     */
+    async run(config: ActionConfig): Promise<void> {
+      if (isRunning) return
+      isRunning = true
+      isCancelRequested = false
+      notify()
+      log.info("Starting batch %s for %d files", config.type, items.length)
+
+      try {
+        for (const item of items) {
+          if (isCancelRequested) break
+          if (item.status === "done") continue
+          await runItem(item, config)
+        }
+      } finally {
+        isRunning = false
+        notify()
+      }
+    },
+
+    /**
+     * Stops the run: aborts the file in progress and leaves the rest pending.
+     */
+    async cancel(): Promise<void> {
+      if (!isRunning) return
+      log.info("Cancelling batch")
+      isCancelRequested = true
+      processor.cancel()
+    },
+
+    /**
+     * Downloads one finished output.
+     * @param id - Item id
+     */
+    downloadItem(id: number): void {
+      const item = items.find((i) => i.id === id)
+      if (item?.output) triggerDownload(item.output.blob, item.output.fileName)
+    },
+
+    /**
+     * Bundles every finished output into a single ZIP and downloads it.
+     * Duplicate names get a numeric suffix so no output is overwritten.
+     */
+    async downloadAllAsZip(): Promise<void> {
+      const zip = new JSZip()
+      const usedNames = new Set<string>()
+      for (const item of items) {
+        if (!item.output) continue
+        let name = item.output.fileName
+        for (let n = 2; usedNames.has(name); n++) {
+          name = item.output.fileName.replace(/(\.[^/.]+)?$/, (ext) => `_${n}${ext}`)
+        }
+        usedNames.add(name)
+        zip.file(name, item.output.blob)
+      }
+      if (usedNames.size === 0) return
+      triggerDownload(await zip.generateAsync({ type: "blob" }), "qcut_batch.zip")
+    },
+
+    /**
+     * Subscribes to queue changes. Returns an unsubscribe function.
+     */
+    subscribe(fn: () => void): () => void {
+      listeners.add(fn)
+      return () => listeners.delete(fn)
+    },
+
+    /**
+     * Clears listeners and drops all outputs.
+     */
+    destroy(): void {
+      listeners.clear()
+      items = []
+    },
+  }
+}
@@ -1,4 +1,4 @@
-import { getState, getVideoData, ensureVideoBytes } from "../store"
+import { getMediaProbe } from "./media-probe"
 import { createLogger } from "./logger"
 
 const log = createLogger("codec-detection")
@@ -22,80 +22,22 @@ export interface CodecInfo {
 }
 
 /**
- * Detects video and audio codecs by running FFmpeg with -i and parsing the log output.
- * FFmpeg outputs stream info to stderr which we capture via the log event.
+ * Detects video and audio codecs from the full media probe (see media-probe.ts).
  * Returns null if FFmpeg is not loaded or no video data is available.
  */
 export async function detectCodecs(): Promise<CodecInfo | null> {
-  const { ffmpeg, isFFmpegLoaded } = getState()
-  const videoData = getVideoData()
-
-  log.debug("detectCodecs called - ffmpeg: %s, isLoaded: %s, videoData: %s", !!ffmpeg, isFFmpegLoaded, !!videoData)
-
-  if (!ffmpeg || !isFFmpegLoaded || !videoData) {
-    log.debug("FFmpeg not loaded or no video data - skipping detection")
+  const probe = await getMediaProbe()
+  if (!probe) {
+    log.debug("No media probe available - skipping detection")
     return null
   }
 
-  const uint8Array = await ensureVideoBytes()
-
-  const inputFileName = "probe_input.mp4"
-  await ffmpeg.writeFile(inputFileName, uint8Array)
-
-  const logMessages: string[] = []
-  const logHandler = ({ message }: { message: string }) => {
-    logMessages.push(message)
-  }
-  ffmpeg.on("log", logHandler)
-
-  try {
-    // Run ffmpeg -i which outputs stream info and exits with error (no output specified).
-    // The failure is expected; we only need the log output.
-    await ffmpeg.exec(["-i", inputFileName])
-  } catch {
-    // Expected to fail - we just want the log output
-  }
-
-  ffmpeg.off("log", logHandler)
-
   const info: CodecInfo = {
-    videoCodec: null,
-    audioCodec: null,
-    container: null,
+    videoCodec: probe.streams.find((s) => s.type === "video")?.codec?.toLowerCase() ?? null,
+    audioCodec: probe.streams.find((s) => s.type === "audio")?.codec?.toLowerCase() ?? null,
+    // ffprobe reports demuxer aliases like "mov,mp4,m4a,3gp,3g2,mj2"; keep the first.
+    container: probe.container?.split(",")[0].toLowerCase() ?? null,
   }
-
-  const fullLog = logMessages.join("\n")
-  log.debug("FFmpeg log output: %s", fullLog)
-
-  // Parse video codec from lines like:
-  // "Stream #0:0: Video: h264 (High), yuv420p, 1920x1080, ..."
-  const videoMatch = fullLog.match(/Stream #\d+:\d+.*Video:\s*(\w+)/i)
-  if (videoMatch) {
-    info.videoCodec = videoMatch[1].toLowerCase()
-    log.debug("Detected video codec: %s", info.videoCodec)
-  }
-
-  // Parse audio codec from lines like:
-  // "Stream #0:1: Audio: aac (LC), 48000 Hz, stereo, fltp, ..."
-  const audioMatch = fullLog.match(/Stream #\d+:\d+.*Audio:\s*(\w+)/i)
-  if (audioMatch) {
-    info.audioCodec = audioMatch[1].toLowerCase()
-    log.debug("Detected audio codec: %s", info.audioCodec)
-  }
-
-  // Parse container format from lines like:
-  // "Input #0, mov,mp4,m4a,3gp,3g2,mj2, from ..."
-  const containerMatch = fullLog.match(/Input #\d+,\s*(\w+)/i)
-  if (containerMatch) {
-    info.container = containerMatch[1].toLowerCase()
-    log.debug("Detected container: %s", info.container)
-  }
-
-  try {
-    await ffmpeg.deleteFile(inputFileName)
-  } catch {
-    // Ignore cleanup errors
-  }
-
+  log.debug("Detected codecs: %o", info)
   return info
 }
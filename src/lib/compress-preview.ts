@@ -0,0 +1,72 @@
+import type { ActionConfig } from "../types"
+import { getState, getVideoData, runFFmpegJob } from "../store"
+import { buildFFmpegArgs } from "./video-processor"
+import { parseActionConfig } from "./action-params"
+import { mountVideoSource } from "./ffmpeg-input"
+import { createScratchDir } from "./ffmpeg-scratch"
+import { createLogger } from "./logger"
+
+const log = createLogger("compress-preview")
+
+/** Length of the encoded sample. Long enough for rate control to settle. */
+export const PREVIEW_SAMPLE_SEC = 4
+
+export interface CompressionSample {
+  /** The encoded sample, playable as MP4. */
+  blob: Blob
+  /** Where the sample starts in the original video, in seconds. */
+  startSec: number
+  /** Actual sample length in seconds (shorter for very short videos). */
+  durationSec: number
+  /** Full-video size extrapolated from the sample's bitrate, in bytes. */
+  estimatedSizeBytes: number
+}
+
+/**
+ * Encodes a short sample from the middle of the loaded video with the given
+ * compress settings, and extrapolates the full output size from it.
+ * @param config - Compress config (quality mode)
+ * @param onProgress - Called with 0..1 while the sample encodes
+ * @param signal - Aborting cancels the encode (rejects with an AbortError)
+ * @returns The encoded sample and size estimate
+ * @throws Error if the settings are invalid (see parseActionConfig)
+ */
+export async function encodeCompressionSample(
+  config: ActionConfig,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<CompressionSample> {
+  const action = parseActionConfig(config)
+  const videoData = getVideoData()
+  if (!getState().isFFmpegLoaded) throw new Error("FFmpeg is not loaded yet. Please wait.")
+  if (!videoData) throw new Error("No video is loaded yet. Please select a video first.")
+
+  const totalSec = videoData.duration || 0
+  const durationSec = Math.min(PREVIEW_SAMPLE_SEC, totalSec || PREVIEW_SAMPLE_SEC)
+  const startSec = Math.max(0, totalSec / 2 - durationSec / 2)
+
+  return runFFmpegJob({ label: "compress-preview", priority: "preview", signal }, async (ffmpeg) => {
+    const scratch = await createScratchDir(ffmpeg, "compress-preview")
+    const input = await mountVideoSource(ffmpeg, "compress_preview.mp4")
+    const outputFileName = scratch.path("compress_preview_out.mp4")
+
+    const progressHandler = ({ progress }: { progress: number }) => onProgress?.(Math.min(1, Math.max(0, progress)))
+    ffmpeg.on("progress", progressHandler)
+
+    try {
+      // Input-side seek keeps the encode short and starts exactly at startSec.
+      const args = ["-ss", startSec.toFixed(3), "-t", durationSec.toFixed(3), ...buildFFmpegArgs(action, input.path, outputFileName, durationSec, scratch.dir)]
+      log.info("Encoding compression sample: %o", args)
+      await ffmpeg.exec(args)
+
+      const data = await ffmpeg.readFile(outputFileName)
+      const blob = new Blob([data instanceof Uint8Array ? data.slice().buffer : data], { type: "video/mp4" })
+      const estimatedSizeBytes = totalSec > 0 ? (blob.size / durationSec) * totalSec : blob.size
+      return { blob, startSec, durationSec, estimatedSizeBytes }
+    } finally {
+      ffmpeg.off("progress", progressHandler)
+      await input.release()
+      await scratch.release()
+    }
+  })
+}
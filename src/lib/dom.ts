@@ -39,3 +39,27 @@ export function html(strings: TemplateStringsArray, ...values: unknown[]): HTMLE
   wrapper.append(...content.childNodes)
   return wrapper
 }
+
+/**
+ * Sets a form control's value from loaded settings (e.g. a preset) and fires
+ * the event its page listens for, so the usual handlers update page state.
+ * Missing values and options the select doesn't offer are ignored.
+ */
+export function setControlValue(
+  el: HTMLInputElement | HTMLSelectElement,
+  value: unknown,
+  eventType: "input" | "change" = el instanceof HTMLSelectElement || el.type === "checkbox" ? "change" : "input"
+): void {
+  if (value === undefined || value === null) return
+  if (el instanceof HTMLInputElement && el.type === "checkbox") {
+    el.checked = Boolean(value)
+  } else {
+    const previous = el.value
+    el.value = String(value)
+    if (el instanceof HTMLSelectElement && el.value !== String(value)) {
+      el.value = previous
+      return
+    }
+  }
+  el.dispatchEvent(new Event(eventType))
+}
@@ -0,0 +1,130 @@
+import type { ParsedActionConfig } from "./action-params"
+import {
+  buildFFmpegArgs,
+  buildTargetSizePassArgs,
+  TRIM_CONCAT_FILE,
+  MERGE_AUDIO_FILE,
+  COMBINE_CONCAT_FILE,
+  OVERLAY_IMAGE_FILE,
+} from "./video-processor"
+import { buildTrimConcatList, getTrimSegments } from "./trim-ranges"
+import { planSmartTrim, buildSmartTrimSteps } from "./smart-trim"
+
+export type CommandShell = "bash" | "powershell"
+
+/** A text file the commands read, e.g. a concat list. */
+interface CommandListFile {
+  name: string
+  lines: string[]
+}
+
+/** What it takes to run an action with desktop ffmpeg. */
+export interface DesktopCommand {
+  /** Files to write before running ffmpeg. */
+  listFiles: CommandListFile[]
+  /** ffmpeg runs, in order, without the leading "ffmpeg". */
+  runs: string[][]
+}
+
+/** File names the desktop command reads and writes, relative to where it's run. */
+export interface DesktopCommandFiles {
+  input: string
+  output: string
+}
+
+// Arguments made only of these characters need no quoting.
+const SAFE_BASH_ARG = /^[A-Za-z0-9_@%+=:,./-]+$/
+// PowerShell also treats "," (array), "@" (splatting) and "#" specially, and "\" is a plain character.
+const SAFE_POWERSHELL_ARG = /^[A-Za-z0-9_%+=:./\\-]+$/
+
+// PowerShell takes the typographic single quotes ‘ ’ ‚ ‛ as quotes too (common in macOS file names).
+const POWERSHELL_QUOTES = /['\u2018\u2019\u201A\u201B]/g
+
+/**
+ * Quotes one argument for a shell. Both shells take single-quoted strings
+ * literally; only the quote itself needs escaping.
+ * @param arg - Argument as ffmpeg should receive it
+ * @param shell - Shell the command is for
+ */
+export function quoteShellArg(arg: string, shell: CommandShell): string {
+  if (shell === "bash") return SAFE_BASH_ARG.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`
+  return SAFE_POWERSHELL_ARG.test(arg) ? arg : `'${arg.replace(POWERSHELL_QUOTES, "$&$&")}'`
+}
+
+/**
+ * Builds the desktop ffmpeg runs equivalent to processing an action in the
+ * browser, with the user's file names in place of the virtual FS paths.
+ * Exact trims are re-encoded whole, since keyframes aren't probed here.
+ * @param config - Validated action
+ * @param files - Names of the input video and the output
+ * @param durationSec - Input duration, for trims and target-size compression
+ * @throws If the settings can't produce a command (e.g. a target size too small)
+ */
+export function buildDesktopCommand(config: ParsedActionConfig, files: DesktopCommandFiles, durationSec?: number): DesktopCommand {
+  const { input, output } = files
+
+  if (config.type === "trim") {
+    const segments = getTrimSegments(config, durationSec)
+    if (segments.length === 0) throw new Error("The selection removes the whole video.")
+    if (config.params.cutMode === "exact") {
+      const steps = buildSmartTrimSteps(planSmartTrim(segments, [], false), input)
+      return {
+        listFiles: [{ name: TRIM_CONCAT_FILE, lines: steps.map((s) => concatEntry(s.output)) }],
+        runs: [...steps.map((s) => s.args), ["-f", "concat", "-safe", "0", "-i", TRIM_CONCAT_FILE, "-c", "copy", output]],
+      }
+    }
+    const listFiles = segments.length > 1
+      ? [{ name: TRIM_CONCAT_FILE, lines: buildTrimConcatList(escapeConcatPath(input), segments).split("\n") }]
+      : []
+    return { listFiles, runs: [buildFFmpegArgs(config, input, output, durationSec)] }
+  }
+
+  if (config.type === "compress" && config.params.mode === "target-size") {
+    return {
+      listFiles: [],
+      runs: [
+        buildTargetSizePassArgs(config, input, output, durationSec, 1),
+        buildTargetSizePassArgs(config, input, output, durationSec, 2),
+      ],
+    }
+  }
+
+  if (config.type === "combine") {
+    return {
+      listFiles: [{ name: COMBINE_CONCAT_FILE, lines: config.params.clips.map((clip) => concatEntry(clip.name)) }],
+      runs: [buildFFmpegArgs(config, input, output, durationSec)],
+    }
+  }
+
+  // Side inputs are read from the user's own files instead of copies in the scratch directory.
+  const sideFiles = new Map<string, string>()
+  if (config.type === "merge") sideFiles.set(MERGE_AUDIO_FILE, config.params.audioFile.name)
+  if (config.type === "overlay") sideFiles.set(OVERLAY_IMAGE_FILE, config.params.overlayFile.name)
+  const args = buildFFmpegArgs(config, input, output, durationSec).map((arg) => sideFiles.get(arg) ?? arg)
+  return { listFiles: [], runs: [args] }
+}
+
+/**
+ * Formats a desktop command as a script to paste into a terminal: one line
+ * per list file and per ffmpeg run.
+ * @param command - Command from buildDesktopCommand
+ * @param shell - Shell to quote for
+ */
+export function formatDesktopCommand(command: DesktopCommand, shell: CommandShell): string {
+  const quote = (arg: string) => quoteShellArg(arg, shell)
+  const lines = command.listFiles.map((file) => shell === "bash"
+    ? `printf '%s\\n' ${file.lines.map(quote).join(" ")} > ${quote(file.name)}`
+    // Windows PowerShell writes the ANSI code page by default; ffmpeg reads lists as UTF-8.
+    : `Set-Content -Path ${quote(file.name)} -Encoding utf8 -Value ${file.lines.map(quote).join(", ")}`)
+  for (const args of command.runs) lines.push(["ffmpeg", ...args.map(quote)].join(" "))
+  return lines.join("\n")
+}
+
+function concatEntry(path: string): string {
+  return `file '${escapeConcatPath(path)}'`
+}
+
+/** Escapes a path for a single-quoted concat list entry. */
+function escapeConcatPath(path: string): string {
+  return path.replace(/'/g, `'\\''`)
+}
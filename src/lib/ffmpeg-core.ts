@@ -0,0 +1,187 @@
+import type { FFMessageLoadConfig } from "@ffmpeg/ffmpeg"
+// Bundled as hashed assets on our own origin; the file names change with their content.
+import stCoreUrl from "@ffmpeg/core?url"
+import stWasmUrl from "@ffmpeg/core/wasm?url"
+import mtCoreUrl from "@ffmpeg/core-mt?url"
+import mtWasmUrl from "@ffmpeg/core-mt/wasm?url"
+import mtWorkerUrl from "@ffmpeg/core-mt/worker?url"
+// Our own FFmpeg class worker, which can read outputs in chunks (see ffmpeg-worker.ts).
+import classWorkerUrl from "./ffmpeg-worker?worker&url"
+import { createLogger } from "./logger"
+
+const log = createLogger("ffmpeg-core")
+
+/** Which ffmpeg.wasm core build the FFmpeg workers run. */
+export type FFmpegCoreType = "multi-thread" | "single-thread"
+
+/** Cache Storage bucket for the core files. Buckets of other core versions are deleted. */
+const CORE_CACHE_PREFIX = "qcut-ffmpeg-core-"
+const CORE_CACHE_NAME = `${CORE_CACHE_PREFIX}${__FFMPEG_CORE_VERSION__}`
+
+const MIME_JAVASCRIPT = "text/javascript"
+const MIME_WASM = "application/wasm"
+
+interface CoreAsset {
+  /** Key into __FFMPEG_CORE_INTEGRITY__. */
+  id: string
+  url: string
+  mimeType: string
+}
+
+const CORE_ASSETS: Record<FFmpegCoreType, { core: CoreAsset; wasm: CoreAsset; worker?: CoreAsset }> = {
+  "single-thread": {
+    core: { id: "core", url: stCoreUrl, mimeType: MIME_JAVASCRIPT },
+    wasm: { id: "wasm", url: stWasmUrl, mimeType: MIME_WASM },
+  },
+  "multi-thread": {
+    core: { id: "mt-core", url: mtCoreUrl, mimeType: MIME_JAVASCRIPT },
+    wasm: { id: "mt-wasm", url: mtWasmUrl, mimeType: MIME_WASM },
+    worker: { id: "mt-worker", url: mtWorkerUrl, mimeType: MIME_JAVASCRIPT },
+  },
+}
+
+/**
+ * The multithreaded core already spreads one encode over every core, so more
+ * than two instances (one encoding, one free for probes) only multiplies its
+ * much larger memory footprint.
+ */
+export const MULTI_THREAD_POOL_SIZE = 2
+
+/**
+ * Most memory one instance's wasm heap can hold. The single-threaded core grows
+ * its heap on demand up to 2 GiB; the multithreaded one shares a fixed 1 GiB
+ * heap between its threads (both are emscripten build settings of the core).
+ */
+const CORE_HEAP_LIMIT_BYTES: Record<FFmpegCoreType, number> = {
+  "single-thread": 2 * 1024 * 1024 * 1024,
+  "multi-thread": 1024 * 1024 * 1024,
+}
+
+// Blob URLs per core, fetched once and shared by every instance.
+const loadConfigs = new Map<FFmpegCoreType, Promise<FFMessageLoadConfig>>()
+let staleCachesCleared: Promise<void> | null = null
+
+/**
+ * Returns true if the page may use the multithreaded core. It needs
+ * SharedArrayBuffer, which browsers only expose to cross-origin isolated pages
+ * (served with COOP: same-origin and COEP: credentialless).
+ */
+export function canUseMultiThreadCore(): boolean {
+  return typeof window !== "undefined" && window.crossOriginIsolated === true && typeof SharedArrayBuffer !== "undefined"
+}
+
+/**
+ * Returns the load config for a core, with every core file as a verified blob
+ * URL. Files come from Cache Storage when present, so only the first visit per
+ * core version downloads them, and the app keeps working offline after that.
+ * The class worker is part of the app build and is precached with it.
+ * @param core - Core build to load
+ */
+export function getCoreLoadConfig(core: FFmpegCoreType): Promise<FFMessageLoadConfig> {
+  let config = loadConfigs.get(core)
+  if (!config) {
+    const assets = CORE_ASSETS[core]
+    config = (async () => {
+      const [coreURL, wasmURL, workerURL] = await Promise.all([
+        loadCoreAsset(assets.core),
+        loadCoreAsset(assets.wasm),
+        assets.worker ? loadCoreAsset(assets.worker) : undefined,
+      ])
+      log.debug("Core files ready (%s, %s)", core, __FFMPEG_CORE_VERSION__)
+      return { coreURL, wasmURL, workerURL, classWorkerURL: classWorkerUrl }
+    })()
+    // Let a later load retry the download.
+    config.catch(() => loadConfigs.delete(core))
+    loadConfigs.set(core, config)
+  }
+  return config
+}
+
+/**
+ * Short label for the core, for display.
+ * @param core - Core type
+ */
+export function describeFFmpegCore(core: FFmpegCoreType): string {
+  return core === "multi-thread" ? "Multithreaded engine" : "Single-threaded engine"
+}
+
+/**
+ * Returns the most memory an instance of the given core can use, files in its
+ * FS included (MEMFS lives in the same heap).
+ * @param core - Core type
+ */
+export function getCoreHeapLimitBytes(core: FFmpegCoreType): number {
+  return CORE_HEAP_LIMIT_BYTES[core]
+}
+
+/**
+ * Returns a blob URL for one core file: cache-first, otherwise downloaded.
+ * Either way the bytes are checked against the build-time hash before use,
+ * and only verified downloads are cached.
+ */
+async function loadCoreAsset(asset: CoreAsset): Promise<string> {
+  const expected = __FFMPEG_CORE_INTEGRITY__[asset.id]
+  const cache = await openCoreCache()
+
+  const cached = await cache?.match(asset.url)
+  if (cached) {
+    const bytes = await cached.arrayBuffer()
+    if (await matchesIntegrity(bytes, expected)) {
+      return URL.createObjectURL(new Blob([bytes], { type: asset.mimeType }))
+    }
+    log.warn("Cached %s failed its integrity check, downloading it again", asset.id)
+    await cache!.delete(asset.url)
+  }
+
+  // One copy of the bytes is hashed, cached and turned into the blob URL.
+  const bytes = await (await fetch(asset.url)).arrayBuffer()
+  if (!(await matchesIntegrity(bytes, expected))) {
+    throw new Error(`FFmpeg core file ${asset.id} failed its integrity check.`)
+  }
+
+  try {
+    await cache?.put(asset.url, new Response(bytes, { headers: { "Content-Type": asset.mimeType } }))
+  } catch (err) {
+    // e.g. over quota; the core still loads, it just isn't kept for next time.
+    log.warn("Could not cache %s: %o", asset.id, err)
+  }
+  return URL.createObjectURL(new Blob([bytes], { type: asset.mimeType }))
+}
+
+/**
+ * Opens this version's cache, deleting caches of older core versions the first
+ * time. Returns null where Cache Storage isn't available (e.g. insecure origins).
+ */
+async function openCoreCache(): Promise<Cache | null> {
+  if (typeof caches === "undefined") return null
+  try {
+    staleCachesCleared ??= (async () => {
+      for (const name of await caches.keys()) {
+        if (name.startsWith(CORE_CACHE_PREFIX) && name !== CORE_CACHE_NAME) {
+          log.info("Deleting cached FFmpeg core %s", name)
+          await caches.delete(name)
+        }
+      }
+    })().catch((err) => log.warn("Clearing old core caches failed: %o", err))
+    await staleCachesCleared
+    return await caches.open(CORE_CACHE_NAME)
+  } catch (err) {
+    log.warn("Cache Storage unavailable, core files won't be cached: %o", err)
+    return null
+  }
+}
+
+/**
+ * Checks bytes against a Subresource Integrity string ("sha384-<base64>").
+ * @param bytes - File contents
+ * @param integrity - Expected hash, computed from the package at build time
+ */
+async function matchesIntegrity(bytes: ArrayBuffer, integrity: string | undefined): Promise<boolean> {
+  if (!integrity) return false
+  const [algorithm, expected] = integrity.split("-", 2)
+  if (algorithm !== "sha384") return false
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-384", bytes))
+  let binary = ""
+  for (const byte of digest) binary += String.fromCharCode(byte)
+  return btoa(binary) === expected
+}
@@ -0,0 +1,109 @@
+import type { FFmpeg, FFFSType } from "@ffmpeg/ffmpeg"
+import { ensureVideoSource } from "../store"
+import { createLogger } from "./logger"
+
+const log = createLogger("ffmpeg-input")
+
+// "WORKERFS" as a plain value so this module doesn't pull the ffmpeg package into the main chunk.
+const WORKERFS = "WORKERFS" as FFFSType
+
+let mountCounter = 0
+
+export interface InputEntry {
+  /** File name FFmpeg sees. Keep it shell- and concat-list-safe (no quotes). */
+  name: string
+  data: Blob
+}
+
+export interface MountedInputs {
+  /** FFmpeg FS path for each entry, in the order given. */
+  paths: string[]
+  /** Unmounts (or deletes) the inputs. Safe to call more than once. */
+  release: () => Promise<void>
+}
+
+/**
+ * Makes files readable by FFmpeg without copying them into its in-memory FS.
+ *
+ * The blobs are mounted through WORKERFS, which reads slices on demand from the
+ * worker, so a multi-GB recording is never held in memory as a whole. If the
+ * mount fails (e.g. a core built without WORKERFS), the data is written into
+ * MEMFS instead, which only works for files that fit in memory.
+ * @param ffmpeg - Loaded FFmpeg instance
+ * @param entries - Files to expose; names must be unique
+ * @returns The paths to pass to FFmpeg and a release function
+ */
+export async function mountInputs(ffmpeg: FFmpeg, entries: readonly InputEntry[]): Promise<MountedInputs> {
+  const mountPoint = `/input_${++mountCounter}`
+  let isReleased = false
+
+  try {
+    await ffmpeg.createDir(mountPoint)
+    await ffmpeg.mount(WORKERFS, { blobs: entries.map((e) => ({ name: e.name, data: e.data })) }, mountPoint)
+    log.debug("Mounted %d input(s) at %s", entries.length, mountPoint)
+    return {
+      paths: entries.map((e) => `${mountPoint}/${e.name}`),
+      release: async () => {
+        if (isReleased) return
+        isReleased = true
+        try {
+          await ffmpeg.unmount(mountPoint)
+          await ffmpeg.deleteDir(mountPoint)
+        } catch {
+          // Ignore cleanup errors
+        }
+      },
+    }
+  } catch (err) {
+    log.warn("WORKERFS mount failed, copying inputs into memory: %o", err)
+    try {
+      await ffmpeg.deleteDir(mountPoint)
+    } catch {
+      // The directory may not have been created
+    }
+  }
+
+  const paths: string[] = []
+  try {
+    for (const entry of entries) {
+      const path = `${mountPoint}_${entry.name}`
+      await ffmpeg.writeFile(path, new Uint8Array(await entry.data.arrayBuffer()))
+      paths.push(path)
+    }
+  } catch (err) {
+    await deleteFiles(ffmpeg, paths)
+    throw err
+  }
+  return {
+    paths,
+    release: async () => {
+      if (isReleased) return
+      isReleased = true
+      await deleteFiles(ffmpeg, paths)
+    },
+  }
+}
+
+/**
+ * Mounts the loaded video's stable copy (see ensureVideoSource) as FFmpeg input.
+ * @param ffmpeg - Loaded FFmpeg instance
+ * @param name - File name FFmpeg sees
+ * @returns The input path and a release function
+ */
+export async function mountVideoSource(
+  ffmpeg: FFmpeg,
+  name = "input.mp4"
+): Promise<{ path: string; release: () => Promise<void> }> {
+  const mounted = await mountInputs(ffmpeg, [{ name, data: await ensureVideoSource() }])
+  return { path: mounted.paths[0], release: mounted.release }
+}
+
+async function deleteFiles(ffmpeg: FFmpeg, paths: readonly string[]): Promise<void> {
+  for (const path of paths) {
+    try {
+      await ffmpeg.deleteFile(path)
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { loadFFmpeg } from "../store"
+import { getState, loadFFmpeg } from "../store"
 import { createLogger } from "./logger"
 
 const log = createLogger("ffmpeg-loader")
@@ -7,6 +7,6 @@ const log = createLogger("ffmpeg-loader")
 export function preloadFFmpeg(): void {
   log.info("Initiating FFmpeg preload")
   loadFFmpeg()
-    .then(() => log.info("FFmpeg preload complete"))
+    .then(() => log.info("FFmpeg preload complete (%s core)", getState().ffmpegCore))
     .catch((err) => log.error("FFmpeg preload failed:", err))
 }
@@ -0,0 +1,66 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import type { OutputSink } from "./output-storage"
+
+/**
+ * readFile encoding that asks our FFmpeg worker (see ffmpeg-worker.ts) for a
+ * byte range instead of the whole file: "range:<start>:<end>".
+ */
+const RANGE_ENCODING_PREFIX = "range:"
+
+/** Bytes moved out of the worker per message. */
+const READ_CHUNK_BYTES = 8 * 1024 * 1024
+
+/** A byte range of a file, end exclusive. */
+export interface ReadRange {
+  start: number
+  end: number
+}
+
+/**
+ * Encodes a byte range as a readFile encoding.
+ * @param range - Bytes to read; the read stops early at the end of the file
+ */
+export function encodeReadRange(range: ReadRange): string {
+  return `${RANGE_ENCODING_PREFIX}${range.start}:${range.end}`
+}
+
+/**
+ * Decodes a readFile encoding made by encodeReadRange.
+ * @param encoding - Encoding passed to readFile
+ * @returns The range, or null for ordinary encodings ("binary", "utf8")
+ */
+export function parseReadRange(encoding: string | undefined): ReadRange | null {
+  if (!encoding?.startsWith(RANGE_ENCODING_PREFIX)) return null
+  const [start, end] = encoding.slice(RANGE_ENCODING_PREFIX.length).split(":").map(Number)
+  if (!Number.isSafeInteger(start) || !Number.isSafeInteger(end) || start < 0 || end < start) return null
+  return { start, end }
+}
+
+/**
+ * Copies a file from the FFmpeg FS into an output sink a chunk at a time, so
+ * at most one chunk of it is in the page's memory at once. The sink isn't
+ * finished; the caller does that (or aborts it).
+ * @param ffmpeg - Instance whose FS holds the file
+ * @param path - File to copy
+ * @param sink - Where to write it (see createOutputSink)
+ * @param signal - Aborting stops the copy between chunks
+ * @returns Number of bytes copied
+ */
+export async function copyFFmpegFile(ffmpeg: FFmpeg, path: string, sink: OutputSink, signal?: AbortSignal): Promise<number> {
+  const writer = sink.writable.getWriter()
+  let position = 0
+  try {
+    for (;;) {
+      signal?.throwIfAborted()
+      const data = await ffmpeg.readFile(path, encodeReadRange({ start: position, end: position + READ_CHUNK_BYTES }))
+      if (!(data instanceof Uint8Array)) throw new Error(`Reading ${path} returned text instead of bytes.`)
+      if (data.byteLength > 0) await writer.write({ type: "write", data, position })
+      position += data.byteLength
+      if (data.byteLength < READ_CHUNK_BYTES) break
+    }
+    await writer.close()
+    return position
+  } finally {
+    writer.releaseLock()
+  }
+}
@@ -0,0 +1,249 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import { createLogger } from "./logger"
+
+const log = createLogger("ffmpeg-pool")
+
+/** Job classes, in scheduling order: probes run before previews, previews before encodes. */
+export type FFmpegJobPriority = "probe" | "preview" | "encode"
+
+const PRIORITY_RANK: Record<FFmpegJobPriority, number> = { probe: 0, preview: 1, encode: 2 }
+
+/** Each instance has its own wasm heap, so beyond this more workers mostly add memory pressure. */
+const MAX_POOL_SIZE = 4
+
+export interface FFmpegJobStatus {
+  id: number
+  /** Short description for logs and UI, e.g. "compress" or "keyframes". */
+  label: string
+  priority: FFmpegJobPriority
+  state: "queued" | "running"
+  queuedAtMs: number
+  startedAtMs: number | null
+}
+
+export interface FFmpegJobOptions {
+  label: string
+  priority: FFmpegJobPriority
+  /** Aborting cancels the job: dequeued if waiting, its worker terminated if running. */
+  signal?: AbortSignal
+}
+
+interface PoolJob {
+  status: FFmpegJobStatus
+  run: (ffmpeg: FFmpeg) => Promise<unknown>
+  resolve: (value: unknown) => void
+  reject: (err: unknown) => void
+  cleanup: () => void
+}
+
+/**
+ * Returns the number of FFmpeg workers to run side by side: one per spare core,
+ * leaving one for the page, capped at MAX_POOL_SIZE.
+ */
+export function getDefaultPoolSize(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1))
+}
+
+/**
+ * Error a job rejects with when it was cancelled.
+ * @param label - Job label, for the message
+ */
+function createCancelledError(label: string): DOMException {
+  return new DOMException(`FFmpeg job "${label}" was cancelled.`, "AbortError")
+}
+
+/**
+ * Returns true if the error means the job was cancelled rather than failed.
+ * @param err - Error a job rejected with
+ */
+export function isJobCancelled(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError"
+}
+
+/**
+ * Creates a scheduler that runs FFmpeg jobs on a pool of worker instances.
+ *
+ * A job gets one instance to itself for its whole run, so files it writes to
+ * the FFmpeg FS can't collide with other jobs. Instances are created lazily up
+ * to maxWorkers and reused between jobs. Waiting jobs start in priority order
+ * (FIFO within a priority). Cancelling a running job terminates only its own
+ * instance (a running exec can't be interrupted otherwise), which takes that
+ * job's FS files with it; a replacement starts loading in the background right
+ * away, so the next job doesn't pay for a cold start.
+ * @param options.maxWorkers - Maximum number of instances
+ * @param options.createInstance - Creates and loads one FFmpeg instance
+ * @param options.onJobsChange - Called with the queued and running jobs whenever they change
+ * @returns Object with run, cancel, warmUp and status helpers
+ */
+export function createFFmpegPool(options: {
+  maxWorkers: number
+  createInstance: () => Promise<FFmpeg>
+  onJobsChange: (jobs: readonly FFmpegJobStatus[]) => void
+}): {
+  run: <T>(jobOptions: FFmpegJobOptions, fn: (ffmpeg: FFmpeg) => Promise<T>) => Promise<T>
+  cancel: (id: number) => void
+  cancelAll: (priority?: FFmpegJobPriority) => void
+  warmUp: () => Promise<void>
+  getJobs: () => readonly FFmpegJobStatus[]
+} {
+  const idle: FFmpeg[] = []
+  const queue: PoolJob[] = []
+  const running = new Map<number, { job: PoolJob; ffmpeg: FFmpeg }>()
+  let loadingCount = 0
+  let nextId = 1
+  // The first instance's load, shared by warmUp callers.
+  let firstLoad: Promise<void> | null = null
+
+  function getJobs(): FFmpegJobStatus[] {
+    return [...[...running.values()].map((r) => r.job.status), ...queue.map((j) => j.status)]
+  }
+
+  function notify(): void {
+    options.onJobsChange(getJobs())
+  }
+
+  function workerCount(): number {
+    return idle.length + running.size + loadingCount
+  }
+
+  function spawn(): Promise<void> {
+    loadingCount++
+    return options.createInstance().then(
+      (ffmpeg) => {
+        loadingCount--
+        idle.push(ffmpeg)
+        log.debug("Worker ready (%d total)", workerCount())
+        schedule()
+      },
+      (err) => {
+        loadingCount--
+        log.error("Failed to start FFmpeg worker: %o", err)
+        // With no worker at all, waiting jobs would never start.
+        if (workerCount() === 0) {
+          for (const job of queue.splice(0)) {
+            job.cleanup()
+            job.reject(err)
+          }
+          notify()
+        }
+        throw err
+      }
+    )
+  }
+
+  /** Removes and returns the highest-priority waiting job. */
+  function takeNext(): PoolJob | undefined {
+    let best = 0
+    for (let i = 1; i < queue.length; i++) {
+      if (PRIORITY_RANK[queue[i].status.priority] < PRIORITY_RANK[queue[best].status.priority]) best = i
+    }
+    return queue.splice(best, 1)[0]
+  }
+
+  function schedule(): void {
+    while (queue.length > 0 && idle.length > 0) {
+      start(takeNext()!, idle.pop()!)
+    }
+    // Start more instances for jobs still waiting, counting ones already loading.
+    const missing = Math.min(queue.length - loadingCount, options.maxWorkers - workerCount())
+    for (let i = 0; i < missing; i++) spawn().catch(() => {})
+  }
+
+  function start(job: PoolJob, ffmpeg: FFmpeg): void {
+    job.status.state = "running"
+    job.status.startedAtMs = performance.now()
+    running.set(job.status.id, { job, ffmpeg })
+    log.debug("Starting job %d (%s, %s)", job.status.id, job.status.label, job.status.priority)
+    notify()
+
+    job.run(ffmpeg).then(job.resolve, job.reject).finally(() => {
+      // A cancelled job was already settled and its instance terminated.
+      if (running.get(job.status.id)?.job !== job) return
+      running.delete(job.status.id)
+      job.cleanup()
+      idle.push(ffmpeg)
+      notify()
+      schedule()
+    })
+  }
+
+  function cancel(id: number): void {
+    const queuedIndex = queue.findIndex((j) => j.status.id === id)
+    if (queuedIndex !== -1) {
+      const [job] = queue.splice(queuedIndex, 1)
+      job.cleanup()
+      job.reject(createCancelledError(job.status.label))
+      notify()
+      return
+    }
+
+    const entry = running.get(id)
+    if (!entry) return
+    log.info("Cancelling running job %d (%s)", id, entry.job.status.label)
+    running.delete(id)
+    entry.job.cleanup()
+    try {
+      entry.ffmpeg.terminate()
+    } catch (err) {
+      log.warn("Error terminating FFmpeg worker: %o", err)
+    }
+    entry.job.reject(createCancelledError(entry.job.status.label))
+    notify()
+    log.debug("Respawning cancelled job's worker")
+    spawn().catch(() => {})
+    schedule()
+  }
+
+  return {
+    /**
+     * Queues a job and resolves with its result once it has run.
+     * @param jobOptions - Label, priority and optional abort signal
+     * @param fn - Work to do with the job's FFmpeg instance
+     */
+    run<T>(jobOptions: FFmpegJobOptions, fn: (ffmpeg: FFmpeg) => Promise<T>): Promise<T> {
+      const { label, priority, signal } = jobOptions
+      if (signal?.aborted) return Promise.reject(createCancelledError(label))
+
+      return new Promise<T>((resolve, reject) => {
+        const id = nextId++
+        const onAbort = () => cancel(id)
+        signal?.addEventListener("abort", onAbort, { once: true })
+        queue.push({
+          status: { id, label, priority, state: "queued", queuedAtMs: performance.now(), startedAtMs: null },
+          run: fn,
+          resolve: resolve as (value: unknown) => void,
+          reject,
+          cleanup: () => signal?.removeEventListener("abort", onAbort),
+        })
+        notify()
+        schedule()
+      })
+    },
+
+    cancel,
+
+    /**
+     * Cancels every queued and running job, or only those of one priority.
+     * @param priority - Limit to this priority
+     */
+    cancelAll(priority?: FFmpegJobPriority): void {
+      const ids = getJobs().filter((j) => !priority || j.priority === priority).map((j) => j.id)
+      ids.forEach(cancel)
+    },
+
+    /** Loads the first instance if none exists yet, so the first job starts quickly. */
+    warmUp(): Promise<void> {
+      if (workerCount() > 0 && !firstLoad) return Promise.resolve()
+      if (!firstLoad) {
+        firstLoad = spawn().catch((err) => {
+          firstLoad = null
+          throw err
+        })
+      }
+      return firstLoad
+    },
+
+    getJobs,
+  }
+}
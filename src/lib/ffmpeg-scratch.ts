@@ -0,0 +1,66 @@
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
+import { createLogger } from "./logger"
+
+const log = createLogger("ffmpeg-scratch")
+
+let scratchCounter = 0
+
+export interface ScratchDir {
+  /** Absolute path of the directory in the FFmpeg FS. */
+  dir: string
+  /**
+   * Returns the path of a file inside the directory.
+   * @param name - File name (or printf pattern, e.g. "frame_%04d.png")
+   */
+  path: (name: string) => string
+  /** Deletes the directory and everything in it. Safe to call more than once. */
+  release: () => Promise<void>
+}
+
+/**
+ * Creates a directory in the FFmpeg FS for one job's working files: side
+ * inputs, concat lists, pass logs, intermediates and outputs. MEMFS lives in
+ * the worker's wasm heap, so anything a job leaves behind stays in memory for
+ * the next job on that instance; releasing the directory removes all of it,
+ * including files the job never knew it wrote.
+ * @param ffmpeg - Loaded FFmpeg instance
+ * @param label - Short job description, used in the directory name
+ * @returns The directory and its release function
+ */
+export async function createScratchDir(ffmpeg: FFmpeg, label: string): Promise<ScratchDir> {
+  const dir = `/job_${++scratchCounter}_${label.replace(/[^a-z0-9]+/gi, "_")}`
+  await ffmpeg.createDir(dir)
+  let isReleased = false
+
+  return {
+    dir,
+    path: (name) => `${dir}/${name}`,
+    release: async () => {
+      if (isReleased) return
+      isReleased = true
+      try {
+        await removeDir(ffmpeg, dir)
+      } catch (err) {
+        // A terminated instance (cancelled job) has no FS left to clean.
+        log.debug("Could not remove %s: %o", dir, err)
+      }
+    },
+  }
+}
+
+/** Deletes a directory in the FFmpeg FS with everything below it. */
+async function removeDir(ffmpeg: FFmpeg, dir: string): Promise<void> {
+  let removedCount = 0
+  for (const node of await ffmpeg.listDir(dir)) {
+    if (node.name === "." || node.name === "..") continue
+    const path = `${dir}/${node.name}`
+    if (node.isDir) {
+      await removeDir(ffmpeg, path)
+    } else {
+      await ffmpeg.deleteFile(path)
+      removedCount++
+    }
+  }
+  await ffmpeg.deleteDir(dir)
+  log.debug("Removed %s (%d file(s))", dir, removedCount)
+}
@@ -0,0 +1,139 @@
+/**
+ * The FFmpeg class's worker (passed as classWorkerURL, see getCoreLoadConfig).
+ * It speaks the same message protocol as @ffmpeg/ffmpeg's own worker, and
+ * also reads files in byte ranges (see encodeReadRange), so outputs can be
+ * moved out of MEMFS a chunk at a time instead of in one copy.
+ */
+import type {
+  FFMessage,
+  FFMessageLoadConfig,
+  FFMessageExecData,
+  FFMessageWriteFileData,
+  FFMessageReadFileData,
+  FFMessageRenameData,
+  FFMessageMountData,
+  FFMessageUnmountData,
+  FSNode,
+} from "@ffmpeg/ffmpeg"
+import { parseReadRange } from "./ffmpeg-output"
+
+/** The parts of the emscripten FS the protocol uses. */
+interface CoreFS {
+  readFile: (path: string, options?: { encoding?: string }) => Uint8Array | string
+  writeFile: (path: string, data: Uint8Array | string) => void
+  unlink: (path: string) => void
+  rename: (oldPath: string, newPath: string) => void
+  mkdir: (path: string) => void
+  rmdir: (path: string) => void
+  readdir: (path: string) => string[]
+  stat: (path: string) => { mode: number }
+  isDir: (mode: number) => boolean
+  open: (path: string, flags: string) => unknown
+  read: (stream: unknown, buffer: Uint8Array, offset: number, length: number, position: number) => number
+  close: (stream: unknown) => void
+  filesystems: Record<string, unknown>
+  mount: (type: unknown, options: unknown, mountPoint: string) => void
+  unmount: (mountPoint: string) => void
+}
+
+interface CoreModule {
+  FS: CoreFS
+  ret: number
+  exec: (...args: string[]) => void
+  ffprobe: (...args: string[]) => void
+  reset: () => void
+  setTimeout: (timeout: number) => void
+  setLogger: (logger: (data: unknown) => void) => void
+  setProgress: (handler: (data: unknown) => void) => void
+}
+
+type CreateCore = (options: { mainScriptUrlOrBlob: string }) => Promise<CoreModule>
+
+// The page's lib is DOM, not WebWorker; this is all of the worker scope used here.
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<FFMessage>) => void) | null
+  postMessage: (message: unknown, transfer?: Transferable[]) => void
+}
+
+let core: CoreModule | null = null
+
+async function load({ coreURL, wasmURL, workerURL }: FFMessageLoadConfig): Promise<boolean> {
+  if (!coreURL || !wasmURL) throw new Error("The core and wasm URLs are required.")
+  const isFirst = !core
+  const createCore = ((await import(/* @vite-ignore */ coreURL)) as { default: CreateCore }).default
+  // The core finds its wasm and thread worker through this hash, as with the stock worker.
+  core = await createCore({
+    mainScriptUrlOrBlob: `${coreURL}#${btoa(JSON.stringify({ wasmURL, workerURL }))}`,
+  })
+  core.setLogger((data) => scope.postMessage({ type: "LOG", data }))
+  core.setProgress((data) => scope.postMessage({ type: "PROGRESS", data }))
+  return isFirst
+}
+
+function run(module: CoreModule, command: "exec" | "ffprobe", { args, timeout = -1 }: FFMessageExecData): number {
+  module.setTimeout(timeout)
+  module[command](...args)
+  const ret = module.ret
+  module.reset()
+  return ret
+}
+
+/** Reads a file, or only a byte range of it (shorter at the end of the file). */
+function readFile(FS: CoreFS, { path, encoding }: FFMessageReadFileData): Uint8Array | string {
+  const range = parseReadRange(encoding)
+  if (!range) return FS.readFile(path, { encoding })
+
+  const buffer = new Uint8Array(range.end - range.start)
+  const stream = FS.open(path, "r")
+  try {
+    const bytesRead = FS.read(stream, buffer, 0, buffer.byteLength, range.start)
+    return bytesRead < buffer.byteLength ? buffer.slice(0, bytesRead) : buffer
+  } finally {
+    FS.close(stream)
+  }
+}
+
+function listDir(FS: CoreFS, path: string): FSNode[] {
+  return FS.readdir(path).map((name) => ({ name, isDir: FS.isDir(FS.stat(`${path}/${name}`).mode) }))
+}
+
+function mount(FS: CoreFS, { fsType, options, mountPoint }: FFMessageMountData): boolean {
+  const fs = FS.filesystems[fsType]
+  if (!fs) return false
+  FS.mount(fs, options, mountPoint)
+  return true
+}
+
+async function handle({ type, data }: FFMessage): Promise<unknown> {
+  if (type === "LOAD") return load(data as FFMessageLoadConfig)
+  if (!core) throw new Error("ffmpeg is not loaded, call `await ffmpeg.load()` first")
+  const { FS } = core
+  // Every message but LOAD carries a path or paths; the type says which shape.
+  const path = (data as { path: string }).path
+  switch (type) {
+    case "EXEC": return run(core, "exec", data as FFMessageExecData)
+    case "FFPROBE": return run(core, "ffprobe", data as FFMessageExecData)
+    case "WRITE_FILE": FS.writeFile(path, (data as FFMessageWriteFileData).data); return true
+    case "READ_FILE": return readFile(FS, data as FFMessageReadFileData)
+    case "DELETE_FILE": FS.unlink(path); return true
+    case "RENAME": FS.rename((data as FFMessageRenameData).oldPath, (data as FFMessageRenameData).newPath); return true
+    case "CREATE_DIR": FS.mkdir(path); return true
+    case "LIST_DIR": return listDir(FS, path)
+    case "DELETE_DIR": FS.rmdir(path); return true
+    case "MOUNT": return mount(FS, data as FFMessageMountData)
+    case "UNMOUNT": FS.unmount((data as FFMessageUnmountData).mountPoint); return true
+    default: throw new Error("unknown message type")
+  }
+}
+
+scope.onmessage = async ({ data: request }) => {
+  let result: unknown
+  try {
+    result = await handle(request)
+  } catch (err) {
+    scope.postMessage({ id: request.id, type: "ERROR", data: String(err) })
+    return
+  }
+  // Hand buffers over instead of copying them.
+  scope.postMessage({ id: request.id, type: request.type, data: result }, result instanceof Uint8Array ? [result.buffer] : [])
+}
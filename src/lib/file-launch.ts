@@ -0,0 +1,41 @@
+import { setVideoData, ensureVideoSource } from "../store"
+import { getCurrentPath, navigate, refreshRoute } from "../router"
+import { loadVideoMetadata } from "./video-metadata"
+import { prefetchMediaProbe } from "./media-probe"
+import { rememberVideoFileHandle } from "./session"
+import { trackVideoImport, trackVideoImportError } from "./analytics"
+import { createLogger } from "./logger"
+
+const log = createLogger("file-launch")
+
+/**
+ * Opens videos the OS hands to the installed app (file_handlers in
+ * manifest.json): the first file is loaded and the actions page shown.
+ * No-op in browsers without the Launch Handler API.
+ */
+export function initFileLaunchHandler(): void {
+  if (!window.launchQueue) return
+
+  window.launchQueue.setConsumer(async (params) => {
+    const handle = params.files.find((h): h is FileSystemFileHandle => h.kind === "file")
+    if (!handle) return
+
+    try {
+      const file = await handle.getFile()
+      log.info("Opened from the OS: %s", file.name)
+      const data = await loadVideoMetadata(file)
+      trackVideoImport(file.name, file.size / (1024 * 1024))
+      setVideoData(data)
+      rememberVideoFileHandle(file, handle)
+      ensureVideoSource().catch(() => {})
+      prefetchMediaProbe()
+    } catch (err) {
+      log.error("Failed to open launched file: %o", err)
+      trackVideoImportError((err as Error).message)
+    }
+
+    // The file handler's action is /actions, which may already show its upload prompt.
+    if (getCurrentPath() === "/actions") await refreshRoute()
+    else await navigate("/actions")
+  })
+}
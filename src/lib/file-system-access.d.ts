@@ -0,0 +1,48 @@
+/**
+ * File System Access / OPFS / Launch Handler members missing from the TypeScript 5.0 DOM lib.
+ * Merged into the global interfaces; feature-detect before use.
+ */
+
+interface FileSystemWritableFileStream extends WritableStream<BufferSource | Blob | string> {
+  write(data: BufferSource | Blob | string): Promise<void>
+  truncate(size: number): Promise<void>
+  seek(position: number): Promise<void>
+}
+
+interface FileSystemFileHandle {
+  createWritable(options?: { keepExistingData?: boolean }): Promise<FileSystemWritableFileStream>
+}
+
+interface FileSystemHandlePermissionDescriptor {
+  mode?: "read" | "readwrite"
+}
+
+interface FileSystemHandle {
+  queryPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>
+  requestPermission(descriptor?: FileSystemHandlePermissionDescriptor): Promise<PermissionState>
+}
+
+interface FileSystemDirectoryHandle {
+  keys(): AsyncIterableIterator<string>
+}
+
+interface SaveFilePickerOptions {
+  suggestedName?: string
+  types?: Array<{ description?: string; accept: Record<string, string[]> }>
+  excludeAcceptAllOption?: boolean
+}
+
+interface LaunchParams {
+  readonly targetURL?: string
+  /** Files the OS opened the installed app with (manifest file_handlers). */
+  readonly files: readonly FileSystemHandle[]
+}
+
+interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void
+}
+
+interface Window {
+  showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>
+  launchQueue?: LaunchQueue
+}
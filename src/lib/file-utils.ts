@@ -1,15 +1,14 @@
-const FOUR_GB_BYTES = 4 * 1024 * 1024 * 1024
 const TWO_GB_BYTES = 2 * 1024 * 1024 * 1024
 
 /**
  * Validates file size and returns the appropriate warning type.
+ * Inputs are streamed from disk (see ensureVideoSource), so there is no upper
+ * limit on what can be read. Outputs are still assembled in memory, though, so
+ * above 2GB we warn that size-preserving operations may fail.
  * @param fileSizeBytes - File size in bytes
- * @returns 'error' for >4GB, 'warning' for 2-4GB, null if no issue
+ * @returns 'warning' for >2GB, null if no issue
  */
-export function getFileSizeWarningType(fileSizeBytes: number): "error" | "warning" | null {
-  if (fileSizeBytes > FOUR_GB_BYTES) {
-    return "error"
-  }
+export function getFileSizeWarningType(fileSizeBytes: number): "warning" | null {
   if (fileSizeBytes > TWO_GB_BYTES) {
     return "warning"
   }
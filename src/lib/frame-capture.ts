@@ -0,0 +1,82 @@
+import { createLogger } from "./logger"
+
+const log = createLogger("frame-capture")
+
+/**
+ * Captures one frame of a video with a <video> element and a canvas, without
+ * FFmpeg. Near instant, since the browser seeks and decodes natively.
+ * @param file - Video to read
+ * @param timestampSec - Time of the frame; clamped to the video's duration
+ * @param mimeType - Image type to encode, e.g. "image/png"
+ * @param signal - Aborting stops the capture
+ * @returns The encoded frame
+ * @throws DOMException "AbortError" once the signal is aborted
+ */
+export async function captureVideoFrame(file: Blob, timestampSec: number, mimeType: string, signal: AbortSignal): Promise<Blob> {
+  log.info("Starting single frame extraction")
+  const objectUrl = URL.createObjectURL(file)
+  const video = document.createElement("video")
+  try {
+    video.preload = "auto"
+    video.muted = true
+    video.src = objectUrl
+
+    await untilAborted(signal, new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error("Timeout waiting for video metadata.")), 30000)
+      video.addEventListener("loadedmetadata", () => { clearTimeout(timeout); resolve() }, { once: true })
+      video.addEventListener("error", () => { clearTimeout(timeout); reject(new Error("Failed to load video.")) }, { once: true })
+    }))
+
+    const targetTime = Math.min(timestampSec, Math.max(0, video.duration || timestampSec))
+    await untilAborted(signal, new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error("Timeout seeking to frame.")), 60000)
+      video.addEventListener("seeked", () => {
+        clearTimeout(timeout)
+        const fallback = setTimeout(() => resolve(), 500)
+        if ("requestVideoFrameCallback" in video) {
+          video.requestVideoFrameCallback(() => { clearTimeout(fallback); resolve() })
+        } else {
+          clearTimeout(fallback)
+          resolve()
+        }
+      }, { once: true })
+      video.addEventListener("error", () => { clearTimeout(timeout); reject(new Error("Failed to seek.")) }, { once: true })
+      video.currentTime = targetTime
+    }))
+
+    const canvas = document.createElement("canvas")
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    const ctx = canvas.getContext("2d")
+    if (!ctx) throw new Error("Unable to render frame.")
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+
+    return await untilAborted(signal, new Promise<Blob>((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error("Timeout encoding frame.")), 30000)
+      canvas.toBlob((result) => {
+        clearTimeout(timeout)
+        if (!result) { reject(new Error("Failed to encode frame.")); return }
+        resolve(result)
+      }, mimeType)
+    }))
+  } finally {
+    // Stops any pending load or seek, so a cancelled capture lets go of the file.
+    video.removeAttribute("src")
+    video.load()
+    URL.revokeObjectURL(objectUrl)
+  }
+}
+
+/**
+ * Settles like the promise, or rejects with the signal's AbortError as soon as
+ * it's aborted. For waits (video events, canvas encodes) that can't be cancelled
+ * themselves.
+ */
+function untilAborted<T>(signal: AbortSignal, promise: Promise<T>): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason)
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener("abort", onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort))
+  })
+}
@@ -22,11 +22,13 @@ export interface GifProgress {
  * because it avoids ffmpeg's WASM loading overhead.
  *
  * Uses a global palette for all frames to improve encoding speed.
+ * @throws DOMException "AbortError" once the signal is aborted (checked between frames)
  */
 export async function createGifWithGifenc(
   file: File,
   config: GifConfig,
-  onProgress?: (progress: GifProgress) => void
+  onProgress?: (progress: GifProgress) => void,
+  signal?: AbortSignal
 ): Promise<Blob> {
   const { startSec, endSec, fps, width } = config
   const durationSec = endSec - startSec
@@ -57,6 +59,10 @@ export async function createGifWithGifenc(
         clearTimeout(timeout)
         reject(new Error("Failed to load video for GIF creation"))
       }, { once: true })
+      signal?.addEventListener("abort", () => {
+        clearTimeout(timeout)
+        reject(signal.reason)
+      }, { once: true })
     })
 
     // Calculate dimensions maintaining aspect ratio
@@ -77,6 +83,7 @@ export async function createGifWithGifenc(
     // Extract frames
     const frames: ImageData[] = []
     for (let i = 0; i < frameCount; i++) {
+      signal?.throwIfAborted()
       const targetTime = startSec + (i / fps)
 
       onProgress?.({
@@ -120,6 +127,7 @@ export async function createGifWithGifenc(
 
     // Encode frames
     for (let i = 0; i < frames.length; i++) {
+      signal?.throwIfAborted()
       onProgress?.({
         phase: "encoding",
         current: i + 1,
@@ -137,6 +145,7 @@ export async function createGifWithGifenc(
       log.debug("Encoded frame %d/%d", i + 1, frames.length)
     }
 
+    signal?.throwIfAborted()
     gif.finish()
 
     const bytes = gif.bytes()
@@ -146,6 +155,9 @@ export async function createGifWithGifenc(
 
     return blob
   } finally {
+    // Stops any pending load or seek, so a cancelled run lets go of the file.
+    video.removeAttribute("src")
+    video.load()
     URL.revokeObjectURL(objectUrl)
   }
 }
@@ -5,8 +5,11 @@ import {
   ArrowLeft,
   ArrowRight,
   CheckCircle2,
+  Copy,
+  Cpu,
   Download,
   ExternalLink,
+  FileText,
   FileOutput,
   Film,
   FlipHorizontal,
@@ -16,6 +19,7 @@ import {
   GripVertical,
   Image,
   ImagePlus,
+  Info,
   Layers,
   Lightbulb,
   Loader2,
@@ -50,8 +54,11 @@ const iconRegistry: Record<string, IconNode> = {
   ArrowLeft,
   ArrowRight,
   CheckCircle2,
+  Copy,
+  Cpu,
   Download,
   ExternalLink,
+  FileText,
   FileOutput,
   Film,
   FlipHorizontal,
@@ -62,6 +69,7 @@ const iconRegistry: Record<string, IconNode> = {
   Image,
   ImageIcon: Image,
   ImagePlus,
+  Info,
   Layers,
   Lightbulb,
   Loader2,
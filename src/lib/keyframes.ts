@@ -0,0 +1,155 @@
+import { getState, getVideoData, runFFmpegJob } from "../store"
+import { mountVideoSource } from "./ffmpeg-input"
+import { createScratchDir } from "./ffmpeg-scratch"
+import { createLogger } from "./logger"
+
+const log = createLogger("keyframes")
+
+/**
+ * Two timestamps closer than this are treated as the same frame. Cut points are
+ * passed around with millisecond precision, and 5 ms is under half a frame up to 100 fps.
+ */
+export const KEYFRAME_TOLERANCE_SEC = 0.005
+
+export interface KeyframeInfo {
+  /** Keyframe presentation times in seconds, relative to the file start, ascending. */
+  timestamps: number[]
+  /** Video codec of the probed stream (e.g. "h264"), if it could be read from the log. */
+  videoCodec: string | null
+}
+
+// One probe per File; pages and the processor share the same result.
+const keyframeCache = new WeakMap<File, Promise<KeyframeInfo | null>>()
+
+/**
+ * Returns keyframe timestamps for the loaded video, probing at most once per file.
+ * Returns null if FFmpeg is not loaded or no video is available.
+ */
+export function getKeyframes(): Promise<KeyframeInfo | null> {
+  const videoData = getVideoData()
+  if (!videoData) return Promise.resolve(null)
+
+  const cached = keyframeCache.get(videoData.file)
+  if (cached) return cached
+
+  const promise = probeKeyframes().then((info) => {
+    // Don't cache a skipped probe so a later call can retry once FFmpeg is ready.
+    if (!info) keyframeCache.delete(videoData.file)
+    return info
+  }, (err) => {
+    keyframeCache.delete(videoData.file)
+    throw err
+  })
+  keyframeCache.set(videoData.file, promise)
+  return promise
+}
+
+/**
+ * Lists keyframes by stream-copying the first video stream into FFmpeg's framecrc
+ * muxer, which writes one line per packet without decoding anything. Packets
+ * flagged as anything other than a plain keyframe get an "F=0x.." suffix, so
+ * lines without it are keyframes.
+ */
+async function probeKeyframes(): Promise<KeyframeInfo | null> {
+  if (!getState().isFFmpegLoaded || !getVideoData()) {
+    log.debug("FFmpeg not loaded or no video data - skipping keyframe probe")
+    return null
+  }
+
+  return runFFmpegJob({ label: "keyframes", priority: "probe" }, async (ffmpeg) => {
+    const scratch = await createScratchDir(ffmpeg, "keyframes")
+    const input = await mountVideoSource(ffmpeg, "keyframe_probe.mp4")
+    const reportFileName = scratch.path("keyframe_probe.txt")
+
+    const logMessages: string[] = []
+    const logHandler = ({ message }: { message: string }) => {
+      logMessages.push(message)
+    }
+    ffmpeg.on("log", logHandler)
+
+    try {
+      // -copyts keeps the input's own timestamps, so the start offset below is subtracted once.
+      await ffmpeg.exec(["-i", input.path, "-map", "0:v:0", "-c", "copy", "-copyts", "-f", "framecrc", reportFileName])
+      const report = await ffmpeg.readFile(reportFileName, "utf8")
+      const fullLog = logMessages.join("\n")
+
+      // "Duration: 00:00:10.00, start: 0.000000, bitrate: ..." — seeks are relative to this.
+      const startMatch = fullLog.match(/start:\s*(-?[\d.]+)/)
+      const startOffsetSec = startMatch ? Number.parseFloat(startMatch[1]) : 0
+      const codecMatch = fullLog.match(/Stream #\d+:\d+.*Video:\s*(\w+)/i)
+
+      const timestamps = parseFramecrcKeyframes(String(report), startOffsetSec)
+      log.info("Found %d keyframes", timestamps.length)
+      return { timestamps, videoCodec: codecMatch ? codecMatch[1].toLowerCase() : null }
+    } finally {
+      ffmpeg.off("log", logHandler)
+      await input.release()
+      await scratch.release()
+    }
+  })
+}
+
+/**
+ * Parses a framecrc report into sorted keyframe times.
+ * Lines look like "0,  1024,  1024,  512,  4120, 0x1a2b3c4d[, F=0x0]" with a
+ * "#tb 0: 1/15360" header giving the stream time base.
+ */
+function parseFramecrcKeyframes(report: string, startOffsetSec: number): number[] {
+  let timeBase = 1 / 1000
+  const result: number[] = []
+
+  for (const line of report.split("\n")) {
+    const tbMatch = line.match(/^#tb 0:\s*(\d+)\/(\d+)/)
+    if (tbMatch) {
+      timeBase = Number(tbMatch[1]) / Number(tbMatch[2])
+      continue
+    }
+    if (line.startsWith("#") || line.trim() === "") continue
+
+    const fields = line.split(",").map((f) => f.trim())
+    if (fields.length < 6 || fields[0] !== "0") continue
+    if (fields.some((f) => f.startsWith("F="))) continue
+
+    const pts = Number(fields[2])
+    if (!Number.isFinite(pts)) continue
+    result.push(Math.max(0, pts * timeBase - startOffsetSec))
+  }
+
+  return result.sort((a, b) => a - b)
+}
+
+/**
+ * Returns the last keyframe at or before the given time, or null if there is none.
+ * @param keyframes - Ascending keyframe times in seconds
+ * @param timeSec - Time in seconds
+ */
+export function findKeyframeAtOrBefore(keyframes: number[], timeSec: number): number | null {
+  let found: number | null = null
+  for (const kf of keyframes) {
+    if (kf > timeSec + KEYFRAME_TOLERANCE_SEC) break
+    found = kf
+  }
+  return found
+}
+
+/**
+ * Returns the first keyframe at or after the given time, or null if there is none.
+ * @param keyframes - Ascending keyframe times in seconds
+ * @param timeSec - Time in seconds
+ */
+export function findKeyframeAtOrAfter(keyframes: number[], timeSec: number): number | null {
+  for (const kf of keyframes) {
+    if (kf >= timeSec - KEYFRAME_TOLERANCE_SEC) return kf
+  }
+  return null
+}
+
+/**
+ * Returns true if the given time lands on a keyframe (within KEYFRAME_TOLERANCE_SEC).
+ * @param keyframes - Ascending keyframe times in seconds
+ * @param timeSec - Time in seconds
+ */
+export function isKeyframeTime(keyframes: number[], timeSec: number): boolean {
+  const before = findKeyframeAtOrBefore(keyframes, timeSec)
+  return before !== null && Math.abs(before - timeSec) <= KEYFRAME_TOLERANCE_SEC
+}
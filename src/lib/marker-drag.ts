@@ -1,4 +1,4 @@
-import { snapTimeToFrame, calculateTimeFromMousePosition, timeToFrame } from "./time-utils"
+import { snapTimeToFrame, snapTimeToKeyframe, calculateTimeFromMousePosition, timeToFrame } from "./time-utils"
 
 export interface MarkerDragOptions {
   /** The video element for real-time preview during drag. */
@@ -7,6 +7,10 @@ export interface MarkerDragOptions {
   framerate: number
   /** Total video duration in seconds. */
   duration: number
+  /** Ascending keyframe times in seconds, used when snapToKeyframes is set. */
+  keyframes?: number[]
+  /** Snap markers to the nearest keyframe instead of the nearest frame. */
+  snapToKeyframes?: boolean
   /** Returns the current start time in seconds. */
   getStartTime: () => number
   /** Returns the current end time in seconds. */
@@ -27,8 +31,8 @@ export interface MarkerDragOptions {
 
 /**
  * Creates draggable marker handlers for start/end time markers on a timeline.
- * Supports frame snapping, auto-swap (if start dragged past end or vice versa),
- * and real-time video preview during drag.
+ * Supports frame (or keyframe) snapping, auto-swap (if start dragged past end or
+ * vice versa), and real-time video preview during drag.
  * Uses the Pointer Events API for unified mouse and touch support.
  * @param options - Configuration for marker dragging behavior
  * @returns Object with pointerdown handlers for start/end markers and cleanup
@@ -41,6 +45,17 @@ export function createMarkerDrag(options: MarkerDragOptions): {
   let activeMoveHandler: ((e: PointerEvent) => void) | null = null
   let activeUpHandler: (() => void) | null = null
 
+  /**
+   * Snaps a pointer time to a keyframe when enabled and keyframes are known,
+   * otherwise to the nearest frame.
+   */
+  function snapTime(timeSec: number): number {
+    if (options.snapToKeyframes && options.keyframes && options.keyframes.length > 0) {
+      return snapTimeToKeyframe(timeSec, options.keyframes, options.duration)
+    }
+    return snapTimeToFrame(timeSec, options.framerate, options.duration)
+  }
+
   /**
    * Updates the video element's currentTime for real-time preview during drag.
    */
@@ -89,7 +104,7 @@ export function createMarkerDrag(options: MarkerDragOptions): {
         options.visibleStart,
         options.visibleEnd
       )
-      const snappedTime = snapTimeToFrame(newTime, options.framerate, options.duration)
+      const snappedTime = snapTime(newTime)
       const frame = timeToFrame(snappedTime, options.framerate)
 
       const endTime = options.getEndTime()
@@ -140,7 +155,7 @@ export function createMarkerDrag(options: MarkerDragOptions): {
         options.visibleStart,
         options.visibleEnd
       )
-      const snappedTime = snapTimeToFrame(newTime, options.framerate, options.duration)
+      const snappedTime = snapTime(newTime)
       const frame = timeToFrame(snappedTime, options.framerate)
 
       const startTime = options.getStartTime()
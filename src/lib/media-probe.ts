@@ -0,0 +1,315 @@
+import type { MediaChapter, MediaProbe, MediaStreamInfo, MediaStreamType, VideoData } from "../types"
+import { getState, getVideoData, loadFFmpeg, runFFmpegJob } from "../store"
+import { mountVideoSource } from "./ffmpeg-input"
+import { createLogger } from "./logger"
+
+const log = createLogger("media-probe")
+
+// One probe per File; pages share the same result.
+const probeCache = new WeakMap<File, Promise<MediaProbe | null>>()
+const bitrateCache = new WeakMap<File, Promise<BitrateSample[] | null>>()
+
+/** Bitrate of all packets whose timestamp falls in [timeSec, timeSec + 1). */
+export interface BitrateSample {
+  timeSec: number
+  bitrateBps: number
+}
+
+/** Subset of ffprobe's JSON output (-show_format -show_streams -show_chapters). */
+interface FfprobeJson {
+  format?: {
+    format_name?: string
+    format_long_name?: string
+    start_time?: string
+    duration?: string
+    size?: string
+    bit_rate?: string
+    tags?: Record<string, string>
+  }
+  streams?: Array<{
+    index?: number
+    codec_type?: string
+    codec_name?: string
+    codec_long_name?: string
+    profile?: string
+    bit_rate?: string
+    width?: number
+    height?: number
+    pix_fmt?: string
+    avg_frame_rate?: string
+    r_frame_rate?: string
+    color_space?: string
+    color_transfer?: string
+    color_primaries?: string
+    color_range?: string
+    sample_rate?: string
+    channels?: number
+    channel_layout?: string
+    disposition?: { default?: number }
+    tags?: Record<string, string>
+    side_data_list?: Array<{ side_data_type?: string; rotation?: number }>
+  }>
+  chapters?: Array<{
+    id?: number
+    start_time?: string
+    end_time?: string
+    tags?: Record<string, string>
+  }>
+}
+
+/**
+ * Returns the full probe of the loaded video, running ffprobe at most once per
+ * file. The result is also stored on VideoData.probe (and fills in
+ * VideoData.codec) so pages can read it synchronously afterwards.
+ * Returns null if FFmpeg is not loaded or no video is available.
+ */
+export function getMediaProbe(): Promise<MediaProbe | null> {
+  const videoData = getVideoData()
+  if (!videoData) return Promise.resolve(null)
+  if (videoData.probe) return Promise.resolve(videoData.probe)
+
+  const cached = probeCache.get(videoData.file)
+  if (cached) return cached
+
+  const promise = runProbe(videoData).then((probe) => {
+    // Don't cache a skipped probe so a later call can retry once FFmpeg is ready.
+    if (!probe) probeCache.delete(videoData.file)
+    return probe
+  }, (err) => {
+    probeCache.delete(videoData.file)
+    throw err
+  })
+  probeCache.set(videoData.file, promise)
+  return promise
+}
+
+/**
+ * Probes the loaded video in the background once FFmpeg is available.
+ * Call right after a new video is set; failures are only logged.
+ */
+export function prefetchMediaProbe(): void {
+  loadFFmpeg()
+    .then(() => getMediaProbe())
+    .catch((err) => log.warn("Background media probe failed: %o", err))
+}
+
+async function runProbe(videoData: VideoData): Promise<MediaProbe | null> {
+  if (!getState().isFFmpegLoaded) {
+    log.debug("FFmpeg not loaded - skipping media probe")
+    return null
+  }
+
+  return runFFmpegJob({ label: "media-probe", priority: "probe" }, async (ffmpeg) => {
+    const input = await mountVideoSource(ffmpeg, "media_probe_input")
+    const reportFileName = "media_probe.json"
+
+    try {
+      const exitCode = await ffmpeg.ffprobe([
+        "-v", "error",
+        "-print_format", "json",
+        "-show_format", "-show_streams", "-show_chapters",
+        input.path,
+        "-o", reportFileName,
+      ])
+      if (exitCode !== 0) throw new Error(`ffprobe exited with code ${exitCode}`)
+
+      const report = await ffmpeg.readFile(reportFileName, "utf8")
+      const probe = parseFfprobeJson(JSON.parse(String(report)) as FfprobeJson)
+      log.info("Probed %s: %s, %d streams", videoData.file.name, probe.container, probe.streams.length)
+
+      // Only attach if the same video is still loaded.
+      if (getVideoData() === videoData) {
+        videoData.probe = probe
+        const videoStream = probe.streams.find((s) => s.type === "video")
+        if (videoStream?.codec) videoData.codec = videoStream.codec
+        if (!videoData.duration && probe.durationSec) videoData.duration = probe.durationSec
+      }
+      return probe
+    } finally {
+      await input.release()
+      try {
+        await ffmpeg.deleteFile(reportFileName)
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  })
+}
+
+/**
+ * Returns the file's bitrate per second, summed over all streams, from packet
+ * sizes (no decoding). Probed at most once per file.
+ * Returns null if FFmpeg is not loaded or no video is available.
+ */
+export function getBitrateSeries(): Promise<BitrateSample[] | null> {
+  const videoData = getVideoData()
+  if (!videoData) return Promise.resolve(null)
+
+  const cached = bitrateCache.get(videoData.file)
+  if (cached) return cached
+
+  const promise = probeBitrateSeries().then((series) => {
+    if (!series) bitrateCache.delete(videoData.file)
+    return series
+  }, (err) => {
+    bitrateCache.delete(videoData.file)
+    throw err
+  })
+  bitrateCache.set(videoData.file, promise)
+  return promise
+}
+
+async function probeBitrateSeries(): Promise<BitrateSample[] | null> {
+  if (!getState().isFFmpegLoaded || !getVideoData()) {
+    log.debug("FFmpeg not loaded or no video data - skipping bitrate probe")
+    return null
+  }
+
+  return runFFmpegJob({ label: "bitrate-probe", priority: "probe" }, async (ffmpeg) => {
+    const input = await mountVideoSource(ffmpeg, "bitrate_probe_input")
+    const reportFileName = "bitrate_probe.csv"
+
+    try {
+      // One "pts_time,dts_time,size" line per packet.
+      const exitCode = await ffmpeg.ffprobe([
+        "-v", "error",
+        "-show_entries", "packet=pts_time,dts_time,size",
+        "-of", "csv=p=0",
+        input.path,
+        "-o", reportFileName,
+      ])
+      if (exitCode !== 0) throw new Error(`ffprobe exited with code ${exitCode}`)
+
+      const report = await ffmpeg.readFile(reportFileName, "utf8")
+      return parsePacketCsv(String(report))
+    } finally {
+      await input.release()
+      try {
+        await ffmpeg.deleteFile(reportFileName)
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  })
+}
+
+/** Buckets packet sizes into whole seconds. Packets without any timestamp are skipped. */
+function parsePacketCsv(report: string): BitrateSample[] {
+  const bytesPerSecond: number[] = []
+  let startSec: number | null = null
+
+  for (const line of report.split("\n")) {
+    const [ptsTime, dtsTime, size] = line.trim().split(",")
+    const timeSec = toNumber(ptsTime) ?? toNumber(dtsTime)
+    const bytes = toNumber(size)
+    if (timeSec === null || bytes === null) continue
+    // Times are relative to the first packet; reordered packets just before it land in bucket 0.
+    if (startSec === null) startSec = timeSec
+    const bucket = Math.max(0, Math.floor(timeSec - startSec))
+    bytesPerSecond[bucket] = (bytesPerSecond[bucket] ?? 0) + bytes
+  }
+
+  return Array.from(bytesPerSecond, (bytes, i) => ({ timeSec: i, bitrateBps: (bytes ?? 0) * 8 }))
+}
+
+function toNumber(value: string | number | undefined): number | null {
+  if (value === undefined || value === "N/A") return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+/** Parses "30000/1001" style rates; returns null for "0/0". */
+function parseRate(rate: string | undefined): number | null {
+  if (!rate) return null
+  const [num, den] = rate.split("/").map(Number)
+  if (!den || !Number.isFinite(num)) return null
+  const fps = num / den
+  return fps > 0 ? Math.round(fps * 1000) / 1000 : null
+}
+
+function toStreamType(codecType: string | undefined): MediaStreamType {
+  switch (codecType) {
+    case "video":
+    case "audio":
+    case "subtitle":
+    case "data":
+    case "attachment":
+      return codecType
+    default:
+      return "unknown"
+  }
+}
+
+/**
+ * Display rotation, clockwise. The display matrix stores the counter-clockwise
+ * angle (e.g. -90 for a phone held upright); the legacy rotate tag is clockwise.
+ */
+function getRotationDeg(stream: NonNullable<FfprobeJson["streams"]>[number]): number {
+  const matrix = stream.side_data_list?.find((d) => d.side_data_type === "Display Matrix")
+  const raw = matrix?.rotation !== undefined ? -matrix.rotation : toNumber(stream.tags?.rotate) ?? 0
+  return ((Math.round(raw) % 360) + 360) % 360
+}
+
+function getHdrFormat(stream: NonNullable<FfprobeJson["streams"]>[number]): MediaStreamInfo["hdrFormat"] {
+  if (stream.side_data_list?.some((d) => d.side_data_type?.startsWith("DOVI"))) return "dolby-vision"
+  if (stream.color_transfer === "smpte2084") return "hdr10"
+  if (stream.color_transfer === "arib-std-b67") return "hlg"
+  return null
+}
+
+/**
+ * Converts ffprobe's JSON into a MediaProbe.
+ * @param json - Parsed ffprobe output
+ */
+export function parseFfprobeJson(json: FfprobeJson): MediaProbe {
+  const streams: MediaStreamInfo[] = (json.streams ?? []).map((s, i) => {
+    const type = toStreamType(s.codec_type)
+    const isVideo = type === "video"
+    const isAudio = type === "audio"
+    return {
+      index: s.index ?? i,
+      type,
+      codec: s.codec_name ?? null,
+      codecLongName: s.codec_long_name ?? null,
+      profile: s.profile ?? null,
+      bitrateBps: toNumber(s.bit_rate),
+      language: s.tags?.language ?? null,
+      title: s.tags?.title ?? null,
+      isDefault: s.disposition?.default === 1,
+      width: isVideo ? s.width ?? null : null,
+      height: isVideo ? s.height ?? null : null,
+      pixelFormat: isVideo ? s.pix_fmt ?? null : null,
+      frameRateFps: isVideo ? parseRate(s.avg_frame_rate) ?? parseRate(s.r_frame_rate) : null,
+      rotationDeg: isVideo ? getRotationDeg(s) : 0,
+      colorSpace: isVideo ? s.color_space ?? null : null,
+      colorTransfer: isVideo ? s.color_transfer ?? null : null,
+      colorPrimaries: isVideo ? s.color_primaries ?? null : null,
+      colorRange: isVideo ? s.color_range ?? null : null,
+      hdrFormat: isVideo ? getHdrFormat(s) : null,
+      sampleRateHz: isAudio ? toNumber(s.sample_rate) : null,
+      channels: isAudio ? s.channels ?? null : null,
+      channelLayout: isAudio ? s.channel_layout ?? null : null,
+      tags: s.tags ?? {},
+    }
+  })
+
+  const chapters: MediaChapter[] = (json.chapters ?? []).map((c, i) => ({
+    id: c.id ?? i,
+    startSec: toNumber(c.start_time) ?? 0,
+    endSec: toNumber(c.end_time) ?? 0,
+    title: c.tags?.title ?? null,
+  }))
+
+  const format = json.format ?? {}
+  return {
+    container: format.format_name ?? null,
+    containerLongName: format.format_long_name ?? null,
+    durationSec: toNumber(format.duration),
+    startSec: toNumber(format.start_time),
+    bitrateBps: toNumber(format.bit_rate),
+    sizeBytes: toNumber(format.size),
+    tags: format.tags ?? {},
+    streams,
+    chapters,
+  }
+}
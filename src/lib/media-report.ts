@@ -0,0 +1,159 @@
+import type { MediaProbe, MediaStreamInfo } from "../types"
+import type { BitrateSample } from "./media-probe"
+import { formatFileSize } from "./file-utils"
+import { formatTime } from "./time-utils"
+
+export interface KeyframeSummary {
+  count: number
+  averageIntervalSec: number | null
+  maxIntervalSec: number | null
+}
+
+/** Everything the media info page shows, in one serializable object. */
+export interface MediaReport {
+  file: { name: string; sizeBytes: number; mimeType: string; lastModified: string }
+  probe: MediaProbe
+  keyframes: KeyframeSummary | null
+  bitrate: BitrateSample[] | null
+}
+
+/**
+ * Summarizes keyframe spacing (GOP length).
+ * @param timestamps - Ascending keyframe times in seconds
+ */
+export function summarizeKeyframes(timestamps: readonly number[]): KeyframeSummary {
+  if (timestamps.length < 2) {
+    return { count: timestamps.length, averageIntervalSec: null, maxIntervalSec: null }
+  }
+  let maxIntervalSec = 0
+  for (let i = 1; i < timestamps.length; i++) {
+    maxIntervalSec = Math.max(maxIntervalSec, timestamps[i] - timestamps[i - 1])
+  }
+  const averageIntervalSec = (timestamps[timestamps.length - 1] - timestamps[0]) / (timestamps.length - 1)
+  return { count: timestamps.length, averageIntervalSec, maxIntervalSec }
+}
+
+/**
+ * Formats a bitrate for display, e.g. "4.2 Mb/s".
+ * @param bps - Bits per second
+ */
+export function formatBitrate(bps: number | null): string {
+  if (bps === null) return "N/A"
+  if (bps >= 1_000_000) return `${(bps / 1_000_000).toFixed(1)} Mb/s`
+  if (bps >= 1000) return `${Math.round(bps / 1000)} kb/s`
+  return `${bps} b/s`
+}
+
+/**
+ * Returns label/value rows describing a stream. Fields that don't apply to the
+ * stream type or weren't reported are left out.
+ * @param stream - Probed stream
+ */
+export function describeStream(stream: MediaStreamInfo): Array<[string, string]> {
+  const rows: Array<[string, string | number | null]> = [
+    ["Codec", stream.codecLongName ? `${stream.codec} (${stream.codecLongName})` : stream.codec],
+    ["Profile", stream.profile],
+    ["Bitrate", stream.bitrateBps !== null ? formatBitrate(stream.bitrateBps) : null],
+    ["Language", stream.language],
+    ["Title", stream.title],
+    ["Default", stream.isDefault ? "yes" : null],
+  ]
+  if (stream.type === "video") {
+    rows.push(
+      ["Resolution", stream.width && stream.height ? `${stream.width}×${stream.height}` : null],
+      ["Frame rate", stream.frameRateFps !== null ? `${stream.frameRateFps} fps` : null],
+      ["Pixel format", stream.pixelFormat],
+      ["Rotation", stream.rotationDeg ? `${stream.rotationDeg}°` : null],
+      ["Color space", stream.colorSpace],
+      ["Color transfer", stream.colorTransfer],
+      ["Color primaries", stream.colorPrimaries],
+      ["Color range", stream.colorRange],
+      ["HDR", stream.hdrFormat],
+    )
+  }
+  if (stream.type === "audio") {
+    rows.push(
+      ["Sample rate", stream.sampleRateHz !== null ? `${stream.sampleRateHz} Hz` : null],
+      ["Channels", stream.channels],
+      ["Channel layout", stream.channelLayout],
+    )
+  }
+  return rows.filter((row): row is [string, string | number] => row[1] !== null && row[1] !== "").map(([k, v]) => [k, String(v)])
+}
+
+/**
+ * Returns label/value rows describing the container.
+ * @param probe - Probe result
+ */
+export function describeContainer(probe: MediaProbe): Array<[string, string]> {
+  return [
+    ["Format", probe.containerLongName ? `${probe.container} (${probe.containerLongName})` : probe.container ?? "N/A"],
+    ["Duration", probe.durationSec !== null ? `${formatTime(probe.durationSec)} (${probe.durationSec.toFixed(3)}s)` : "N/A"],
+    ["Start time", probe.startSec !== null ? `${probe.startSec.toFixed(3)}s` : "N/A"],
+    ["Overall bitrate", formatBitrate(probe.bitrateBps)],
+    ["Size", probe.sizeBytes !== null ? formatFileSize(probe.sizeBytes) : "N/A"],
+    ["Streams", String(probe.streams.length)],
+    ["Chapters", String(probe.chapters.length)],
+  ]
+}
+
+function formatRows(rows: Array<[string, string]>, indent = "  "): string[] {
+  const width = Math.max(0, ...rows.map(([label]) => label.length))
+  return rows.map(([label, value]) => `${indent}${label.padEnd(width)}  ${value}`)
+}
+
+function formatTags(tags: Record<string, string>, indent = "  "): string[] {
+  return formatRows(Object.entries(tags), indent)
+}
+
+/**
+ * Renders the report as plain text, laid out for pasting into a support ticket.
+ * @param report - The media report
+ */
+export function formatMediaReportText(report: MediaReport): string {
+  const { file, probe, keyframes, bitrate } = report
+  const lines: string[] = [
+    `Qcut media report — ${file.name}`,
+    "",
+    "File",
+    ...formatRows([
+      ["Name", file.name],
+      ["Size", `${formatFileSize(file.sizeBytes)} (${file.sizeBytes} bytes)`],
+      ["MIME type", file.mimeType || "N/A"],
+      ["Last modified", file.lastModified],
+    ]),
+    "",
+    "Container",
+    ...formatRows(describeContainer(probe)),
+  ]
+  if (Object.keys(probe.tags).length > 0) lines.push("  Tags", ...formatTags(probe.tags, "    "))
+
+  for (const stream of probe.streams) {
+    lines.push("", `Stream #${stream.index} (${stream.type})`, ...formatRows(describeStream(stream)))
+    if (Object.keys(stream.tags).length > 0) lines.push("  Tags", ...formatTags(stream.tags, "    "))
+  }
+
+  if (probe.chapters.length > 0) {
+    lines.push("", "Chapters")
+    for (const chapter of probe.chapters) {
+      lines.push(`  ${formatTime(chapter.startSec)} – ${formatTime(chapter.endSec)}  ${chapter.title ?? `Chapter ${chapter.id}`}`)
+    }
+  }
+
+  if (keyframes) {
+    lines.push("", "Keyframes", ...formatRows([
+      ["Count", String(keyframes.count)],
+      ["Average interval", keyframes.averageIntervalSec !== null ? `${keyframes.averageIntervalSec.toFixed(3)}s` : "N/A"],
+      ["Longest interval", keyframes.maxIntervalSec !== null ? `${keyframes.maxIntervalSec.toFixed(3)}s` : "N/A"],
+    ]))
+  }
+
+  if (bitrate && bitrate.length > 0) {
+    lines.push("", "Bitrate per second")
+    for (const sample of bitrate) {
+      lines.push(`  ${formatTime(sample.timeSec).padStart(6)}  ${formatBitrate(sample.bitrateBps)}`)
+    }
+  }
+
+  return lines.join("\n") + "\n"
+}
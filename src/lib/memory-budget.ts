@@ -0,0 +1,188 @@
+import type { VideoData } from "../types"
+import type { ParsedActionConfig } from "./action-params"
+import { getState } from "../store"
+import { getCoreHeapLimitBytes } from "./ffmpeg-core"
+import { getTotalSegmentDuration, getTrimSegments } from "./trim-ranges"
+import { formatFileSize } from "./file-utils"
+import { createLogger } from "./logger"
+
+const log = createLogger("memory-budget")
+
+/**
+ * Share of the heap limit a job may plan for. The rest absorbs what estimates
+ * miss: allocator fragmentation, codec tables, demuxer buffers.
+ */
+const BUDGET_RATIO = 0.8
+
+/** The core itself: code, static data and FFmpeg's own allocations before any input. */
+const CORE_BASE_BYTES = 64 * 1024 * 1024
+
+/**
+ * Decoded frames x264 holds at once (lookahead, reference frames, decoder
+ * queue) at default settings.
+ */
+const ENCODER_FRAME_COUNT = 60
+
+/** Frame rate assumed when the video's own isn't known. */
+const DEFAULT_FPS = 30
+
+/** Rough GIF size per pixel per frame, after palette quantisation and LZW. */
+const GIF_BYTES_PER_PIXEL = 0.5
+
+/** Rough size of an extracted PNG frame relative to its raw RGB data. */
+const PNG_COMPRESSION_RATIO = 0.5
+
+/** Size and shape of what a step reads, updated step by step through a pipeline. */
+interface StepInput {
+  sizeBytes: number
+  durationSec: number
+  width: number
+  height: number
+}
+
+export interface MemoryEstimate {
+  /** Estimated peak heap use of the job, in bytes. */
+  peakBytes: number
+  /** What a job may use on the current core, in bytes. */
+  budgetBytes: number
+}
+
+/**
+ * Estimates the peak memory an FFmpeg job will need, from the input's size,
+ * duration and dimensions. Inputs are mounted through WORKERFS and stay out of
+ * the heap (see mountInputs), but side inputs, intermediates and the output
+ * are written to MEMFS, and re-encodes keep decoded frames around.
+ * @param steps - The action, or every step of a pipeline in order
+ * @param videoData - The video to process
+ * @returns Estimated peak and the budget it must fit in
+ */
+export function estimateJobMemory(steps: readonly ParsedActionConfig[], videoData: VideoData): MemoryEstimate {
+  const core = getState().ffmpegCore ?? "single-thread"
+  const budgetBytes = getCoreHeapLimitBytes(core) * BUDGET_RATIO
+
+  let input: StepInput = {
+    sizeBytes: videoData.file.size,
+    durationSec: videoData.duration || 0,
+    width: videoData.width || 1920,
+    height: videoData.height || 1080,
+  }
+  // A pipeline stage's input and output are both in MEMFS while it runs; earlier
+  // intermediates are deleted as soon as the next stage has read them.
+  let previousOutputBytes = 0
+  let peakBytes = 0
+  for (const step of steps) {
+    const output = estimateStepOutput(step, input)
+    const stepBytes = previousOutputBytes + getSideInputBytes(step) + getWorkingBytes(step, input) + output.sizeBytes
+    peakBytes = Math.max(peakBytes, stepBytes)
+    previousOutputBytes = output.sizeBytes
+    input = output
+  }
+
+  return { peakBytes: CORE_BASE_BYTES + peakBytes, budgetBytes }
+}
+
+/**
+ * Checks a job against the memory budget before it starts, so it fails with an
+ * explanation instead of an out-of-memory abort halfway through.
+ * @param steps - The action, or every step of a pipeline in order
+ * @param videoData - The video to process
+ * @returns An error message if the job would exceed the budget, otherwise null
+ */
+export function getMemoryBudgetError(steps: readonly ParsedActionConfig[], videoData: VideoData): string | null {
+  const { peakBytes, budgetBytes } = estimateJobMemory(steps, videoData)
+  log.debug("Estimated peak memory %s of %s", formatFileSize(peakBytes), formatFileSize(budgetBytes))
+  if (peakBytes <= budgetBytes) return null
+
+  const last = steps[steps.length - 1]
+  const hint = last.type === "frame-extract"
+    ? "Extract fewer frames (a longer interval or a shorter clip)"
+    : "Trim the video first or lower its resolution"
+  return `This would need about ${formatFileSize(peakBytes)} of memory, but the video engine can only use ${formatFileSize(budgetBytes)} in this browser. ${hint}, then try again.`
+}
+
+/** Estimates the output a step writes to MEMFS. */
+function estimateStepOutput(config: ParsedActionConfig, input: StepInput): StepInput {
+  const { sizeBytes, durationSec } = input
+  const bytesPerSec = durationSec > 0 ? sizeBytes / durationSec : 0
+  const same = { ...input }
+
+  switch (config.type) {
+    case "trim": {
+      const keptSec = getTotalSegmentDuration(getTrimSegments(config, durationSec))
+      const keptBytes = durationSec > 0 ? bytesPerSec * keptSec : sizeBytes
+      // Exact cuts write every part, then the joined output.
+      const parts = config.params.cutMode === "exact" ? 2 : 1
+      return { ...input, sizeBytes: keptBytes * parts, durationSec: keptSec }
+    }
+    case "compress":
+      if (config.params.mode === "target-size") {
+        return { ...input, sizeBytes: (config.params.targetSizeMB ?? 0) * 1024 * 1024 }
+      }
+      return same
+    case "extract-audio":
+      if (config.params.extractMode === "video") return same
+      return { ...input, sizeBytes: (parseBitrateKbps(config.params.bitrate) * 1000 * durationSec) / 8 }
+    case "gif": {
+      const { start, end, fps, scale: width } = config.params
+      const height = Math.round(width * (input.height / input.width))
+      const frames = Math.max(0, end - start) * fps
+      return { sizeBytes: width * height * frames * GIF_BYTES_PER_PIXEL, durationSec: end - start, width, height }
+    }
+    case "resize": {
+      // A dimension kept in proportion (-1 or -2) is estimated at the input's.
+      const { width: requestedWidth = -1, height: requestedHeight = -1 } = config.params
+      const width = requestedWidth > 0 ? requestedWidth : input.width
+      const height = requestedHeight > 0 ? requestedHeight : input.height
+      const scale = (width * height) / (input.width * input.height)
+      return { ...input, sizeBytes: sizeBytes * Math.max(1, scale), width, height }
+    }
+    case "frame-extract": {
+      const frames = config.params.mode === "interval"
+        ? durationSec / config.params.interval
+        : durationSec * DEFAULT_FPS
+      return { ...input, sizeBytes: frames * input.width * input.height * 3 * PNG_COMPRESSION_RATIO }
+    }
+    case "combine": {
+      return { ...input, sizeBytes: config.params.clips.reduce((total, clip) => total + clip.size, 0) }
+    }
+    default:
+      return same
+  }
+}
+
+/** Side inputs the step copies into MEMFS (the main input and clips are mounted). */
+function getSideInputBytes(config: ParsedActionConfig): number {
+  if (config.type === "merge") return config.params.audioFile.size
+  if (config.type === "overlay") return config.params.overlayFile.size
+  return 0
+}
+
+/** Decoded frames held while re-encoding video; stream copies hold next to nothing. */
+function getWorkingBytes(config: ParsedActionConfig, input: StepInput): number {
+  if (!reencodesVideo(config)) return 0
+  const frameBytes = input.width * input.height * 1.5 // yuv420p
+  return frameBytes * ENCODER_FRAME_COUNT
+}
+
+function reencodesVideo(config: ParsedActionConfig): boolean {
+  switch (config.type) {
+    case "compress":
+    case "resize":
+    case "overlay":
+    case "gif":
+      return true
+    case "convert":
+      return config.params.codec !== "copy"
+    case "trim":
+      return config.params.cutMode === "exact"
+    case "rotate":
+      return !config.params.isLosslessFormat || config.params.isFlipHorizontal || config.params.isFlipVertical
+    default:
+      return false
+  }
+}
+
+/** Parses a validated bitrate like "192k". */
+function parseBitrateKbps(bitrate: string): number {
+  return Number.parseInt(bitrate, 10)
+}
@@ -0,0 +1,140 @@
+import { createLogger } from "./logger"
+
+const log = createLogger("opfs")
+
+/** Returns true if the Origin Private File System can be written from this page. */
+export function isOpfsSupported(): boolean {
+  return (
+    typeof navigator !== "undefined" &&
+    typeof navigator.storage?.getDirectory === "function" &&
+    typeof FileSystemFileHandle !== "undefined" &&
+    "createWritable" in FileSystemFileHandle.prototype
+  )
+}
+
+async function getOpfsDir(dirName: string): Promise<FileSystemDirectoryHandle> {
+  const root = await navigator.storage.getDirectory()
+  return root.getDirectoryHandle(dirName, { create: true })
+}
+
+/**
+ * Returns true if the origin's storage quota has room for the given number of bytes.
+ * Browsers without storage.estimate() are assumed to have room.
+ * @param bytes - Bytes about to be written
+ */
+export async function hasOpfsSpaceFor(bytes: number): Promise<boolean> {
+  if (typeof navigator.storage?.estimate !== "function") return true
+  const { quota, usage } = await navigator.storage.estimate()
+  if (quota === undefined || usage === undefined) return true
+  return quota - usage > bytes
+}
+
+/**
+ * Writes data into a file handle. Blobs are streamed chunk by chunk, so they're
+ * never buffered in memory as a whole. A failed or aborted write leaves the file unchanged.
+ * @param handle - Target file (OPFS or user-chosen)
+ * @param data - Data to write
+ * @param signal - Aborting stops the write and discards what was written so far
+ */
+export async function writeFileHandle(handle: FileSystemFileHandle, data: Blob | Uint8Array, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted()
+  const writable = await handle.createWritable()
+  if (data instanceof Blob) {
+    // pipeTo closes the writable on success and aborts it (discarding the write) on failure or abort.
+    await data.stream().pipeTo(writable, { signal })
+    return
+  }
+  try {
+    signal?.throwIfAborted()
+    await writable.write(data)
+    signal?.throwIfAborted()
+    await writable.close()
+  } catch (err) {
+    await writable.abort().catch(() => {})
+    throw err
+  }
+}
+
+/**
+ * Writes data into a file in OPFS (see writeFileHandle). If the write fails or
+ * is aborted, the file is removed rather than left empty.
+ * @param dirName - Directory under the OPFS root (created if missing)
+ * @param fileName - File name inside the directory (replaced if it exists)
+ * @param data - Data to write
+ * @param signal - Aborts the write
+ * @returns A File backed by the OPFS copy
+ */
+export async function writeOpfsFile(dirName: string, fileName: string, data: Blob | Uint8Array, signal?: AbortSignal): Promise<File> {
+  const dir = await getOpfsDir(dirName)
+  const handle = await dir.getFileHandle(fileName, { create: true })
+  try {
+    await writeFileHandle(handle, data, signal)
+  } catch (err) {
+    await dir.removeEntry(fileName).catch(() => {})
+    throw err
+  }
+  log.debug("Wrote %s/%s (%d bytes)", dirName, fileName, data instanceof Blob ? data.size : data.byteLength)
+  return handle.getFile()
+}
+
+/**
+ * Returns a handle to a file in OPFS, creating the file (and directory) if missing.
+ * @param dirName - Directory under the OPFS root
+ * @param fileName - File inside the directory
+ */
+export async function getOpfsFileHandle(dirName: string, fileName: string): Promise<FileSystemFileHandle> {
+  const dir = await getOpfsDir(dirName)
+  return dir.getFileHandle(fileName, { create: true })
+}
+
+/**
+ * Opens a file in OPFS.
+ * @param dirName - Directory under the OPFS root
+ * @param fileName - File inside the directory
+ * @returns The file, or null if it doesn't exist
+ */
+export async function readOpfsFile(dirName: string, fileName: string): Promise<File | null> {
+  try {
+    const dir = await getOpfsDir(dirName)
+    const handle = await dir.getFileHandle(fileName)
+    return await handle.getFile()
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "NotFoundError") return null
+    throw err
+  }
+}
+
+/**
+ * Removes a file from OPFS. Missing files are ignored.
+ * @param dirName - Directory under the OPFS root
+ * @param fileName - File to remove
+ */
+export async function removeOpfsFile(dirName: string, fileName: string): Promise<void> {
+  try {
+    const dir = await getOpfsDir(dirName)
+    await dir.removeEntry(fileName)
+  } catch (err) {
+    if (!(err instanceof DOMException && err.name === "NotFoundError")) throw err
+  }
+}
+
+/**
+ * Removes every file in an OPFS directory except the given names.
+ * Used to drop copies left behind by earlier videos or sessions.
+ * @param dirName - Directory under the OPFS root
+ * @param keep - File names to leave in place
+ */
+export async function clearOpfsDir(dirName: string, keep: readonly string[] = []): Promise<void> {
+  const dir = await getOpfsDir(dirName)
+  const names: string[] = []
+  for await (const name of dir.keys()) names.push(name)
+  for (const name of names) {
+    if (keep.includes(name)) continue
+    try {
+      await dir.removeEntry(name, { recursive: true })
+    } catch (err) {
+      // A file still open elsewhere (e.g. another tab) can't be removed; try again next time.
+      log.warn("Could not remove %s/%s: %o", dirName, name, err)
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import {
+  isOpfsSupported,
+  hasOpfsSpaceFor,
+  writeOpfsFile,
+  writeFileHandle,
+  clearOpfsDir,
+  getOpfsFileHandle,
+  removeOpfsFile,
+} from "./opfs"
+import { createLogger } from "./logger"
+
+const log = createLogger("output-storage")
+
+/** OPFS directory holding processed outputs of the current session. */
+const OUTPUT_OPFS_DIR = "qcut-output"
+
+// Outputs stay valid for the whole page session (batch mode keeps several), so
+// files are only cleared once per session, before the first new one is written.
+let staleOutputsCleared: Promise<void> | null = null
+
+// Blobs that are already stored where storeOutput would put them (see createOutputSink).
+const storedOutputs = new WeakSet<Blob>()
+
+/** A write at a byte offset of the output file, as mediabunny's StreamTarget produces them. */
+export interface OutputChunk {
+  type: "write"
+  data: Uint8Array
+  position: number
+}
+
+/** An output file being written piece by piece. */
+export interface OutputSink {
+  /** Takes positioned writes. Closing it doesn't commit the file; finish() does. */
+  writable: WritableStream<OutputChunk>
+  /** Commits the file. @returns A Blob of it, which storeOutput passes through as is */
+  finish: () => Promise<Blob>
+  /** Discards what was written. Safe to call after finish() or more than once. */
+  abort: () => Promise<void>
+}
+
+function clearStaleOutputs(): Promise<void> {
+  staleOutputsCleared ??= clearOpfsDir(OUTPUT_OPFS_DIR).catch((err) => log.warn("Clearing old outputs failed: %o", err))
+  return staleOutputsCleared
+}
+
+function createOutputName(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/** Returns true if the browser can ask the user where to save a file. */
+export function isSaveFilePickerSupported(): boolean {
+  return typeof window !== "undefined" && typeof window.showSaveFilePicker === "function"
+}
+
+/**
+ * Returns true if the error means the user dismissed a file picker.
+ * @param err - Error thrown by showSaveFilePicker
+ */
+export function isPickerCancelled(err: unknown): boolean {
+  return err instanceof DOMException && err.name === "AbortError"
+}
+
+/**
+ * Asks the user where to save a file. Must be called from a user gesture.
+ * @param suggestedName - Default file name shown in the dialog
+ * @param mimeType - MIME type used to filter the dialog
+ * @returns The chosen file, or null if the picker isn't available or failed
+ * @throws DOMException "AbortError" if the user dismissed the dialog (see isPickerCancelled)
+ */
+export async function pickSaveFile(suggestedName: string, mimeType: string): Promise<FileSystemFileHandle | null> {
+  if (!window.showSaveFilePicker) return null
+  const ext = suggestedName.includes(".") ? `.${suggestedName.split(".").pop()}` : ""
+  try {
+    return await window.showSaveFilePicker({
+      suggestedName,
+      types: ext ? [{ accept: { [mimeType]: [ext] } }] : undefined,
+    })
+  } catch (err) {
+    if (isPickerCancelled(err)) throw err
+    // e.g. SecurityError outside a user gesture, or a MIME type the picker rejects.
+    log.warn("Save file picker failed, falling back to download: %o", err)
+    return null
+  }
+}
+
+/**
+ * Stores a processed output outside the JS heap where possible and returns a
+ * Blob for it. With a save handle, the data goes straight into the user's file;
+ * otherwise it goes to OPFS; without OPFS (or quota) it stays in memory.
+ * @param data - Output bytes, or an already-built Blob
+ * @param mimeType - MIME type of the output
+ * @param saveHandle - User-chosen file to write to, if any
+ * @param signal - Aborting stops the write; nothing partial is left behind
+ * @returns A Blob of the output (disk-backed unless it had to stay in memory)
+ * @throws DOMException "AbortError" if the signal was aborted
+ */
+export async function storeOutput(
+  data: Uint8Array | Blob,
+  mimeType: string,
+  saveHandle?: FileSystemFileHandle,
+  signal?: AbortSignal
+): Promise<Blob> {
+  if (data instanceof Blob && storedOutputs.has(data)) return data
+  const size = data instanceof Blob ? data.size : data.byteLength
+
+  if (saveHandle) {
+    await writeFileHandle(saveHandle, data, signal)
+    const file = await saveHandle.getFile()
+    log.info("Saved output to %s (%d bytes)", file.name, size)
+    return file.slice(0, file.size, mimeType)
+  }
+
+  if (isOpfsSupported()) {
+    try {
+      await clearStaleOutputs()
+      if (await hasOpfsSpaceFor(size)) {
+        const file = await writeOpfsFile(OUTPUT_OPFS_DIR, createOutputName(), data, signal)
+        return file.slice(0, file.size, mimeType)
+      }
+      log.warn("Not enough storage quota to keep the output in OPFS")
+    } catch (err) {
+      // A cancelled run doesn't fall back to keeping the output in memory.
+      signal?.throwIfAborted()
+      log.warn("Writing output to OPFS failed, keeping it in memory: %o", err)
+    }
+  }
+
+  signal?.throwIfAborted()
+  return data instanceof Blob ? data : new Blob([data], { type: mimeType })
+}
+
+/**
+ * Opens an output for writing in pieces, for engines that produce it
+ * incrementally, so it never has to be held in memory whole. Like storeOutput,
+ * it writes to the user-chosen file if there is one, else to OPFS, and only
+ * keeps the data in memory without either.
+ * @param mimeType - MIME type of the output
+ * @param options.saveHandle - User-chosen file to write to, if any
+ * @param options.signal - Aborting fails further writes; call abort() to discard the file
+ * @param options.expectedBytes - Rough output size, for the OPFS quota check
+ */
+export async function createOutputSink(
+  mimeType: string,
+  options: { saveHandle?: FileSystemFileHandle; signal?: AbortSignal; expectedBytes?: number } = {}
+): Promise<OutputSink> {
+  const { saveHandle, signal, expectedBytes = 0 } = options
+  signal?.throwIfAborted()
+
+  let handle = saveHandle ?? null
+  let opfsName: string | null = null
+  if (!handle && isOpfsSupported()) {
+    try {
+      await clearStaleOutputs()
+      if (await hasOpfsSpaceFor(expectedBytes)) {
+        opfsName = createOutputName()
+        handle = await getOpfsFileHandle(OUTPUT_OPFS_DIR, opfsName)
+      } else {
+        log.warn("Not enough storage quota to keep the output in OPFS")
+      }
+    } catch (err) {
+      log.warn("Opening an output in OPFS failed, keeping it in memory: %o", err)
+    }
+  }
+  if (!handle) return createMemorySink(mimeType)
+
+  const fileHandle = handle
+  const file = await fileHandle.createWritable()
+  let isDone = false
+  return {
+    writable: new WritableStream<OutputChunk>({
+      write: async (chunk) => {
+        signal?.throwIfAborted()
+        await file.seek(chunk.position)
+        await file.write(chunk.data)
+      },
+    }),
+    finish: async () => {
+      isDone = true
+      await file.close()
+      const stored = await fileHandle.getFile()
+      log.info("Wrote output to %s (%d bytes)", saveHandle ? stored.name : "OPFS", stored.size)
+      const blob = stored.slice(0, stored.size, mimeType)
+      storedOutputs.add(blob)
+      return blob
+    },
+    abort: async () => {
+      if (isDone) return
+      isDone = true
+      await file.abort().catch(() => {})
+      if (opfsName) await removeOpfsFile(OUTPUT_OPFS_DIR, opfsName).catch(() => {})
+    },
+  }
+}
+
+/** Fallback sink that assembles the output in memory. */
+function createMemorySink(mimeType: string): OutputSink {
+  let sections: OutputChunk[] = []
+  return {
+    writable: new WritableStream<OutputChunk>({
+      write: (chunk) => {
+        sections.push({ ...chunk, data: chunk.data.slice() })
+      },
+    }),
+    finish: async () => {
+      const size = sections.reduce((end, s) => Math.max(end, s.position + s.data.byteLength), 0)
+      const data = new Uint8Array(size)
+      for (const section of sections) data.set(section.data, section.position)
+      sections = []
+      const blob = new Blob([data], { type: mimeType })
+      storedOutputs.add(blob)
+      return blob
+    },
+    abort: async () => {
+      sections = []
+    },
+  }
+}
+
+/**
+ * Saves a Blob to a user-chosen file, streaming it to disk. Falls back to
+ * download (see triggerDownload) where the save picker isn't available.
+ * Must be called from a user gesture.
+ * @param blob - Data to save
+ * @param fileName - Suggested file name
+ * @param triggerDownload - Fallback that downloads the blob via an anchor
+ * @returns false if the user dismissed the save dialog, true otherwise
+ */
+export async function saveBlobAs(blob: Blob, fileName: string, triggerDownload: () => void): Promise<boolean> {
+  let handle: FileSystemFileHandle | null
+  try {
+    handle = await pickSaveFile(fileName, blob.type || "application/octet-stream")
+  } catch (err) {
+    if (isPickerCancelled(err)) return false
+    throw err
+  }
+  if (!handle) {
+    triggerDownload()
+    return true
+  }
+  await writeFileHandle(handle, blob)
+  return true
+}
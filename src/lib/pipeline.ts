@@ -0,0 +1,141 @@
+import type { ActionConfig, ActionType } from "../types"
+import type { ActionParams, ParsedActionConfig } from "./action-params"
+
+/**
+ * One unit of work in a pipeline run: either a single action, or several
+ * consecutive filter-only actions fused into one FFmpeg pass.
+ */
+export interface PipelineStage<T extends ActionConfig = ActionConfig> {
+  steps: T[]
+  isFused: boolean
+}
+
+/** Actions whose output is not a video, so nothing can be chained after them. */
+const TERMINAL_ACTIONS: ReadonlySet<ActionType> = new Set(["extract-audio", "gif", "frame-extract"])
+
+/** Actions that only add filters or encoder settings and can share one encode. */
+const FUSABLE_ACTIONS: ReadonlySet<ActionType> = new Set(["resize", "rotate", "compress", "normalize-audio"])
+
+/**
+ * Builds the rotate/flip video filters for a rotate config.
+ * @param params - Rotate action params
+ * @returns Filter expressions in application order (empty if nothing to do)
+ */
+export function getRotateFilters(params: ActionParams<"rotate">): string[] {
+  const { rotation } = params
+  const filters: string[] = []
+  if (rotation === 90) filters.push("transpose=1")
+  else if (rotation === 180) filters.push("transpose=1,transpose=1")
+  else if (rotation === 270) filters.push("transpose=2")
+  if (params.isFlipHorizontal) filters.push("hflip")
+  if (params.isFlipVertical) filters.push("vflip")
+  return filters
+}
+
+/**
+ * Returns true if nothing can follow this action in a pipeline.
+ * @param config - The action config
+ */
+export function isTerminalAction(config: ActionConfig): boolean {
+  return TERMINAL_ACTIONS.has(config.type)
+}
+
+/**
+ * Returns a message describing why the pipeline can't run, or null if it can.
+ * @param steps - Pipeline steps in order
+ */
+export function getPipelineError(steps: readonly ActionConfig[]): string | null {
+  if (steps.length === 0) return "Add at least one step."
+  const terminalIndex = steps.findIndex(isTerminalAction)
+  if (terminalIndex !== -1 && terminalIndex < steps.length - 1) {
+    return "Steps that produce audio, GIFs or images must come last."
+  }
+  return null
+}
+
+function isFusable(config: ActionConfig): boolean {
+  if (!FUSABLE_ACTIONS.has(config.type)) return false
+  // Target-size compression needs its own two passes.
+  if (config.type === "compress" && config.params.mode === "target-size") return false
+  // Lossless rotation only rewrites metadata and must stay its own stage.
+  if (config.type === "rotate") {
+    const hasFlip = config.params.isFlipHorizontal || config.params.isFlipVertical
+    return !(config.params.isLosslessFormat && !hasFlip)
+  }
+  return true
+}
+
+/**
+ * Groups pipeline steps into stages. Runs of consecutive filter-only steps
+ * (resize, rotate, compress, normalize-audio) are fused so the video is
+ * decoded and encoded once instead of once per step.
+ * @param steps - Pipeline steps in order
+ * @returns Stages to run in order
+ */
+export function planPipeline<T extends ActionConfig>(steps: readonly T[]): PipelineStage<T>[] {
+  const stages: PipelineStage<T>[] = []
+  for (const step of steps) {
+    const last = stages[stages.length - 1]
+    if (last && isFusable(step) && last.steps.every(isFusable)) {
+      last.steps.push(step)
+      last.isFused = true
+    } else {
+      stages.push({ steps: [step], isFused: false })
+    }
+  }
+  return stages
+}
+
+/**
+ * Builds one FFmpeg command for a fused stage. Video and audio filters are
+ * chained in step order; a compress step supplies the encoder settings.
+ * @param steps - Fusable steps in order
+ * @param input - Input file name in the FFmpeg FS
+ * @param output - Output file name in the FFmpeg FS
+ * @returns FFmpeg arguments
+ */
+export function buildFusedArgs(steps: readonly ParsedActionConfig[], input: string, output: string): string[] {
+  const videoFilters: string[] = []
+  const audioFilters: string[] = []
+  let compress: ActionParams<"compress"> | null = null
+
+  for (const step of steps) {
+    switch (step.type) {
+      case "resize":
+        videoFilters.push(`scale=${step.params.width ?? -1}:${step.params.height ?? -1}`)
+        break
+      case "rotate":
+        videoFilters.push(...getRotateFilters(step.params))
+        break
+      case "normalize-audio":
+        audioFilters.push(buildLoudnormFilter(step.params))
+        break
+      case "compress":
+        compress = step.params
+        break
+    }
+  }
+
+  const args = ["-i", input]
+  if (videoFilters.length > 0) args.push("-vf", videoFilters.join(","))
+  if (audioFilters.length > 0) args.push("-af", audioFilters.join(","))
+
+  if (compress) {
+    args.push("-vcodec", "libx264", "-crf", String(compress.crf), "-preset", compress.preset)
+  } else if (videoFilters.length > 0) {
+    args.push("-c:v", "libx264")
+  } else {
+    args.push("-c:v", "copy")
+  }
+  args.push(...(audioFilters.length > 0 ? ["-c:a", "aac"] : ["-c:a", "copy"]))
+  args.push(output)
+  return args
+}
+
+/**
+ * Builds the loudnorm filter for a normalize-audio config.
+ * @param params - Normalize-audio action params
+ */
+export function buildLoudnormFilter(params: ActionParams<"normalize-audio">): string {
+  return `loudnorm=I=${params.targetLoudnessLufs}:TP=${params.truePeakDb}:LRA=${params.loudnessRangeLu}`
+}
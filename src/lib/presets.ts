@@ -0,0 +1,140 @@
+import type { ActionType } from "../types"
+import { createLogger } from "./logger"
+
+const log = createLogger("presets")
+
+const STORAGE_KEY = "qcut-presets"
+const PRESET_FILE_VERSION = 1
+
+const ACTION_TYPES: ReadonlySet<string> = new Set<ActionType>([
+  "convert", "compress", "trim", "extract-audio", "merge", "gif", "resize",
+  "frame-extract", "combine", "normalize-audio", "rotate", "overlay",
+])
+
+/** A named set of action settings. */
+export interface ActionPreset {
+  name: string
+  type: ActionType
+  params: Record<string, unknown>
+  updatedAt: number
+}
+
+/** Shape of exported preset files and of the localStorage entry. */
+interface PresetFile {
+  version: number
+  presets: ActionPreset[]
+}
+
+/**
+ * Keeps only JSON-safe values. Files, blobs and undefined entries are
+ * per-video inputs, not settings, so they are dropped.
+ */
+function toSerializableParams(params: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value instanceof Blob || typeof value === "function") continue
+    result[key] = JSON.parse(JSON.stringify(value))
+  }
+  return result
+}
+
+function isPreset(value: unknown): value is ActionPreset {
+  if (!value || typeof value !== "object") return false
+  const p = value as Partial<ActionPreset>
+  return (
+    typeof p.name === "string" && p.name.trim().length > 0 &&
+    typeof p.type === "string" && ACTION_TYPES.has(p.type) &&
+    !!p.params && typeof p.params === "object" && !Array.isArray(p.params)
+  )
+}
+
+function readAll(): ActionPreset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    if (!raw) return []
+    const parsed = JSON.parse(raw) as Partial<PresetFile>
+    return Array.isArray(parsed.presets) ? parsed.presets.filter(isPreset) : []
+  } catch (err) {
+    log.warn("Failed to read presets: %o", err)
+    return []
+  }
+}
+
+function writeAll(presets: ActionPreset[]): void {
+  const file: PresetFile = { version: PRESET_FILE_VERSION, presets }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(file))
+}
+
+/**
+ * Returns saved presets for an action, sorted by name.
+ * @param type - Action type
+ */
+export function getPresets(type: ActionType): ActionPreset[] {
+  return readAll()
+    .filter((p) => p.type === type)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Saves settings under a name, replacing any preset with the same name.
+ * @param type - Action type
+ * @param name - Preset name
+ * @param params - Current ActionConfig.params
+ * @returns The stored preset
+ */
+export function savePreset(type: ActionType, name: string, params: Record<string, unknown>): ActionPreset {
+  const trimmedName = name.trim()
+  if (!trimmedName) throw new Error("Preset name cannot be empty.")
+  const preset: ActionPreset = { name: trimmedName, type, params: toSerializableParams(params), updatedAt: Date.now() }
+  const others = readAll().filter((p) => !(p.type === type && p.name === trimmedName))
+  writeAll([...others, preset])
+  log.info("Saved preset %s for %s", trimmedName, type)
+  return preset
+}
+
+/**
+ * Deletes a preset by name.
+ * @param type - Action type
+ * @param name - Preset name
+ */
+export function deletePreset(type: ActionType, name: string): void {
+  writeAll(readAll().filter((p) => !(p.type === type && p.name === name)))
+}
+
+/**
+ * Serialises presets to a JSON string for sharing.
+ * @param type - Only export this action's presets; omit for all
+ */
+export function exportPresets(type?: ActionType): string {
+  const presets = type ? getPresets(type) : readAll()
+  const file: PresetFile = { version: PRESET_FILE_VERSION, presets }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Imports presets from an exported JSON string. Presets with the same action
+ * and name are overwritten; invalid entries are skipped.
+ * @param json - Contents of an exported preset file
+ * @returns Number of presets imported
+ */
+export function importPresets(json: string): number {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch {
+    throw new Error("The file is not valid JSON.")
+  }
+  const entries = (parsed as Partial<PresetFile>)?.presets
+  if (!Array.isArray(entries)) throw new Error("The file does not contain any presets.")
+
+  const imported = entries.filter(isPreset).map((p) => ({
+    name: p.name.trim(),
+    type: p.type,
+    params: toSerializableParams(p.params),
+    updatedAt: typeof p.updatedAt === "number" ? p.updatedAt : Date.now(),
+  }))
+  const keys = new Set(imported.map((p) => `${p.type}\u0000${p.name}`))
+  writeAll([...readAll().filter((p) => !keys.has(`${p.type}\u0000${p.name}`)), ...imported])
+  log.info("Imported %d presets", imported.length)
+  return imported.length
+}
@@ -0,0 +1,173 @@
+import type { VideoData } from "../types"
+import type { ParsedActionConfig } from "./action-params"
+import { getVideoData, ensureVideoSource } from "../store"
+import { captureVideoFrame } from "./frame-capture"
+import { createGifWithGifenc, shouldUseGifenc } from "./gif-encoder"
+import { isWebCodecsAction, prepareWebCodecsJob } from "./webcodecs-engine"
+import type { OutputSink } from "./output-storage"
+import { createLogger } from "./logger"
+
+const log = createLogger("processing-engines")
+
+/**
+ * How fast an engine is expected to run an action it can handle. When several
+ * engines can, the fastest is tried first.
+ */
+export type EngineSpeed = "instant" | "fast" | "slow"
+
+const SPEED_ORDER: Record<EngineSpeed, number> = { instant: 0, fast: 1, slow: 2 }
+
+export interface EngineRequirements {
+  /** Needs ffmpeg.wasm loaded. */
+  ffmpeg?: boolean
+  /** Returns false if this browser lacks an API the engine needs. */
+  isSupported?: () => boolean
+}
+
+export interface EngineRunContext {
+  config: ParsedActionConfig
+  videoData: VideoData
+  /** Aborting cancels the run; the engine should reject with an AbortError. */
+  signal: AbortSignal
+  /** Reports progress, 0..1. */
+  onProgress: (progress: number) => void
+  /**
+   * Runs the action on ffmpeg.wasm through the processor (pool job, scratch
+   * directory, failure classification) and returns its output.
+   */
+  runWithFFmpeg: () => Promise<Uint8Array | Blob>
+  /**
+   * Opens the output for writing in pieces (see createOutputSink), for engines
+   * that produce it incrementally.
+   * @param expectedBytes - Rough output size, for the storage quota check
+   */
+  createOutputSink: (expectedBytes?: number) => Promise<OutputSink>
+}
+
+/** A way of running actions: ffmpeg.wasm, or a browser API that's faster for some of them. */
+export interface ProcessingEngine {
+  id: string
+  /** Name for logs and the UI. */
+  label: string
+  speed: EngineSpeed
+  requirements: EngineRequirements
+  /**
+   * Set if run() may only find out from the file itself that it can't handle
+   * it (e.g. its codec), in which case the next engine has to.
+   */
+  canDecline?: boolean
+  /** Returns true if the engine can run this action with these params. */
+  canHandle: (config: ParsedActionConfig) => boolean
+  /**
+   * Runs the action.
+   * @returns The output, or null if the engine declined the file (see canDecline)
+   */
+  run: (context: EngineRunContext) => Promise<Uint8Array | Blob | null>
+}
+
+/** Single frames straight from a <video> element, without loading FFmpeg. */
+const canvasFrameEngine: ProcessingEngine = {
+  id: "canvas-frame",
+  label: "Canvas",
+  speed: "instant",
+  requirements: {},
+  canHandle: (config) => config.type === "frame-extract" && config.params.mode === "single",
+  run: ({ config, videoData, signal }) => {
+    if (config.type !== "frame-extract") throw new Error(`Canvas engine can't run ${config.type}`)
+    const { timestamp, format } = config.params
+    return captureVideoFrame(videoData.file, timestamp, `image/${format === "jpg" ? "jpeg" : format}`, signal)
+  },
+}
+
+/** Short GIFs with gifenc; see shouldUseGifenc. */
+const gifencEngine: ProcessingEngine = {
+  id: "gifenc",
+  label: "gifenc",
+  speed: "fast",
+  requirements: {},
+  canHandle: (config) => config.type === "gif" && shouldUseGifenc(config.params.end - config.params.start),
+  run: ({ config, videoData, signal, onProgress }) => {
+    if (config.type !== "gif") throw new Error(`gifenc engine can't run ${config.type}`)
+    log.info("Using gifenc for fast GIF creation")
+    const { start, end, fps, scale } = config.params
+    return createGifWithGifenc(videoData.file, { startSec: start, endSec: end, fps, width: scale }, (p) => {
+      // Extracting frames takes most of the time.
+      onProgress(p.phase === "extracting" ? (p.current / p.total) * 0.6 : 0.6 + (p.current / p.total) * 0.4)
+    }, signal)
+  },
+}
+
+/** Hardware-encoded resizes and compressions; see prepareWebCodecsJob. */
+const webCodecsEngine: ProcessingEngine = {
+  id: "webcodecs",
+  label: "WebCodecs",
+  speed: "fast",
+  requirements: { isSupported: () => typeof VideoEncoder !== "undefined" && typeof VideoDecoder !== "undefined" },
+  canDecline: true,
+  canHandle: isWebCodecsAction,
+  run: async ({ config, videoData, signal, onProgress, createOutputSink }) => {
+    const source = videoData === getVideoData() ? await ensureVideoSource() : videoData.file
+    const job = await prepareWebCodecsJob(config, source)
+    if (!job) return null
+    // run disposes of the job itself; until it's reached, that's left to this function.
+    let isRunStarted = false
+    try {
+      // The output is at most about the input's size (see planEncode's bitrate cap).
+      const output = await createOutputSink(videoData.file.size)
+      isRunStarted = true
+      return await job.run({ output, signal, onProgress })
+    } catch (err) {
+      if (!isRunStarted) job.dispose()
+      if (signal.aborted) throw err
+      // FFmpeg may still manage what the browser's codecs couldn't.
+      log.warn("WebCodecs engine failed, declining: %o", err)
+      return null
+    }
+  },
+}
+
+/** ffmpeg.wasm, which can run every action. */
+const ffmpegEngine: ProcessingEngine = {
+  id: "ffmpeg",
+  label: "FFmpeg",
+  speed: "slow",
+  requirements: { ffmpeg: true },
+  canHandle: () => true,
+  run: ({ runWithFFmpeg }) => runWithFFmpeg(),
+}
+
+const engines: ProcessingEngine[] = [canvasFrameEngine, gifencEngine, webCodecsEngine, ffmpegEngine]
+
+/**
+ * Adds an engine, or replaces the one with the same id. Engines are tried
+ * fastest first; among equally fast ones, in registration order.
+ * @param engine - Engine to add
+ */
+export function registerEngine(engine: ProcessingEngine): void {
+  const index = engines.findIndex((e) => e.id === engine.id)
+  if (index >= 0) engines[index] = engine
+  else engines.push(engine)
+}
+
+/**
+ * Returns the engines that can run an action in this browser, in the order
+ * to try them. Engines after the first one that can't decline are left out,
+ * since they'd never be reached.
+ * @param config - Action to run
+ */
+export function getEnginesFor(config: ParsedActionConfig): ProcessingEngine[] {
+  const candidates = engines
+    .filter((e) => e.canHandle(config) && (e.requirements.isSupported?.() ?? true))
+    .sort((a, b) => SPEED_ORDER[a.speed] - SPEED_ORDER[b.speed])
+  const lastIndex = candidates.findIndex((e) => !e.canDecline)
+  return lastIndex >= 0 ? candidates.slice(0, lastIndex + 1) : candidates
+}
+
+/**
+ * Returns true if running the action may need ffmpeg.wasm loaded: the engine
+ * that will run it needs it, or an engine before it may decline.
+ * @param config - Action to run
+ */
+export function requiresFFmpeg(config: ParsedActionConfig): boolean {
+  return getEnginesFor(config).some((e) => e.requirements.ffmpeg)
+}
@@ -0,0 +1,202 @@
+import type { ActionConfig, VideoData } from "../types"
+import { isJobCancelled } from "./ffmpeg-pool"
+import { formatFileSize } from "./file-utils"
+
+/** What went wrong, as far as it can be told from FFmpeg's exit code and log. */
+export type ProcessingErrorKind =
+  | "unsupported-codec"
+  | "out-of-memory"
+  | "corrupt-input"
+  | "missing-stream"
+  | "cancelled"
+  | "unknown"
+
+interface ErrorKindInfo {
+  title: string
+  /** What happened, for the user. */
+  explanation: string
+  /** What they can do about it. */
+  suggestion: string
+}
+
+const ERROR_KINDS: Record<ProcessingErrorKind, ErrorKindInfo> = {
+  "unsupported-codec": {
+    title: "Unsupported format",
+    explanation: "The video uses a codec or format the in-browser engine can't read or write.",
+    suggestion: "Convert it to MP4 (H.264) first, or pick a different output format.",
+  },
+  "out-of-memory": {
+    title: "Out of memory",
+    explanation: "The video engine ran out of memory. Browsers cap how much memory it can use, whatever your device has.",
+    suggestion: "Trim the video or lower its resolution first, close other heavy tabs, and try again.",
+  },
+  "corrupt-input": {
+    title: "Damaged or incomplete file",
+    explanation: "Parts of the video couldn't be read. The file may be damaged, still being written, or only partly downloaded.",
+    suggestion: "Check that the video plays to the end in a media player, or re-export it from its source.",
+  },
+  "missing-stream": {
+    title: "Missing video or audio track",
+    explanation: "This action needs a track the file doesn't have, e.g. extracting audio from a video without sound.",
+    suggestion: "Check the file's tracks on the Media Info page and pick an action that fits them.",
+  },
+  cancelled: {
+    title: "Cancelled",
+    explanation: "Processing was cancelled.",
+    suggestion: "Start it again whenever you're ready.",
+  },
+  unknown: {
+    title: "Processing failed",
+    explanation: "",
+    suggestion: "Try again. If it keeps failing, copy the diagnostic report and send it to us.",
+  },
+}
+
+/**
+ * Log lines that identify a kind of failure, checked in this order: running out
+ * of memory tends to cascade into decode errors, so it's checked first.
+ */
+const LOG_PATTERNS: Array<[Exclude<ProcessingErrorKind, "cancelled" | "unknown">, RegExp]> = [
+  ["out-of-memory", /out of memory|cannot allocate memory|memory access out of bounds|aborted\(oom\)|array buffer allocation failed|enomem/i],
+  ["missing-stream", /matches no streams|does not contain any stream|output file is empty|no (audio|video) streams?|cannot find a matching stream/i],
+  ["unsupported-codec", /decoder .*not found|encoder .*not found|unknown (en|de)coder|unsupported codec|not currently supported in container|could not find tag for codec|could not find codec parameters|unable to find a suitable output format|no decoder for/i],
+  ["corrupt-input", /invalid data found when processing input|moov atom not found|error reading header|error while decoding|corrupt|invalid nal unit|header missing|partial file/i],
+]
+
+/** Number of FFmpeg log lines kept with a failure. */
+export const LOG_TAIL_LINES = 40
+
+/**
+ * A processing failure with its classification and the FFmpeg output that
+ * led to it. The message is the technical detail; explanation and suggestion
+ * are what the user sees.
+ */
+export class ProcessingError extends Error {
+  readonly kind: ProcessingErrorKind
+  /** FFmpeg's exit code, or null if it didn't exit normally (or didn't run). */
+  readonly exitCode: number | null
+  /** Last lines FFmpeg logged before failing. */
+  readonly logTail: readonly string[]
+  /** Arguments of the failed run. */
+  readonly args: readonly string[] | null
+
+  constructor(
+    kind: ProcessingErrorKind,
+    message: string,
+    details: { exitCode?: number | null; logTail?: readonly string[]; args?: readonly string[] | null } = {}
+  ) {
+    super(message)
+    this.name = "ProcessingError"
+    this.kind = kind
+    this.exitCode = details.exitCode ?? null
+    this.logTail = details.logTail ?? []
+    this.args = details.args ?? null
+  }
+
+  get title(): string {
+    return ERROR_KINDS[this.kind].title
+  }
+
+  get explanation(): string {
+    return ERROR_KINDS[this.kind].explanation || this.message
+  }
+
+  get suggestion(): string {
+    return ERROR_KINDS[this.kind].suggestion
+  }
+}
+
+/**
+ * Classifies a failed FFmpeg run from its exit code and log.
+ * @param exitCode - What exec returned, or null if it threw
+ * @param logTail - Last lines FFmpeg logged
+ * @param args - Arguments of the run
+ * @param cause - What exec threw, if it threw
+ */
+export function classifyFFmpegFailure(
+  exitCode: number | null,
+  logTail: readonly string[],
+  args: readonly string[],
+  cause?: unknown
+): ProcessingError {
+  const causeMessage = cause instanceof Error ? cause.message : cause !== undefined ? String(cause) : null
+  const lines = causeMessage ? [...logTail, causeMessage] : logTail
+
+  // The last matching line is usually the root cause; earlier ones are often warnings.
+  for (let i = lines.length - 1; i >= 0; i--) {
+    for (const [kind, pattern] of LOG_PATTERNS) {
+      if (pattern.test(lines[i])) return new ProcessingError(kind, lines[i].trim(), { exitCode, logTail, args })
+    }
+  }
+  if (cause instanceof RangeError) return new ProcessingError("out-of-memory", cause.message, { exitCode, logTail, args })
+
+  const detail = causeMessage ?? findLastErrorLine(logTail) ?? `FFmpeg exited with code ${exitCode}.`
+  return new ProcessingError("unknown", detail, { exitCode, logTail, args })
+}
+
+/**
+ * Turns anything a processing run threw into a ProcessingError.
+ * @param err - What was thrown
+ * @param isAborted - Whether the run's abort signal fired (cancellation can surface as other errors)
+ */
+export function toProcessingError(err: unknown, isAborted = false): ProcessingError {
+  if (err instanceof ProcessingError) return err
+  if (isAborted || isJobCancelled(err)) return new ProcessingError("cancelled", "Processing was cancelled.")
+  if (err instanceof RangeError) return new ProcessingError("out-of-memory", err.message)
+  return new ProcessingError("unknown", err instanceof Error ? err.message : String(err))
+}
+
+/**
+ * Builds a plain-text report of a failure for bug reports: the environment,
+ * the action and its settings, the input, and FFmpeg's command and output.
+ * @param error - The failure
+ * @param context.steps - The action, or every step of a pipeline
+ * @param context.videoData - The processed video
+ * @param context.engine - Description of the FFmpeg core in use
+ */
+export function buildDiagnosticReport(
+  error: ProcessingError,
+  context: { steps: readonly ActionConfig[]; videoData: VideoData | null; engine: string }
+): string {
+  const { steps, videoData, engine } = context
+  const lines = [
+    "Qcut diagnostic report",
+    `Generated: ${new Date().toISOString()}`,
+    `Build: ${__BUILD_TIME__}`,
+    `Browser: ${navigator.userAgent}`,
+    `Engine: ${engine} (cross-origin isolated: ${window.crossOriginIsolated ? "yes" : "no"})`,
+    "",
+    `Action: ${steps.map((s) => s.type).join(" → ")}`,
+    ...steps.map((s) => `Settings (${s.type}): ${JSON.stringify(s.params, describeParam)}`),
+  ]
+
+  if (videoData) {
+    const { file } = videoData
+    lines.push(
+      `Input: ${file.name} (${file.type || "unknown type"}, ${formatFileSize(file.size)})`,
+      `Input details: ${videoData.duration?.toFixed(2) ?? "?"} s, ${videoData.width ?? "?"}x${videoData.height ?? "?"}, codec ${videoData.codec ?? "?"}`
+    )
+  }
+
+  lines.push(
+    "",
+    `Error: ${error.kind} (${error.title})`,
+    `Message: ${error.message}`,
+    `Exit code: ${error.exitCode ?? "none"}`
+  )
+  if (error.args) lines.push(`Command: ffmpeg ${error.args.join(" ")}`)
+  if (error.logTail.length > 0) lines.push("", `FFmpeg log (last ${error.logTail.length} lines):`, ...error.logTail)
+  return lines.join("\n")
+}
+
+/** JSON replacer that reduces files in action params to their name and size. */
+function describeParam(_key: string, value: unknown): unknown {
+  return value instanceof File ? `<file ${value.name}, ${formatFileSize(value.size)}>` : value
+}
+
+function findLastErrorLine(logTail: readonly string[]): string | null {
+  for (let i = logTail.length - 1; i >= 0; i--) {
+    if (/error|failed|invalid/i.test(logTail[i])) return logTail[i].trim()
+  }
+  return null
+}
@@ -0,0 +1,19 @@
+import { createLogger } from "./logger"
+
+const log = createLogger("service-worker")
+
+/**
+ * Registers the service worker that caches the app for offline use
+ * (see src/service-worker.js). Production builds only: the dev server has no sw.js.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return
+
+  // Wait for load so installing (and precaching the core) doesn't compete with the first page.
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then((registration) => log.info("Service worker registered (scope %s)", registration.scope))
+      .catch((err) => log.warn("Service worker registration failed: %o", err))
+  }, { once: true })
+}
@@ -0,0 +1,302 @@
+import type { VideoData } from "../types"
+import { getVideoData, setVideoData, getVideoSnapshotName, getVideoSnapshot, ensureVideoSource } from "../store"
+import { getCurrentPath } from "../router"
+import { prefetchMediaProbe } from "./media-probe"
+import { createLogger } from "./logger"
+
+const log = createLogger("session")
+
+const DB_NAME = "qcut-session"
+const DB_STORE = "sessions"
+const SESSION_KEY = "current"
+
+/** How often the open page's settings are checked for changes and saved. */
+const SAVE_INTERVAL_MS = 2000
+
+/** Sessions older than this aren't offered for restore. */
+const MAX_SESSION_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+/** The video of a saved session and where to reopen it from. */
+export interface SavedSessionVideo {
+  name: string
+  type: string
+  size: number
+  lastModified: number
+  duration?: number
+  width?: number
+  height?: number
+  format?: string
+  /** OPFS snapshot left by the last page load (see getVideoSnapshotName). */
+  snapshotName: string | null
+  /** The original file, where the File System Access API handed us a handle. */
+  handle: FileSystemFileHandle | null
+}
+
+export interface SavedSession {
+  savedAtMs: number
+  /** Route the user was on. */
+  path: string
+  video: SavedSessionVideo
+  /** Settings of each page visited, by page key (see trackPageSession). */
+  pages: Record<string, Record<string, unknown>>
+}
+
+/** How a page exposes its settings for saving and restoring. */
+export interface PageSessionBinding {
+  /** Returns the page's current settings. Must be structured-cloneable (Files are fine). */
+  getParams: () => Record<string, unknown>
+  /** Applies settings saved by an earlier page load. */
+  onApply: (params: Record<string, unknown>) => void
+}
+
+// Pages currently open, by key, and the last settings seen for every page this session.
+const bindings = new Map<string, PageSessionBinding>()
+let pageParams: Record<string, Record<string, unknown>> = {}
+// Settings from a restored session, handed to each page once when it registers.
+let pendingPageParams: Record<string, Record<string, unknown>> = {}
+// Video the page settings belong to; they're dropped when another one is loaded.
+let sessionFile: File | null = null
+// Handle the current video was opened from, if any.
+let videoHandle: { file: File; handle: FileSystemFileHandle } | null = null
+// Until the user restores or dismisses the saved session, saving would overwrite it.
+let isSavingPaused = false
+let lastSaved = ""
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).catch((err) => {
+    dbPromise = null
+    throw err
+  })
+  return dbPromise
+}
+
+async function runDbRequest<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const request = fn(db.transaction(DB_STORE, mode).objectStore(DB_STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Starts saving the session to IndexedDB: the loaded video's source, the
+ * current route and the settings of every tracked page. Call once on app start.
+ * @returns The session saved by an earlier page load, to offer for restore, or null
+ */
+export async function initSessionPersistence(): Promise<SavedSession | null> {
+  if (typeof indexedDB === "undefined") return null
+
+  let saved: SavedSession | null = null
+  try {
+    saved = (await runDbRequest("readonly", (store) => store.get(SESSION_KEY))) ?? null
+  } catch (err) {
+    log.warn("Could not read the saved session: %o", err)
+    return null
+  }
+  if (saved && Date.now() - saved.savedAtMs > MAX_SESSION_AGE_MS) saved = null
+  isSavingPaused = !!saved
+
+  setInterval(() => saveSession(), SAVE_INTERVAL_MS)
+  // The last chance to save before the tab goes away; a crash loses at most one interval.
+  window.addEventListener("pagehide", () => saveSession())
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") saveSession()
+  })
+
+  return saved
+}
+
+/**
+ * Registers a page's settings for saving. If a restored session has settings
+ * for this page, they're applied right away. Call once the page's controls exist.
+ * @param key - Stable page key, e.g. the action type
+ * @param binding - Getter and restore callback for the page's settings
+ * @returns Unregister function, for the page's destroy()
+ */
+export function trackPageSession(key: string, binding: PageSessionBinding): () => void {
+  bindings.set(key, binding)
+  const restored = pendingPageParams[key]
+  if (restored) {
+    delete pendingPageParams[key]
+    log.info("Restoring %s settings", key)
+    binding.onApply(restored)
+  }
+  return () => {
+    // Keep the last settings so they're still saved after leaving the page.
+    captureParams(key, binding)
+    if (bindings.get(key) === binding) bindings.delete(key)
+  }
+}
+
+/**
+ * Records the file handle a video was opened from, so a restored session can
+ * reopen the original file when no OPFS snapshot is left.
+ * @param file - File read from the handle (the one passed to setVideoData)
+ * @param handle - Its handle
+ */
+export function rememberVideoFileHandle(file: File, handle: FileSystemFileHandle): void {
+  videoHandle = { file, handle }
+}
+
+/**
+ * Reopens a saved session's video and queues its page settings for restore.
+ * Call from a user gesture: reopening the original file may need a permission prompt.
+ * @param session - Session returned by initSessionPersistence
+ * @returns The route to navigate to
+ * @throws Error if the video can't be reopened
+ */
+export async function restoreSession(session: SavedSession): Promise<string> {
+  const { video } = session
+  const source = await reopenVideo(video)
+  if (!source) {
+    throw new Error(`"${video.name}" is no longer available. Please select it again.`)
+  }
+
+  const file = source.snapshot
+    ? // Keep the original name (outputs are named after it) without copying the data.
+      new File([source.snapshot], video.name, { type: video.type, lastModified: video.lastModified })
+    : source.file
+  const data: VideoData = {
+    file,
+    sourceFile: source.snapshot ?? undefined,
+    duration: video.duration,
+    width: video.width,
+    height: video.height,
+    format: video.format,
+  }
+  setVideoData(data)
+  if (source.handle) videoHandle = { file, handle: source.handle }
+  if (!source.snapshot) ensureVideoSource().catch(() => {})
+  prefetchMediaProbe()
+
+  sessionFile = file
+  pageParams = { ...session.pages }
+  pendingPageParams = { ...session.pages }
+  isSavingPaused = false
+  log.info("Restored session for %s", video.name)
+  return session.path
+}
+
+/** Deletes the saved session and resumes saving the current one. */
+export async function dismissSavedSession(): Promise<void> {
+  isSavingPaused = false
+  try {
+    await runDbRequest("readwrite", (store) => store.delete(SESSION_KEY))
+  } catch (err) {
+    log.warn("Could not delete the saved session: %o", err)
+  }
+}
+
+async function reopenVideo(
+  video: SavedSessionVideo
+): Promise<{ snapshot: File | null; file: File; handle: FileSystemFileHandle | null } | null> {
+  if (video.snapshotName) {
+    try {
+      const snapshot = await getVideoSnapshot(video.snapshotName)
+      if (snapshot && snapshot.size === video.size) return { snapshot, file: snapshot, handle: video.handle }
+    } catch (err) {
+      log.warn("Could not reopen the video snapshot: %o", err)
+    }
+  }
+
+  if (video.handle) {
+    try {
+      const permission = await video.handle.queryPermission({ mode: "read" })
+      if (permission === "granted" || (await video.handle.requestPermission({ mode: "read" })) === "granted") {
+        return { snapshot: null, file: await video.handle.getFile(), handle: video.handle }
+      }
+    } catch (err) {
+      log.warn("Could not reopen the original video file: %o", err)
+    }
+  }
+  return null
+}
+
+function captureParams(key: string, binding: PageSessionBinding): void {
+  try {
+    pageParams[key] = binding.getParams()
+  } catch (err) {
+    log.warn("Could not read %s settings: %o", key, err)
+  }
+}
+
+/** Returns the session to save, or null if the video couldn't be reopened later anyway. */
+function buildSession(videoData: VideoData): SavedSession | null {
+  const { file } = videoData
+  const snapshotName = getVideoSnapshotName()
+  const handle = videoHandle?.file === file ? videoHandle.handle : null
+  if (!snapshotName && !handle) return null
+
+  bindings.forEach((binding, key) => captureParams(key, binding))
+  return {
+    savedAtMs: Date.now(),
+    path: getCurrentPath(),
+    video: {
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      lastModified: file.lastModified,
+      duration: videoData.duration,
+      width: videoData.width,
+      height: videoData.height,
+      format: videoData.format,
+      snapshotName,
+      handle,
+    },
+    pages: pageParams,
+  }
+}
+
+/**
+ * Stable string for change detection. Files can't be stringified, so they're
+ * reduced to their identity.
+ */
+function fingerprint(session: SavedSession): string {
+  const { savedAtMs: _, ...rest } = session
+  return JSON.stringify(rest, (_key, value) =>
+    value instanceof Blob ? `blob:${value.size}:${value instanceof File ? `${value.name}:${value.lastModified}` : value.type}` : value
+  )
+}
+
+function saveSession(): void {
+  const videoData = getVideoData()
+  if (isSavingPaused) {
+    if (!videoData) return
+    // A video was loaded instead of restoring; that's the session now.
+    isSavingPaused = false
+  }
+
+  if (!videoData) {
+    // Nothing loaded (or the user started over): there's nothing to restore.
+    if (lastSaved) {
+      lastSaved = ""
+      sessionFile = null
+      pageParams = {}
+      runDbRequest("readwrite", (store) => store.delete(SESSION_KEY)).catch((err) => log.warn("Could not clear the session: %o", err))
+    }
+    return
+  }
+
+  if (videoData.file !== sessionFile) {
+    sessionFile = videoData.file
+    pageParams = {}
+    pendingPageParams = {}
+  }
+
+  const session = buildSession(videoData)
+  if (!session) return
+  const current = fingerprint(session)
+  if (current === lastSaved) return
+  lastSaved = current
+  runDbRequest("readwrite", (store) => store.put(session, SESSION_KEY)).catch((err) => {
+    lastSaved = ""
+    log.warn("Could not save the session: %o", err)
+  })
+}
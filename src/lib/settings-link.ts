@@ -0,0 +1,94 @@
+import type { ActionType } from "../types"
+import { validateActionConfig } from "./action-params"
+import { trackPageSession, type PageSessionBinding } from "./session"
+import { createLogger } from "./logger"
+
+const log = createLogger("settings-link")
+
+/**
+ * Encodes action settings as a query string (without the "?"). Files and
+ * blobs are per-video inputs, not settings, so they're left out; arrays and
+ * objects are written as JSON.
+ * @param params - Settings as returned by a page's getParams
+ */
+export function encodeSettingsQuery(params: Record<string, unknown>): string {
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null || value === "" || value instanceof Blob || typeof value === "function") continue
+    if (Array.isArray(value) && value.some((item) => item instanceof Blob)) continue
+    query.set(key, typeof value === "object" ? JSON.stringify(value) : String(value))
+  }
+  return query.toString()
+}
+
+/**
+ * Builds an absolute link to a page with the given settings filled in.
+ * @param path - Route of the action's page
+ * @param params - Settings to put in the link
+ */
+export function buildSettingsLink(path: string, params: Record<string, unknown>): string {
+  const query = encodeSettingsQuery(params)
+  return `${window.location.origin}${path}${query ? `?${query}` : ""}`
+}
+
+/**
+ * Reads action settings from a query string. Each setting is checked against
+ * the action's schema; invalid ones are dropped so the page keeps its own
+ * value, and settings the link doesn't carry (e.g. files) stay as they are.
+ * @param type - Action the page runs
+ * @param search - Query string, e.g. window.location.search
+ * @returns The valid settings, or null if there are none
+ */
+export function readSettingsQuery(type: ActionType, search: string): Record<string, unknown> | null {
+  const query = new URLSearchParams(search)
+  const params: Record<string, unknown> = {}
+  query.forEach((value, key) => {
+    params[key] = decodeValue(value)
+  })
+  if (Object.keys(params).length === 0) return null
+
+  const validation = validateActionConfig({ type, params })
+  if (!validation.success) {
+    for (const [key, message] of Object.entries(validation.fieldErrors)) {
+      if (!(key in params)) continue
+      log.warn("Ignoring %s from the link: %s", key, message)
+      delete params[key]
+    }
+  }
+  return Object.keys(params).length > 0 ? params : null
+}
+
+/**
+ * Registers a page's settings for saving (see trackPageSession), then applies
+ * the settings from the link the page was opened with. The link is what the
+ * user just asked for, so its settings win over a restored session's; the
+ * ones it doesn't carry keep their restored values.
+ * @param key - Stable page key, e.g. the action type
+ * @param settings - The page's shareable settings, as presets and links carry them
+ * @param linkParams - Settings from the link (PageOptions.params), if any
+ * @param session - What the session saves, if it keeps more than the settings (e.g. a time selection)
+ * @returns Unregister function, for the page's destroy()
+ */
+export function trackPageSettings(
+  key: string,
+  settings: PageSessionBinding,
+  linkParams: Record<string, unknown> | undefined,
+  session: PageSessionBinding = settings
+): () => void {
+  const untrack = trackPageSession(key, session)
+  if (linkParams) settings.onApply(linkParams)
+  return untrack
+}
+
+/**
+ * Turns a query value back into what the page had: numbers, booleans and JSON
+ * arrays or objects are parsed, anything else stays a string.
+ */
+function decodeValue(value: string): unknown {
+  try {
+    const parsed: unknown = JSON.parse(value)
+    return typeof parsed === "string" ? value : parsed
+  } catch {
+    return value
+  }
+}
@@ -0,0 +1,92 @@
+import type { TrimRange } from "./trim-ranges"
+import { findKeyframeAtOrAfter, findKeyframeAtOrBefore, KEYFRAME_TOLERANCE_SEC } from "./keyframes"
+
+/** How a trim is cut: at keyframes with stream copy, or frame-exact. */
+export type TrimCutMode = "fast" | "exact"
+
+/** A piece of the output, either stream-copied or re-encoded. */
+export interface SmartTrimPart extends TrimRange {
+  reencode: boolean
+}
+
+export interface SmartTrimStep {
+  /** FFmpeg arguments that produce this part. */
+  args: string[]
+  /** Part file written by the step (MPEG-TS so parts with different encoders concat cleanly). */
+  output: string
+  part: SmartTrimPart
+}
+
+/**
+ * Splits one kept segment into parts for a frame-exact cut. Only the partial GOP
+ * before the first keyframe after the in point and the partial GOP after the last
+ * keyframe before the out point are re-encoded; everything between is copied.
+ * When copying is impossible (no usable keyframes, or the source codec can't be
+ * mixed with re-encoded frames) the whole segment is re-encoded.
+ * @param segment - Segment to keep, in seconds
+ * @param keyframes - Ascending keyframe times in seconds
+ * @param canCopy - Whether stream copy may be mixed with re-encoded parts
+ * @returns Parts in output order
+ */
+export function planSegmentParts(segment: TrimRange, keyframes: number[], canCopy: boolean): SmartTrimPart[] {
+  const { start, end } = segment
+  if (!canCopy) return [{ start, end, reencode: true }]
+
+  const copyStart = findKeyframeAtOrAfter(keyframes, start)
+  const copyEnd = findKeyframeAtOrBefore(keyframes, end)
+  const isEndOnKeyframe = copyEnd !== null && Math.abs(copyEnd - end) <= KEYFRAME_TOLERANCE_SEC
+  const copyUntil = isEndOnKeyframe ? end : copyEnd
+
+  if (copyStart === null || copyUntil === null || copyUntil - copyStart <= KEYFRAME_TOLERANCE_SEC) {
+    return [{ start, end, reencode: true }]
+  }
+
+  const parts: SmartTrimPart[] = []
+  if (copyStart - start > KEYFRAME_TOLERANCE_SEC) parts.push({ start, end: copyStart, reencode: true })
+  parts.push({ start: Math.max(start, copyStart), end: copyUntil, reencode: false })
+  if (end - copyUntil > KEYFRAME_TOLERANCE_SEC) parts.push({ start: copyUntil, end, reencode: true })
+  return parts
+}
+
+/**
+ * Plans all parts of a frame-exact trim across every kept segment.
+ * @param segments - Segments to keep, in output order
+ * @param keyframes - Ascending keyframe times in seconds
+ * @param canCopy - Whether stream copy may be mixed with re-encoded parts
+ */
+export function planSmartTrim(segments: TrimRange[], keyframes: number[], canCopy: boolean): SmartTrimPart[] {
+  return segments.flatMap((segment) => planSegmentParts(segment, keyframes, canCopy))
+}
+
+/**
+ * Builds the FFmpeg runs that produce each part of a frame-exact trim.
+ * Input seeking (-ss before -i) is frame-accurate when re-encoding, and lands
+ * exactly on the keyframe for copied parts since they always start on one.
+ * Audio is AAC in every part, copied or not, so the concat has one audio codec.
+ * @param parts - Planned parts from planSmartTrim
+ * @param input - Source file name inside the FFmpeg virtual FS
+ * @param workDir - Directory to write the parts to (the job's scratch directory)
+ */
+export function buildSmartTrimSteps(parts: SmartTrimPart[], input: string, workDir = ""): SmartTrimStep[] {
+  return parts.map((part, i) => {
+    const output = workDir ? `${workDir}/trim_part_${i}.ts` : `trim_part_${i}.ts`
+    const duration = String(Math.max(0, part.end - part.start))
+    const codecArgs = part.reencode
+      ? ["-c:v", "libx264", "-preset", "veryfast", "-crf", "18", "-pix_fmt", "yuv420p", "-c:a", "aac"]
+      : ["-c:v", "copy", "-c:a", "aac"]
+    return {
+      args: ["-ss", String(part.start), "-i", input, "-t", duration, "-map", "0:v:0", "-map", "0:a?", ...codecArgs, "-avoid_negative_ts", "make_zero", output],
+      output,
+      part,
+    }
+  })
+}
+
+/**
+ * Sums how much of the output has to be re-encoded.
+ * @param parts - Planned parts
+ * @returns Re-encoded duration in seconds
+ */
+export function getReencodedDuration(parts: SmartTrimPart[]): number {
+  return parts.reduce((total, p) => total + (p.reencode ? p.end - p.start : 0), 0)
+}
@@ -0,0 +1,33 @@
+/** Share of the target reserved for container overhead (moov atom, headers). */
+const CONTAINER_OVERHEAD_RATIO = 0.02
+
+/** Below this the encode is mostly artefacts, so we refuse rather than produce it. */
+export const MIN_VIDEO_BITRATE_KBPS = 50
+
+/** Passlog prefix shared by both passes of a target-size encode. */
+export const TWO_PASS_LOG_PREFIX = "compress_2pass"
+
+/**
+ * Computes the video bitrate needed for an output of the given size.
+ * Sizes use the same 1 MB = 1024 × 1024 bytes convention as the rest of the UI.
+ * @param targetSizeMB - Desired output size in MB
+ * @param durationSec - Output duration in seconds
+ * @param audioBitrateKbps - Audio bitrate that will be used, in kbit/s
+ * @returns Video bitrate in kbit/s (may be below MIN_VIDEO_BITRATE_KBPS or negative)
+ */
+export function computeTargetVideoBitrateKbps(targetSizeMB: number, durationSec: number, audioBitrateKbps: number): number {
+  if (!(durationSec > 0) || !(targetSizeMB > 0)) return 0
+  const usableBits = targetSizeMB * 1024 * 1024 * 8 * (1 - CONTAINER_OVERHEAD_RATIO)
+  const totalKbps = usableBits / durationSec / 1000
+  return Math.floor(totalKbps - audioBitrateKbps)
+}
+
+/**
+ * Returns the smallest target (in MB) that still allows MIN_VIDEO_BITRATE_KBPS.
+ * @param durationSec - Output duration in seconds
+ * @param audioBitrateKbps - Audio bitrate in kbit/s
+ */
+export function getMinimumTargetSizeMB(durationSec: number, audioBitrateKbps: number): number {
+  const totalKbps = MIN_VIDEO_BITRATE_KBPS + audioBitrateKbps
+  return (totalKbps * 1000 * durationSec) / 8 / (1 - CONTAINER_OVERHEAD_RATIO) / (1024 * 1024)
+}
@@ -27,6 +27,29 @@ export function snapTimeToFrame(timeSec: number, framerateFps: number, durationS
   return Math.max(0, Math.min(durationSec, snapped))
 }
 
+/**
+ * Snaps a time to the nearest keyframe, falling back to the unsnapped time when
+ * no keyframes are known.
+ * @param timeSec - Time in seconds
+ * @param keyframes - Ascending keyframe times in seconds
+ * @param durationSec - Total duration in seconds, used for clamping
+ * @returns Time of the nearest keyframe in seconds
+ */
+export function snapTimeToKeyframe(timeSec: number, keyframes: number[], durationSec: number): number {
+  let nearest = timeSec
+  let nearestDistance = Infinity
+  for (const kf of keyframes) {
+    const distance = Math.abs(kf - timeSec)
+    if (distance < nearestDistance) {
+      nearest = kf
+      nearestDistance = distance
+    } else if (kf > timeSec) {
+      break
+    }
+  }
+  return Math.max(0, Math.min(durationSec, nearest))
+}
+
 /**
  * Converts a time in seconds to a frame number.
  * @param timeSec - Time in seconds
@@ -0,0 +1,108 @@
+import type { ParsedAction } from "./action-params"
+
+/** A single start/end selection on the trim timeline, in seconds. */
+export interface TrimRange {
+  start: number
+  end: number
+}
+
+/**
+ * Whether the selected ranges are the parts to keep, or the parts to cut out
+ * (everything between them is kept).
+ */
+export type TrimMode = "keep" | "remove"
+
+/** Segments shorter than this are dropped when building the output. */
+const MIN_SEGMENT_SEC = 0.01
+
+/**
+ * Orders each range so start <= end, clamps it to [0, duration], sorts by start,
+ * and merges ranges that overlap or touch.
+ * @param ranges - Ranges in any order, possibly reversed or overlapping
+ * @param durationSec - Total video duration in seconds (ignored when <= 0)
+ * @returns Sorted, non-overlapping ranges
+ */
+export function normalizeTrimRanges(ranges: TrimRange[], durationSec: number): TrimRange[] {
+  const clamp = (t: number): number => {
+    const lower = Math.max(0, t)
+    return durationSec > 0 ? Math.min(durationSec, lower) : lower
+  }
+
+  const sorted = ranges
+    .filter((r) => Number.isFinite(r.start) && Number.isFinite(r.end))
+    .map((r) => ({ start: clamp(Math.min(r.start, r.end)), end: clamp(Math.max(r.start, r.end)) }))
+    .sort((a, b) => a.start - b.start)
+
+  const merged: TrimRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+/**
+ * Resolves the segments that end up in the output for a given mode.
+ * In "keep" mode these are the selected ranges themselves; in "remove" mode they
+ * are the gaps between (and around) the selected ranges.
+ * @param ranges - The user's selected ranges
+ * @param mode - Whether the selection is kept or removed
+ * @param durationSec - Total video duration in seconds
+ * @returns Sorted segments to stitch together, excluding near-empty ones
+ */
+export function getKeptSegments(ranges: TrimRange[], mode: TrimMode, durationSec: number): TrimRange[] {
+  const normalized = normalizeTrimRanges(ranges, durationSec)
+
+  if (mode === "keep") {
+    return normalized.filter((r) => r.end - r.start >= MIN_SEGMENT_SEC)
+  }
+
+  const kept: TrimRange[] = []
+  let cursor = 0
+  for (const range of normalized) {
+    if (range.start - cursor >= MIN_SEGMENT_SEC) kept.push({ start: cursor, end: range.start })
+    cursor = range.end
+  }
+  if (durationSec - cursor >= MIN_SEGMENT_SEC) kept.push({ start: cursor, end: durationSec })
+  return kept
+}
+
+/**
+ * Sums the length of a list of segments.
+ * @param segments - Non-overlapping segments in seconds
+ * @returns Total duration in seconds
+ */
+export function getTotalSegmentDuration(segments: TrimRange[]): number {
+  return segments.reduce((total, s) => total + (s.end - s.start), 0)
+}
+
+/**
+ * Builds a concat demuxer script that stitches several segments of one input
+ * together using inpoint/outpoint directives, so the pieces can be joined with
+ * stream copy in a single FFmpeg run.
+ * @param input - File name of the source inside the FFmpeg virtual FS
+ * @param segments - Segments to keep, in output order
+ * @returns Contents of the concat list file
+ */
+export function buildTrimConcatList(input: string, segments: TrimRange[]): string {
+  return segments
+    .map((s) => `file '${input}'\ninpoint ${s.start.toFixed(3)}\noutpoint ${s.end.toFixed(3)}`)
+    .join("\n")
+}
+
+/**
+ * Resolves the segments a trim config keeps. Supports the multi-range form
+ * (`ranges` + `mode`) as well as the single `start`/`end` pair.
+ */
+export function getTrimSegments(config: ParsedAction<"trim">, duration?: number): TrimRange[] {
+  const durationSec = duration || 0
+  const { ranges, mode, start = 0, end } = config.params
+  if (ranges && ranges.length > 0) return getKeptSegments(ranges, mode, durationSec)
+  // 0 or unset means the end of the video.
+  const endSec = end || durationSec
+  return [{ start, end: Math.max(start, endSec) }]
+}
@@ -0,0 +1,35 @@
+import type { VideoData } from "../types"
+
+/**
+ * Reads duration and dimensions of a video file through a temporary <video>
+ * element and returns them as VideoData (without the file bytes).
+ * Rejects if the browser can't decode the file's metadata.
+ * @param file - The video file selected by the user
+ * @returns Promise resolving to the file's VideoData
+ */
+export function loadVideoMetadata(file: File): Promise<VideoData> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video")
+    video.preload = "metadata"
+    video.playsInline = true
+    const objectUrl = URL.createObjectURL(file)
+
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(objectUrl)
+      resolve({
+        file,
+        duration: video.duration,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        format: file.name.split(".").pop()?.toUpperCase(),
+      })
+    }
+
+    video.onerror = () => {
+      URL.revokeObjectURL(objectUrl)
+      reject(new Error("Unable to load video. The file may be corrupted or in an unsupported format."))
+    }
+
+    video.src = objectUrl
+  })
+}
@@ -1,7 +1,8 @@
 import JSZip from "jszip"
+import type { FFmpeg } from "@ffmpeg/ffmpeg"
 import type { ActionConfig } from "../types"
 import type { VideoData } from "../types"
-import { getState, getVideoData, ensureVideoBytes, startProcessing, finishProcessing, subscribe } from "../store"
+import { getState, getVideoData, runFFmpegJob, subscribe, trackProcessing } from "../store"
 import { createLogger } from "./logger"
 import {
   trackProcessingStart,
@@ -9,17 +10,63 @@ import {
   trackProcessingError,
   trackDownload,
 } from "./analytics"
-import { createGifWithGifenc, shouldUseGifenc, type GifProgress } from "./gif-encoder"
+import { getTotalSegmentDuration, buildTrimConcatList, getTrimSegments } from "./trim-ranges"
+import { getKeyframes } from "./keyframes"
+import { planSmartTrim, buildSmartTrimSteps } from "./smart-trim"
+import { computeTargetVideoBitrateKbps, getMinimumTargetSizeMB, MIN_VIDEO_BITRATE_KBPS, TWO_PASS_LOG_PREFIX } from "./target-size"
+import { planPipeline, buildFusedArgs, buildLoudnormFilter, getPipelineError, getRotateFilters } from "./pipeline"
+import { mountInputs, mountVideoSource } from "./ffmpeg-input"
+import { storeOutput, createOutputSink, pickSaveFile, saveBlobAs } from "./output-storage"
+import { copyFFmpegFile } from "./ffmpeg-output"
+import { isJobCancelled } from "./ffmpeg-pool"
+import { createScratchDir, type ScratchDir } from "./ffmpeg-scratch"
+import { getMemoryBudgetError } from "./memory-budget"
+import { describeFFmpegCore } from "./ffmpeg-core"
+import { getEnginesFor, type ProcessingEngine } from "./processing-engines"
+import { validateActionConfig, type ParsedActionConfig, type ParsedAction } from "./action-params"
+import {
+  ProcessingError,
+  classifyFFmpegFailure,
+  toProcessingError,
+  buildDiagnosticReport,
+  LOG_TAIL_LINES,
+} from "./processing-errors"
 
 const log = createLogger("processor")
 
+/** Concat list used when a trim keeps more than one segment. */
+export const TRIM_CONCAT_FILE = "trim_concat.txt"
+/** Side inputs and lists some actions read next to the main input. */
+export const MERGE_AUDIO_FILE = "audio.input"
+export const COMBINE_CONCAT_FILE = "concat.txt"
+export const OVERLAY_IMAGE_FILE = "overlay.png"
+
 export interface ProcessorState {
   isProcessing: boolean
   isComplete: boolean
   progress: number
   processingStartTimeMs: number | null
   error: string | null
+  /** Classified cause of the last failure; null when error is a plain message (e.g. nothing loaded). */
+  failure: ProcessingError | null
+  /** Set when the last run was cancelled (see cancel); unlike error, nothing went wrong. */
+  isCancelled: boolean
   outputUrl: string | null
+  /** The finished output, kept so callers (e.g. batch mode) can collect it. */
+  outputBlob: Blob | null
+  /** Suggested download name for the finished output. */
+  outputFileName: string | null
+  /** Name of the user-chosen file the output was written to, if it was saved rather than downloaded. */
+  savedFileName: string | null
+}
+
+export interface ProcessOptions {
+  /** Video to process instead of the store's current video (used by batch mode). */
+  videoData?: VideoData
+  /** Set to false to skip the automatic download when processing completes. */
+  autoDownload?: boolean
+  /** Write the output straight into this user-chosen file (see pickSaveLocation) instead of downloading it. */
+  saveHandle?: FileSystemFileHandle
 }
 
 type ProcessorListener = (state: ProcessorState) => void
@@ -35,11 +82,26 @@ export class VideoProcessor {
     progress: 0,
     processingStartTimeMs: null,
     error: null,
+    failure: null,
+    isCancelled: false,
     outputUrl: null,
+    outputBlob: null,
+    outputFileName: null,
+    savedFileName: null,
   }
 
+  private isAutoDownload = true
+  private saveHandle: FileSystemFileHandle | undefined
   private listeners = new Set<ProcessorListener>()
-  private progressHandler: ((event: { progress: number }) => void) | null = null
+  /** Pool instance of the running job; only set while runJob's callback runs. */
+  private ffmpeg: FFmpeg | null = null
+  /** The running job's working directory in the FFmpeg FS, alongside this.ffmpeg. */
+  private scratch: ScratchDir | null = null
+  private abortController: AbortController | null = null
+  /** What the last run processed, for its diagnostic report. */
+  private lastRun: { steps: ActionConfig[]; videoData: VideoData } | null = null
+  /** Maps FFmpeg's per-run 0..1 progress into a slice of the overall bar for multi-run jobs. */
+  private progressWindow = { offset: 0, span: 1 }
 
   /** Returns the current processor state. */
   getState(): Readonly<ProcessorState> {
@@ -67,260 +129,636 @@ export class VideoProcessor {
   }
 
   /** Processes the video with the given config. */
-  async process(config: ActionConfig): Promise<void> {
+  async process(config: ActionConfig, options: ProcessOptions = {}): Promise<void> {
     const appState = getState()
-    const videoData = getVideoData()
-    const isSingleFrameExtract = config.type === "frame-extract" && config.params.mode === "single"
-
-    const isGifWithGifenc = config.type === "gif" && (() => {
-      const startSec = Number.parseFloat(String(config.params.start || "0"))
-      const endSec = Number.parseFloat(String(config.params.end || "3"))
-      return shouldUseGifenc(endSec - startSec)
-    })()
+    this.clearOutput()
+    const videoData = options.videoData ?? getVideoData()
+    this.isAutoDownload = options.autoDownload ?? true
+    this.saveHandle = options.saveHandle
 
     if (!videoData) {
       this.setState({ error: "No video is loaded yet. Please select a video first." })
       return
     }
-    if (!isSingleFrameExtract && !isGifWithGifenc && (!appState.ffmpeg || !appState.isFFmpegLoaded)) {
-      this.setState({ error: "FFmpeg is not loaded yet. Please wait." })
+    const validation = validateActionConfig(config)
+    if (!validation.success) {
+      this.setState({ error: validation.message })
       return
     }
+    const action = validation.config
+    const engines = getEnginesFor(action)
+    this.lastRun = { steps: [action], videoData }
+    // When only FFmpeg can run it, fail before starting; a fallback behind a
+    // faster engine is checked if it's reached (see runEngines).
+    if (engines[0]?.requirements.ffmpeg) {
+      if (!appState.isFFmpegLoaded) {
+        this.setState({ error: "FFmpeg is not loaded yet. Please wait." })
+        return
+      }
+      const budgetError = getMemoryBudgetError([action], videoData)
+      if (budgetError) {
+        this.setFailure(new ProcessingError("out-of-memory", budgetError))
+        return
+      }
+    }
 
-    startProcessing()
+    this.abortController = new AbortController()
+    const untrackProcessing = trackProcessing(() => this.cancel())
     this.setState({
       isProcessing: true,
       progress: 0,
       error: null,
-      isComplete: false,
-      outputUrl: null,
+      failure: null,
+      isCancelled: false,
       processingStartTimeMs: performance.now(),
     })
-    trackProcessingStart(config.type)
+    trackProcessingStart(action.type)
 
     const processingStartMs = performance.now()
 
-    try {
-      if (isSingleFrameExtract) {
-        await this.extractSingleFrame(config, videoData, processingStartMs)
-        return
-      }
-
-      if (isGifWithGifenc) {
-        await this.createGifWithGifenc(config, videoData, processingStartMs)
-        return
-      }
+    const { signal } = this.abortController
 
-      await this.processWithFFmpeg(config, videoData, processingStartMs)
+    try {
+      const output = await this.runEngines(engines, action, videoData, signal)
+      // FFmpeg's outputs were already stored by readOutput and pass through; others
+      // are stored here, with no FFmpeg instance held.
+      await this.completeOutput(action, output, this.getOutputFileName(action, videoData), processingStartMs)
     } catch (err) {
-      const errorMessage = (err as Error).message
-      trackProcessingError(config.type, errorMessage)
-      this.setState({ error: `Error processing video: ${errorMessage}` })
+      this.handleError(action, err)
     } finally {
-      finishProcessing()
+      untrackProcessing()
+      this.abortController = null
       this.setState({ isProcessing: false })
     }
   }
 
-  private async extractSingleFrame(
-    config: ActionConfig,
+  /**
+   * Tries the engines in order until one produces the output; an engine that
+   * declines the file (see ProcessingEngine.canDecline) passes it on. FFmpeg's
+   * memory budget only applies to the FFmpeg engine, so it's checked when that
+   * engine's turn comes.
+   * @param engines - From getEnginesFor
+   */
+  private async runEngines(
+    engines: ProcessingEngine[],
+    config: ParsedActionConfig,
     videoData: VideoData,
-    processingStartMs: number
-  ): Promise<void> {
-    log.info("Starting single frame extraction")
-    const timestampSec = Math.max(0, Number.parseFloat(String(config.params.timestamp || "0")))
-    const format = String(config.params.format || "png")
-    const mimeType = this.getMimeType(format)
-
-    const objectUrl = URL.createObjectURL(videoData.file)
-    try {
-      const video = document.createElement("video")
-      video.preload = "auto"
-      video.muted = true
-      video.src = objectUrl
-
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error("Timeout waiting for video metadata.")), 30000)
-        video.addEventListener("loadedmetadata", () => { clearTimeout(timeout); resolve() }, { once: true })
-        video.addEventListener("error", () => { clearTimeout(timeout); reject(new Error("Failed to load video.")) }, { once: true })
+    signal: AbortSignal
+  ): Promise<Uint8Array | Blob> {
+    for (const engine of engines) {
+      if (engine.requirements.ffmpeg) {
+        if (!getState().isFFmpegLoaded) throw new Error("FFmpeg is not loaded yet. Please wait.")
+        const budgetError = getMemoryBudgetError([config], videoData)
+        if (budgetError) throw new ProcessingError("out-of-memory", budgetError)
+      }
+      log.info("Running %s with %s", config.type, engine.label)
+      const output = await engine.run({
+        config,
+        videoData,
+        signal,
+        onProgress: (p) => this.setState({ progress: Math.round(Math.min(1, Math.max(0, p)) * 100) }),
+        runWithFFmpeg: () => this.runFFmpegAction(config, videoData),
+        createOutputSink: (expectedBytes) => createOutputSink(this.getMimeType(this.getOutputExtension(config)), {
+          saveHandle: this.saveHandle,
+          signal,
+          expectedBytes,
+        }),
       })
+      if (output) return output
+      log.info("%s declined %s, trying the next engine", engine.label, config.type)
+      this.setState({ progress: 0 })
+    }
+    throw new Error(`No engine could run ${config.type} on this video.`)
+  }
 
-      const targetTime = Math.min(timestampSec, Math.max(0, video.duration || timestampSec))
-      await new Promise<void>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error("Timeout seeking to frame.")), 60000)
-        video.addEventListener("seeked", () => {
-          clearTimeout(timeout)
-          const fallback = setTimeout(() => resolve(), 500)
-          if ("requestVideoFrameCallback" in video) {
-            video.requestVideoFrameCallback(() => { clearTimeout(fallback); resolve() })
-          } else {
-            clearTimeout(fallback)
-            resolve()
-          }
-        }, { once: true })
-        video.addEventListener("error", () => { clearTimeout(timeout); reject(new Error("Failed to seek.")) }, { once: true })
-        video.currentTime = targetTime
-      })
+  /**
+   * Runs the action on ffmpeg.wasm as a pool job and returns its output. This
+   * is the FFmpeg engine's runWithFFmpeg.
+   */
+  private async runFFmpegAction(config: ParsedActionConfig, videoData: VideoData): Promise<Uint8Array | Blob> {
+    return this.runJob(config.type, async () => {
+      log.info("Starting processing for: %s", config.type)
+      const input = await this.mountInput(videoData)
+
+      try {
+        const outputExt = this.getOutputExtension(config)
+        const outputFileName = this.scratch!.path(`output.${outputExt}`)
+        await this.runAction(config, input.path, outputFileName, videoData.duration, videoData === getVideoData())
+        return await this.readOutput(config, outputFileName)
+      } finally {
+        await input.release()
+      }
+    })
+  }
 
-      const canvas = document.createElement("canvas")
-      canvas.width = video.videoWidth
-      canvas.height = video.videoHeight
-      const ctx = canvas.getContext("2d")
-      if (!ctx) throw new Error("Unable to render frame.")
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
-
-      const blob = await new Promise<Blob>((resolve, reject) => {
-        const timeout = setTimeout(() => reject(new Error("Timeout encoding frame.")), 30000)
-        canvas.toBlob((result) => {
-          clearTimeout(timeout)
-          if (!result) { reject(new Error("Failed to encode frame.")); return }
-          resolve(result)
-        }, mimeType)
-      })
+  /**
+   * Runs several actions back to back, feeding each stage's output into the
+   * next inside the FFmpeg FS. Consecutive filter-only steps are fused into a
+   * single encode (see planPipeline). Only the final output is published.
+   */
+  async processPipeline(steps: ActionConfig[], options: ProcessOptions = {}): Promise<void> {
+    const appState = getState()
+    this.clearOutput()
+    const videoData = options.videoData ?? getVideoData()
+    this.isAutoDownload = options.autoDownload ?? true
+    this.saveHandle = options.saveHandle
+    const lastStep = steps[steps.length - 1]
+
+    if (!videoData) {
+      this.setState({ error: "No video is loaded yet. Please select a video first." })
+      return
+    }
+    this.lastRun = { steps, videoData }
+    const pipelineError = getPipelineError(steps)
+    if (pipelineError) {
+      this.setState({ error: pipelineError })
+      return
+    }
+    const actions: ParsedActionConfig[] = []
+    for (const [i, step] of steps.entries()) {
+      const validation = validateActionConfig(step)
+      if (!validation.success) {
+        this.setState({ error: `Step ${i + 1} (${step.type}): ${validation.message}` })
+        return
+      }
+      actions.push(validation.config)
+    }
+    if (!appState.isFFmpegLoaded) {
+      this.setState({ error: "FFmpeg is not loaded yet. Please wait." })
+      return
+    }
+    const budgetError = getMemoryBudgetError(actions, videoData)
+    if (budgetError) {
+      this.setFailure(new ProcessingError("out-of-memory", budgetError))
+      return
+    }
 
-      const url = URL.createObjectURL(blob)
-      this.revokeOutputUrl()
-      this.setState({ outputUrl: url, progress: 100, isComplete: true, processingStartTimeMs: null })
+    this.abortController = new AbortController()
+    const untrackProcessing = trackProcessing(() => this.cancel())
+    this.setState({
+      isProcessing: true,
+      progress: 0,
+      error: null,
+      failure: null,
+      isCancelled: false,
+      processingStartTimeMs: performance.now(),
+    })
+    trackProcessingStart(lastStep.type)
 
-      const durationMs = Math.round(performance.now() - processingStartMs)
-      trackProcessingComplete(config.type, durationMs)
+    const processingStartMs = performance.now()
+    const stages = planPipeline(actions)
 
-      this.triggerDownload(url, `${videoData.file.name.replace(/\.[^/.]+$/, "")}_frame.${format}`)
-      trackDownload(config.type, blob.size / (1024 * 1024))
+    try {
+      const data = await this.runJob(lastStep.type, async () => {
+        log.info("Starting pipeline: %s", steps.map((s) => s.type).join(" → "))
+        const scratch = this.scratch!
+        const input = await this.mountInput(videoData)
+
+        try {
+          let inputFileName = input.path
+          let durationSec = videoData.duration
+
+          for (let i = 0; i < stages.length; i++) {
+            const stage = stages[i]
+            const stageLast = stage.steps[stage.steps.length - 1]
+            const isLastStage = i === stages.length - 1
+            const outputExt = this.getOutputExtension(stageLast)
+            const outputFileName = scratch.path(isLastStage ? `output.${outputExt}` : `pipeline_${i}.${outputExt}`)
+            this.progressWindow = { offset: i / stages.length, span: 1 / stages.length }
+
+            if (stage.isFused) {
+              const args = buildFusedArgs(stage.steps, inputFileName, outputFileName)
+              log.info("Running fused pipeline stage %d/%d: %o", i + 1, stages.length, args)
+              await this.exec(args)
+            } else {
+              // Keyframes are only known for the original input, so only a leading trim can use them.
+              await this.runAction(stageLast, inputFileName, outputFileName, durationSec, i === 0 && videoData === getVideoData())
+            }
+
+            if (stageLast.type === "trim") {
+              durationSec = getTotalSegmentDuration(getTrimSegments(stageLast, durationSec))
+            }
+            // The previous intermediate has been read; only keep one stage's worth in memory.
+            if (i > 0) await this.deleteOutputFile(inputFileName)
+            inputFileName = outputFileName
+          }
+
+          return await this.readOutput(lastStep, inputFileName)
+        } finally {
+          await input.release()
+        }
+      })
+      await this.completeOutput(lastStep, data, this.getOutputFileName(lastStep, videoData, true), processingStartMs)
+    } catch (err) {
+      this.handleError(lastStep, err)
     } finally {
-      URL.revokeObjectURL(objectUrl)
+      untrackProcessing()
+      this.abortController = null
+      this.setState({ isProcessing: false })
     }
   }
 
-  private async createGifWithGifenc(
-    config: ActionConfig,
-    videoData: VideoData,
-    processingStartMs: number
-  ): Promise<void> {
-    log.info("Using gifenc for fast GIF creation")
-    const startSec = Number.parseFloat(String(config.params.start || "0"))
-    const endSec = Number.parseFloat(String(config.params.end || "3"))
-    const fps = Number(config.params.fps) || 10
-    const width = Number(config.params.scale) || 480
-
-    const handleProgress = (p: GifProgress) => {
-      if (p.phase === "extracting") {
-        this.setState({ progress: Math.round((p.current / p.total) * 60) })
-      } else {
-        this.setState({ progress: 60 + Math.round((p.current / p.total) * 40) })
-      }
+  /**
+   * Cancels the running job, wherever it is: waiting for a worker, inside an
+   * exec, reading frames or writing the output. Its files are cleaned up and the
+   * processor ends in the cancelled state rather than with an error.
+   */
+  cancel(): void {
+    this.abortController?.abort()
+  }
+
+  /** Records a failed run, or a cancelled one (see cancel). */
+  private handleError(config: ActionConfig, err: unknown): void {
+    const failure = toProcessingError(err, this.abortController?.signal.aborted)
+    if (failure.kind === "cancelled") {
+      log.info("Processing cancelled: %s", config.type)
+      this.setState({ progress: 0, processingStartTimeMs: null, isCancelled: true })
+      return
     }
+    log.error("Processing failed (%s): %o", failure.kind, err)
+    trackProcessingError(config.type, `${failure.kind}: ${failure.message}`)
+    this.setFailure(failure)
+  }
 
-    const blob = await createGifWithGifenc(videoData.file, { startSec, endSec, fps, width }, handleProgress)
-    const url = URL.createObjectURL(blob)
-    this.revokeOutputUrl()
-    this.setState({ outputUrl: url, progress: 100, isComplete: true, processingStartTimeMs: null })
+  private setFailure(failure: ProcessingError): void {
+    this.setState({ error: failure.explanation, failure })
+  }
 
-    const durationMs = Math.round(performance.now() - processingStartMs)
-    trackProcessingComplete(config.type, durationMs)
-    this.triggerDownload(url, `${videoData.file.name.replace(/\.[^/.]+$/, "")}_${config.type}.gif`)
-    trackDownload(config.type, blob.size / (1024 * 1024))
+  /**
+   * Returns a plain-text report of the last failure for bug reports (see
+   * buildDiagnosticReport), or null if the last run didn't fail.
+   */
+  getDiagnosticReport(): string | null {
+    const { failure } = this.state
+    if (!failure) return null
+    const core = getState().ffmpegCore
+    return buildDiagnosticReport(failure, {
+      steps: this.lastRun?.steps ?? [],
+      videoData: this.lastRun?.videoData ?? getVideoData(),
+      engine: core ? describeFFmpegCore(core) : "not loaded",
+    })
   }
 
-  private async processWithFFmpeg(
-    config: ActionConfig,
-    videoData: VideoData,
-    processingStartMs: number
-  ): Promise<void> {
-    const ffmpeg = getState().ffmpeg!
-    if (this.progressHandler) {
-      ffmpeg.off("progress", this.progressHandler)
+  /**
+   * Runs work as an encode job on the FFmpeg pool. While it runs, the job's
+   * instance is available as this.ffmpeg, its working directory as
+   * this.scratch, and its progress drives the bar (through progressWindow).
+   * Everything the job writes belongs in the scratch directory, which is
+   * removed when the job ends however it ends. Aborting this.abortController
+   * cancels it.
+   * @param label - Job label for logs and the job list
+   * @param fn - Work to do with the instance
+   */
+  private runJob<T>(label: string, fn: (ffmpeg: FFmpeg) => Promise<T>): Promise<T> {
+    return runFFmpegJob({ label, priority: "encode", signal: this.abortController?.signal }, async (ffmpeg) => {
+      const scratch = await createScratchDir(ffmpeg, label)
+      this.ffmpeg = ffmpeg
+      this.scratch = scratch
+      this.progressWindow = { offset: 0, span: 1 }
+      const progressHandler = ({ progress: prog }: { progress: number }) => {
+        const { offset, span } = this.progressWindow
+        this.setState({ progress: Math.round((offset + Math.min(1, Math.max(0, prog)) * span) * 100) })
+      }
+      ffmpeg.on("progress", progressHandler)
+      try {
+        return await fn(ffmpeg)
+      } finally {
+        // Instances are reused by other jobs, which mustn't drive this bar.
+        ffmpeg.off("progress", progressHandler)
+        await scratch.release()
+        if (this.ffmpeg === ffmpeg) {
+          this.ffmpeg = null
+          this.scratch = null
+        }
+      }
+    })
+  }
+
+  /**
+   * Runs FFmpeg on the current job's instance, rejecting as soon as the run is
+   * cancelled. A non-zero exit code becomes a classified ProcessingError
+   * carrying the end of FFmpeg's log.
+   */
+  private async exec(args: string[]): Promise<void> {
+    const ffmpeg = this.ffmpeg!
+    const logTail: string[] = []
+    const logHandler = ({ message }: { message: string }) => {
+      logTail.push(message)
+      if (logTail.length > LOG_TAIL_LINES) logTail.shift()
     }
-    this.progressHandler = ({ progress: prog }) => {
-      this.setState({ progress: Math.round(prog * 100) })
+    ffmpeg.on("log", logHandler)
+
+    let exitCode: number
+    try {
+      exitCode = await ffmpeg.exec(args, undefined, { signal: this.abortController?.signal })
+    } catch (err) {
+      if (isJobCancelled(err) || this.abortController?.signal.aborted) throw err
+      throw classifyFFmpegFailure(null, logTail, args, err)
+    } finally {
+      ffmpeg.off("log", logHandler)
     }
-    ffmpeg.on("progress", this.progressHandler)
+    if (exitCode !== 0) throw classifyFFmpegFailure(exitCode, logTail, args)
+  }
 
-    log.info("Starting processing for: %s", config.type)
-    const uint8Array = await ensureVideoBytes()
-    const inputFileName = "input.mp4"
-    await ffmpeg.writeFile(inputFileName, uint8Array)
+  /**
+   * Exposes the video to FFmpeg without copying it into memory. The store's
+   * video is read from its snapshot; other videos (batch items) are read directly.
+   */
+  private async mountInput(videoData: VideoData): Promise<{ path: string; release: () => Promise<void> }> {
+    const ffmpeg = this.ffmpeg!
+    if (videoData === getVideoData()) return mountVideoSource(ffmpeg)
+    const mounted = await mountInputs(ffmpeg, [{ name: "input.mp4", data: videoData.file }])
+    return { path: mounted.paths[0], release: mounted.release }
+  }
+
+  /**
+   * Writes any side inputs an action needs (audio track, clips, overlay,
+   * concat lists) and runs it from inputFileName to outputFileName.
+   */
+  private async runAction(
+    config: ParsedActionConfig,
+    inputFileName: string,
+    outputFileName: string,
+    durationSec: number | undefined,
+    canUseKeyframes: boolean
+  ): Promise<void> {
+    const ffmpeg = this.ffmpeg!
+    const scratch = this.scratch!
 
     if (config.type === "merge") {
-      const audioFile = config.params.audioFile as File | undefined
-      if (!audioFile) throw new Error("Select an audio file to merge before processing.")
-      await ffmpeg.writeFile("audio.input", new Uint8Array(await audioFile.arrayBuffer()))
+      await ffmpeg.writeFile(scratch.path(MERGE_AUDIO_FILE), new Uint8Array(await config.params.audioFile.arrayBuffer()))
     }
 
+    // Clips are mounted like the main input, so they stay out of memory too.
+    let releaseClips: (() => Promise<void>) | null = null
     if (config.type === "combine") {
-      const clips = config.params.clips as File[] | undefined
-      if (!clips || clips.length < 2) throw new Error("Add at least two clips to combine before processing.")
-      const clipNames: string[] = []
-      for (let i = 0; i < clips.length; i++) {
-        const ext = clips[i].name.split(".").pop()
-        const name = `clip_${i}${ext ? `.${ext}` : ""}`
-        await ffmpeg.writeFile(name, new Uint8Array(await clips[i].arrayBuffer()))
-        clipNames.push(name)
+      const mounted = await mountInputs(ffmpeg, config.params.clips.map((clip, i) => {
+        const ext = clip.name.split(".").pop()
+        return { name: `clip_${i}${ext ? `.${ext}` : ""}`, data: clip }
+      }))
+      releaseClips = mounted.release
+      await ffmpeg.writeFile(scratch.path(COMBINE_CONCAT_FILE), new TextEncoder().encode(mounted.paths.map((p) => `file '${p}'`).join("\n")))
+    }
+
+    if (config.type === "trim") {
+      const segments = getTrimSegments(config, durationSec)
+      if (segments.length === 0) throw new Error("The selection removes the whole video. Adjust the ranges so something is kept.")
+      if (segments.length > 1 && config.params.cutMode !== "exact") {
+        await ffmpeg.writeFile(scratch.path(TRIM_CONCAT_FILE), new TextEncoder().encode(buildTrimConcatList(inputFileName, segments)))
       }
-      await ffmpeg.writeFile("concat.txt", new TextEncoder().encode(clipNames.map((n) => `file '${n}'`).join("\n")))
     }
 
-    if (config.type === "overlay" && config.params.overlayFile) {
-      await ffmpeg.writeFile("overlay.png", new Uint8Array(await (config.params.overlayFile as File).arrayBuffer()))
+    if (config.type === "overlay") {
+      await ffmpeg.writeFile(scratch.path(OVERLAY_IMAGE_FILE), new Uint8Array(await config.params.overlayFile.arrayBuffer()))
     }
 
-    const outputExt = this.getOutputExtension(config)
-    const outputFileName = `output.${outputExt}`
-    const args = buildFFmpegArgs(config, inputFileName, outputFileName, videoData.duration)
+    try {
+      if (config.type === "trim" && config.params.cutMode === "exact") {
+        await this.runExactTrim(config, durationSec, canUseKeyframes, inputFileName, outputFileName)
+      } else if (config.type === "compress" && config.params.mode === "target-size") {
+        await this.runTwoPassCompress(config, durationSec, inputFileName, outputFileName)
+      } else {
+        const args = buildFFmpegArgs(config, inputFileName, outputFileName, durationSec, scratch.dir)
 
-    log.info("Running FFmpeg with args: %o", args)
-    await ffmpeg.exec(args)
+        log.info("Running FFmpeg with args: %o", args)
+        await this.exec(args)
+      }
+    } finally {
+      await releaseClips?.()
+    }
+  }
 
-    let url: string
+  /**
+   * Reads an action's output from the FFmpeg FS, zipping frame sequences, and
+   * deletes it there. Other outputs are copied a chunk at a time straight to
+   * where they're stored (see copyFFmpegFile), so they're never held in memory
+   * twice.
+   */
+  private async readOutput(config: ActionConfig, outputFileName: string): Promise<Uint8Array | Blob> {
+    const ffmpeg = this.ffmpeg!
     if (config.type === "frame-extract" && config.params.mode !== "single") {
       const format = String(config.params.format || "png")
-      const entries = await ffmpeg.listDir("/")
-      const frameFiles = entries
-        .filter((e: { name: string; type?: string }) => e.type === "file")
-        .map((e: { name: string }) => e.name)
-        .filter((n: string) => n.startsWith("frame_") && n.endsWith(`.${format}`))
+      const scratch = this.scratch!
+      // Only this job's frames: the scratch directory starts empty.
+      const frameFiles = (await ffmpeg.listDir(scratch.dir))
+        .filter((e) => !e.isDir && e.name.startsWith("frame_") && e.name.endsWith(`.${format}`))
+        .map((e) => e.name)
         .sort()
       if (frameFiles.length === 0) throw new Error("No frames were generated.")
 
       const zip = new JSZip()
       for (const name of frameFiles) {
-        const data = await ffmpeg.readFile(name)
+        const data = await ffmpeg.readFile(scratch.path(name))
         zip.file(name, data instanceof Uint8Array ? data.slice().buffer : data)
+        await this.deleteOutputFile(scratch.path(name))
       }
-      url = URL.createObjectURL(await zip.generateAsync({ type: "blob" }))
-    } else {
-      const outputData = await ffmpeg.readFile(outputFileName)
-      const blobData = outputData instanceof Uint8Array ? outputData.slice().buffer : outputData
-      url = URL.createObjectURL(new Blob([blobData], { type: this.getMimeType(outputExt) }))
+      return await zip.generateAsync({ type: "blob" })
     }
 
+    const signal = this.abortController?.signal
+    const sink = await createOutputSink(this.getMimeType(this.getOutputExtension(config)), { saveHandle: this.saveHandle, signal })
+    try {
+      await copyFFmpegFile(ffmpeg, outputFileName, sink, signal)
+      return await sink.finish()
+    } catch (err) {
+      await sink.abort()
+      throw err
+    } finally {
+      await this.deleteOutputFile(outputFileName)
+    }
+  }
+
+  private async deleteOutputFile(name: string): Promise<void> {
+    try {
+      await this.ffmpeg!.deleteFile(name)
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+
+  /**
+   * Publishes a finished output: stores it (see storeOutput), puts it in state,
+   * tracks completion, and downloads it unless the caller opted out or it was
+   * already saved to a user-chosen file.
+   */
+  private async completeOutput(config: ActionConfig, output: Uint8Array | Blob, fileName: string, processingStartMs: number): Promise<void> {
+    const blob = await storeOutput(output, this.getMimeType(fileName.split(".").pop() ?? ""), this.saveHandle, this.abortController?.signal)
+    const url = URL.createObjectURL(blob)
     this.revokeOutputUrl()
-    this.setState({ outputUrl: url, progress: 100, isComplete: true, processingStartTimeMs: null })
+    this.setState({
+      outputUrl: url,
+      outputBlob: blob,
+      outputFileName: fileName,
+      savedFileName: this.saveHandle?.name ?? null,
+      progress: 100,
+      isComplete: true,
+      processingStartTimeMs: null,
+    })
+
     const durationMs = Math.round(performance.now() - processingStartMs)
     trackProcessingComplete(config.type, durationMs)
-    this.triggerDownload(url, `${videoData.file.name.replace(/\.[^/.]+$/, "")}_${config.type}.${outputExt}`)
-    fetch(url).then((r) => r.blob()).then((b) => trackDownload(config.type, b.size / (1024 * 1024))).catch(() => trackDownload(config.type, 0))
+
+    if (this.saveHandle) {
+      trackDownload(config.type, blob.size / (1024 * 1024))
+    } else if (this.isAutoDownload) {
+      this.triggerDownload(url, fileName)
+      trackDownload(config.type, blob.size / (1024 * 1024))
+    }
   }
 
-  /** Triggers a file download via a temporary <a> element. */
-  download(config: ActionConfig): void {
-    if (!this.state.outputUrl) return
+  /**
+   * Runs a frame-exact trim: each kept segment is split at its keyframes, the
+   * partial GOPs at the cut points are re-encoded, the rest is stream-copied,
+   * and all parts are joined with the concat demuxer.
+   */
+  private async runExactTrim(
+    config: ParsedAction<"trim">,
+    durationSec: number | undefined,
+    canUseKeyframes: boolean,
+    inputFileName: string,
+    outputFileName: string
+  ): Promise<void> {
+    const ffmpeg = this.ffmpeg!
+    const segments = getTrimSegments(config, durationSec)
+    // Keyframes are only probed for the store's video; other inputs are re-encoded whole.
+    const keyframeInfo = canUseKeyframes ? await getKeyframes() : null
+    // Copied H.264 can be joined with freshly encoded H.264; other codecs are re-encoded whole.
+    // Audio is re-encoded to AAC in every part (see buildSmartTrimSteps), so its codec doesn't matter.
+    const canCopy = !!keyframeInfo && keyframeInfo.videoCodec === "h264"
+    const parts = planSmartTrim(segments, keyframeInfo?.timestamps ?? [], canCopy)
+    const steps = buildSmartTrimSteps(parts, inputFileName, this.scratch!.dir)
+
+    // Re-encoded seconds dominate run time, so weight progress by them.
+    const weights = steps.map((s) => (s.part.end - s.part.start) * (s.part.reencode ? 1 : 0.05))
+    const totalWeight = weights.reduce((a, b) => a + b, 0) || 1
+    let doneWeight = 0
+    // Nest inside the caller's window so a pipeline stage stays within its slice.
+    const outer = this.progressWindow
+
+    try {
+      for (let i = 0; i < steps.length; i++) {
+        this.progressWindow = {
+          offset: outer.offset + (doneWeight / totalWeight) * outer.span,
+          span: (weights[i] / totalWeight) * outer.span,
+        }
+        log.info("Running exact trim step %d/%d: %o", i + 1, steps.length, steps[i].args)
+        await this.exec(steps[i].args)
+        doneWeight += weights[i]
+      }
+
+      this.progressWindow = { offset: outer.offset + outer.span, span: 0 }
+      const concatList = steps.map((s) => `file '${s.output}'`).join("\n")
+      const concatFile = this.scratch!.path(TRIM_CONCAT_FILE)
+      await ffmpeg.writeFile(concatFile, new TextEncoder().encode(concatList))
+      const args = ["-f", "concat", "-safe", "0", "-i", concatFile, "-c", "copy", outputFileName]
+      log.info("Joining exact trim parts: %o", args)
+      await this.exec(args)
+    } finally {
+      // The parts add up to a second copy of the output; free them before it's read.
+      for (const step of steps) await this.deleteOutputFile(step.output)
+    }
+  }
+
+  /**
+   * Runs a target-size compress as two x264 passes: an analysis pass that
+   * writes the passlog (left for the scratch directory's cleanup), then the
+   * real encode at the computed bitrate.
+   */
+  private async runTwoPassCompress(
+    config: ParsedAction<"compress">,
+    durationSec: number | undefined,
+    inputFileName: string,
+    outputFileName: string
+  ): Promise<void> {
+    const scratch = this.scratch!
+    const outer = this.progressWindow
+    const firstPassArgs = buildTargetSizePassArgs(config, inputFileName, outputFileName, durationSec, 1, scratch.dir)
+
+    // The analysis pass skips audio and output muxing, so it's the cheaper of the two.
+    this.progressWindow = { offset: outer.offset, span: outer.span * 0.4 }
+    log.info("Running compress pass 1: %o", firstPassArgs)
+    await this.exec(firstPassArgs)
+
+    this.progressWindow = { offset: outer.offset + outer.span * 0.4, span: outer.span * 0.6 }
+    const args = buildFFmpegArgs(config, inputFileName, outputFileName, durationSec, scratch.dir)
+    log.info("Running compress pass 2: %o", args)
+    await this.exec(args)
+  }
+
+  /**
+   * Saves the finished output again. Asks where to save where the browser
+   * supports it and streams the file there; otherwise downloads it via a
+   * temporary <a> element. Must be called from a user gesture.
+   */
+  async download(config: ActionConfig): Promise<void> {
+    const { outputUrl, outputBlob } = this.state
+    if (!outputUrl) return
     const ext = this.getOutputExtension(config)
     const videoData = getVideoData()
-    const name = `${videoData?.file.name.replace(/\.[^/.]+$/, "") || "output"}_${config.type}.${ext}`
-    this.triggerDownload(this.state.outputUrl, name)
+    const name = this.state.outputFileName ?? `${videoData?.file.name.replace(/\.[^/.]+$/, "") || "output"}_${config.type}.${ext}`
+    if (!outputBlob) {
+      this.triggerDownload(outputUrl, name)
+      return
+    }
+    try {
+      await saveBlobAs(outputBlob, name, () => this.triggerDownload(outputUrl, name))
+    } catch (err) {
+      log.warn("Saving output failed, downloading instead: %o", err)
+      this.triggerDownload(outputUrl, name)
+    }
+  }
+
+  /**
+   * Asks the user where to save the output of the given action, for passing
+   * as ProcessOptions.saveHandle. Must be called from a user gesture.
+   * @param config - The action (the last step, for pipelines)
+   * @param videoData - The video that will be processed
+   * @param isPipeline - Whether the action ends a pipeline (affects the name)
+   * @returns The chosen file, or null if the picker isn't available
+   * @throws DOMException "AbortError" if the user dismissed the dialog
+   */
+  async pickSaveLocation(config: ActionConfig, videoData: VideoData, isPipeline = false): Promise<FileSystemFileHandle | null> {
+    return pickSaveFile(this.getOutputFileName(config, videoData, isPipeline), this.getMimeType(this.getOutputExtension(config)))
+  }
+
+  /**
+   * Returns the file name an action's output is saved under.
+   * @param config - The action (the last step, for pipelines)
+   * @param videoData - The processed video
+   * @param isPipeline - Whether the action ends a pipeline
+   */
+  getOutputFileName(config: ActionConfig, videoData: VideoData, isPipeline = false): string {
+    const baseName = videoData.file.name.replace(/\.[^/.]+$/, "")
+    const ext = this.getOutputExtension(config)
+    if (isPipeline) return `${baseName}_pipeline.${ext}`
+    if (config.type === "frame-extract" && config.params.mode === "single") return `${baseName}_frame.${ext}`
+    return `${baseName}_${config.type}.${ext}`
   }
 
   /** Resets processor state without resetting video. */
   reset(): void {
-    const ffmpeg = getState().ffmpeg
-    if (ffmpeg && this.progressHandler) {
-      ffmpeg.off("progress", this.progressHandler)
-      this.progressHandler = null
-    }
     this.revokeOutputUrl()
-    finishProcessing()
-    this.setState({ isComplete: false, progress: 0, outputUrl: null, error: null, processingStartTimeMs: null })
+    this.setState({
+      isComplete: false,
+      progress: 0,
+      outputUrl: null,
+      outputBlob: null,
+      outputFileName: null,
+      savedFileName: null,
+      error: null,
+      failure: null,
+      isCancelled: false,
+      processingStartTimeMs: null,
+    })
+  }
+
+  /**
+   * Drops the last run's output as a new one starts, so a run that fails
+   * before it gets going doesn't leave the old output on offer.
+   */
+  private clearOutput(): void {
+    this.revokeOutputUrl()
+    this.setState({ isComplete: false, outputUrl: null, outputBlob: null, outputFileName: null, savedFileName: null })
   }
 
   private triggerDownload(url: string, filename: string): void {
@@ -358,62 +796,95 @@ export class VideoProcessor {
   }
 }
 
-/** Builds FFmpeg command-line arguments for a given action config. */
-export function buildFFmpegArgs(config: ActionConfig, input: string, output: string, duration?: number): string[] {
+/**
+ * Builds one pass of a two-pass, target-size compress. The video bitrate is
+ * derived from the target size, the duration and the audio bitrate.
+ * @param workDir - Directory for the pass log (see buildFFmpegArgs)
+ * @throws If the target is too small to encode the video at a usable bitrate
+ */
+export function buildTargetSizePassArgs(
+  config: ParsedAction<"compress">,
+  input: string,
+  output: string,
+  duration: number | undefined,
+  pass: 1 | 2,
+  workDir = ""
+): string[] {
+  const { targetSizeMB = 0, audioBitrateKbps, preset } = config.params
+  const videoBitrateKbps = computeTargetVideoBitrateKbps(targetSizeMB, duration || 0, audioBitrateKbps)
+  if (videoBitrateKbps < MIN_VIDEO_BITRATE_KBPS) {
+    throw new Error(`A ${targetSizeMB} MB target is too small for a video this long. Try at least ${Math.ceil(getMinimumTargetSizeMB(duration || 0, audioBitrateKbps))} MB or a lower audio bitrate.`)
+  }
+
+  const videoArgs = ["-c:v", "libx264", "-preset", preset, "-b:v", `${videoBitrateKbps}k`, "-pass", String(pass), "-passlogfile", inWorkDir(workDir, TWO_PASS_LOG_PREFIX)]
+  if (pass === 1) return ["-i", input, ...videoArgs, "-an", "-f", "null", "-"]
+  return ["-i", input, ...videoArgs, "-c:a", "aac", "-b:a", `${audioBitrateKbps}k`, output]
+}
+
+/** Returns the path of a side file in a job's working directory, or the bare name without one. */
+function inWorkDir(workDir: string, name: string): string {
+  return workDir ? `${workDir}/${name}` : name
+}
+
+/**
+ * Builds FFmpeg command-line arguments for a given action config.
+ * @param workDir - Directory holding the action's side files (concat lists,
+ *   merge audio, overlay image) and frame sequences; the job's scratch directory
+ */
+export function buildFFmpegArgs(config: ParsedActionConfig, input: string, output: string, duration?: number, workDir = ""): string[] {
   switch (config.type) {
     case "trim": {
-      const startSec = Number.parseFloat(String(config.params.start || "0"))
-      const endSec = Number.parseFloat(String(config.params.end || String(duration || 0)))
+      // Fast (keyframe) cuts only; exact cuts take several runs, see runExactTrim.
+      const segments = getTrimSegments(config, duration)
+      if (segments.length > 1) {
+        return ["-f", "concat", "-safe", "0", "-i", inWorkDir(workDir, TRIM_CONCAT_FILE), "-c", "copy", "-avoid_negative_ts", "make_zero", output]
+      }
+      const { start: startSec, end: endSec } = segments[0] ?? { start: 0, end: duration || 0 }
       return ["-ss", String(startSec), "-t", String(Math.max(0, endSec - startSec)), "-i", input, "-c", "copy", output]
     }
     case "convert": {
-      const codec = String(config.params.codec || "libx264")
+      const { codec } = config.params
       return codec === "copy" ? ["-i", input, "-c", "copy", output] : ["-i", input, "-c:v", codec, "-c:a", "copy", output]
     }
     case "compress":
-      return ["-i", input, "-vcodec", "libx264", "-crf", String(config.params.crf || 23), "-preset", String(config.params.preset || "medium"), "-c:a", "copy", output]
+      // Target-size runs a first pass before this one, see runTwoPassCompress.
+      if (config.params.mode === "target-size") return buildTargetSizePassArgs(config, input, output, duration, 2, workDir)
+      return ["-i", input, "-vcodec", "libx264", "-crf", String(config.params.crf), "-preset", config.params.preset, "-c:a", "copy", output]
     case "extract-audio":
       if (config.params.extractMode === "video") return ["-i", input, "-an", "-c:v", "copy", output]
-      return ["-i", input, "-vn", "-acodec", config.params.format === "mp3" ? "libmp3lame" : "aac", "-b:a", String(config.params.bitrate || "192k"), output]
-    case "gif":
-      return ["-i", input, "-ss", String(config.params.start || "0"), "-t", String(Number.parseFloat(String(config.params.end || "3")) - Number.parseFloat(String(config.params.start || "0"))), "-vf", `fps=${config.params.fps || 10},scale=${config.params.scale || 480}:-1:flags=lanczos`, output]
+      return ["-i", input, "-vn", "-acodec", config.params.format === "mp3" ? "libmp3lame" : "aac", "-b:a", config.params.bitrate, output]
+    case "gif": {
+      const { start, end, fps, scale } = config.params
+      return ["-i", input, "-ss", String(start), "-t", String(end - start), "-vf", `fps=${fps},scale=${scale}:-1:flags=lanczos`, output]
+    }
     case "resize":
-      return ["-i", input, "-vf", `scale=${config.params.width || -1}:${config.params.height || -1}`, "-c:v", "libx264", "-c:a", "copy", output]
+      return ["-i", input, "-vf", `scale=${config.params.width ?? -1}:${config.params.height ?? -1}`, "-c:v", "libx264", "-c:a", "copy", output]
     case "frame-extract": {
-      const format = String(config.params.format || "png")
-      if (config.params.mode === "single") return ["-ss", String(config.params.timestamp || "0"), "-i", input, "-frames:v", "1", output]
-      const interval = Number.parseFloat(String(config.params.interval || "1"))
-      if (config.params.mode === "interval" && interval > 0) return ["-i", input, "-vf", `fps=1/${interval}`, `frame_%04d.${format}`]
-      return ["-i", input, "-vsync", "0", `frame_%04d.${format}`]
+      const { mode, interval, format } = config.params
+      if (mode === "single") return ["-ss", String(config.params.timestamp), "-i", input, "-frames:v", "1", output]
+      const pattern = inWorkDir(workDir, `frame_%04d.${format}`)
+      if (mode === "interval") return ["-i", input, "-vf", `fps=1/${interval}`, pattern]
+      return ["-i", input, "-vsync", "0", pattern]
     }
     case "normalize-audio":
-      return ["-i", input, "-af", `loudnorm=I=${config.params.targetLoudnessLufs || -16}:TP=${config.params.truePeakDb || -1.5}:LRA=${config.params.loudnessRangeLu || 11}`, "-c:v", "copy", "-c:a", "aac", output]
+      return ["-i", input, "-af", buildLoudnormFilter(config.params), "-c:v", "copy", "-c:a", "aac", output]
     case "rotate": {
-      const rotation = Number(config.params.rotation || 0)
+      const { rotation } = config.params
       const hasFlip = config.params.isFlipHorizontal || config.params.isFlipVertical
       if (config.params.isLosslessFormat && !hasFlip) {
         if (rotation === 0) return ["-i", input, "-c", "copy", output]
         return ["-i", input, "-c", "copy", "-metadata:s:v", `rotate=${rotation}`, output]
       }
-      const filters: string[] = []
-      if (rotation === 90) filters.push("transpose=1")
-      else if (rotation === 180) filters.push("transpose=1,transpose=1")
-      else if (rotation === 270) filters.push("transpose=2")
-      if (config.params.isFlipHorizontal) filters.push("hflip")
-      if (config.params.isFlipVertical) filters.push("vflip")
+      const filters = getRotateFilters(config.params)
       if (filters.length === 0) return ["-i", input, "-c", "copy", output]
       return ["-i", input, "-vf", filters.join(","), "-c:v", "libx264", "-c:a", "copy", output]
     }
     case "merge":
-      return ["-i", input, "-i", "audio.input", "-map", "0:v:0", "-map", "1:a:0", "-shortest", "-c:v", "copy", "-c:a", "aac", output]
+      return ["-i", input, "-i", inWorkDir(workDir, MERGE_AUDIO_FILE), "-map", "0:v:0", "-map", "1:a:0", "-shortest", "-c:v", "copy", "-c:a", "aac", output]
     case "combine":
-      return ["-f", "concat", "-safe", "0", "-i", "concat.txt", "-c", "copy", output]
+      return ["-f", "concat", "-safe", "0", "-i", inWorkDir(workDir, COMBINE_CONCAT_FILE), "-c", "copy", output]
     case "overlay": {
-      const position = String(config.params.position || "top-left")
-      const scalePct = Number(config.params.scalePct || 100)
-      const opacityPct = Number(config.params.opacityPct || 100)
-      const offsetX = Number(config.params.offsetX || 10)
-      const offsetY = Number(config.params.offsetY || 10)
+      const { position, scalePct, opacityPct, offsetX, offsetY } = config.params
       let xExpr: string, yExpr: string
       switch (position) {
         case "top-right": xExpr = `W-w-${offsetX}`; yExpr = String(offsetY); break
@@ -426,7 +897,7 @@ export function buildFFmpegArgs(config: ActionConfig, input: string, output: str
       const overlayInput = scalePct !== 100 ? "[ovr]" : "[1:v]"
       const opacityFilter = opacityPct !== 100 ? `format=rgba,colorchannelmixer=aa=${opacityPct / 100}` : ""
       const overlayInputWithOpacity = opacityFilter ? `${overlayInput}${opacityFilter}[ovr2];[0:v][ovr2]` : `[0:v]${overlayInput}`
-      return ["-i", input, "-i", "overlay.png", "-filter_complex", `${scaleFilter}${overlayInputWithOpacity}overlay=${xExpr}:${yExpr}`, "-c:v", "libx264", "-c:a", "copy", output]
+      return ["-i", input, "-i", inWorkDir(workDir, OVERLAY_IMAGE_FILE), "-filter_complex", `${scaleFilter}${overlayInputWithOpacity}overlay=${xExpr}:${yExpr}`, "-c:v", "libx264", "-c:a", "copy", output]
     }
     default:
       return ["-i", input, output]
@@ -0,0 +1,311 @@
+import type { InputVideoTrack, InputAudioTrack, AudioCodec } from "mediabunny"
+import type { ParsedActionConfig } from "./action-params"
+import type { OutputSink } from "./output-storage"
+import { createLogger } from "./logger"
+
+const log = createLogger("webcodecs-engine")
+
+/** Frames allowed to wait in the decoder or encoder before reading more input. */
+const MAX_CODEC_QUEUE = 8
+
+/** Seconds between forced keyframes, so the output stays seekable. */
+const KEYFRAME_INTERVAL_SEC = 2
+
+/**
+ * Bits per pixel per frame at CRF 23, for turning a CRF into a bitrate.
+ * Hardware encoders don't take a CRF; x264 at CRF 23 lands near this for
+ * typical camera and screen footage.
+ */
+const BITS_PER_PIXEL_AT_CRF_23 = 0.08
+
+/** Frame rate assumed when the track doesn't say. */
+const DEFAULT_FPS = 30
+
+export interface WebCodecsRunOptions {
+  /** Where the MP4 is written as it's muxed (see createOutputSink). */
+  output: OutputSink
+  /** Called with 0..1 as frames are encoded. */
+  onProgress?: (progress: number) => void
+  /** Aborting stops the run and rejects with an AbortError. */
+  signal?: AbortSignal
+}
+
+/** A transcode the browser can do with WebCodecs, ready to run. */
+export interface WebCodecsJob {
+  /**
+   * Transcodes the video to an MP4 (H.264, audio copied), streaming it into
+   * the output sink. On failure or abort the sink is discarded.
+   * @returns The finished output (see OutputSink.finish)
+   */
+  run: (options: WebCodecsRunOptions) => Promise<Blob>
+  /** Releases the input if the job won't be run. run() releases it itself. */
+  dispose: () => void
+}
+
+/** Encoder settings derived from the action. */
+interface EncodePlan {
+  width: number
+  height: number
+  bitrate: number
+  fps: number
+  encoderConfig: VideoEncoderConfig
+}
+
+/**
+ * Returns true if the action is one the WebCodecs engine can do at all:
+ * re-encodes that change nothing but the video resolution or quality. Whether
+ * this browser and file can is decided by prepareWebCodecsJob.
+ * @param config - Action to check
+ */
+export function isWebCodecsAction(config: ParsedActionConfig): boolean {
+  if (typeof VideoEncoder === "undefined" || typeof VideoDecoder === "undefined") return false
+  if (config.type === "resize") return true
+  return config.type === "compress" && config.params.mode !== "target-size"
+}
+
+/**
+ * Checks whether the browser can transcode this file for this action with
+ * WebCodecs (hardware codecs where available, many times faster than
+ * ffmpeg.wasm's software x264) and prepares the job if so. The file's
+ * container must be readable, its video decodable and its audio storable in
+ * MP4 as is; otherwise the action should go to FFmpeg.
+ * @param config - Action to run (see isWebCodecsAction)
+ * @param file - Video to read
+ * @returns The prepared job, or null if FFmpeg has to do it
+ */
+export async function prepareWebCodecsJob(config: ParsedActionConfig, file: Blob): Promise<WebCodecsJob | null> {
+  if (!isWebCodecsAction(config)) return null
+
+  const { Input, BlobSource, ALL_FORMATS, Mp4OutputFormat } = await import("mediabunny")
+  const input = new Input({ source: new BlobSource(file), formats: ALL_FORMATS })
+  try {
+    if (!(await input.canRead())) return reject(input, "container not readable")
+
+    const videoTrack = await input.getPrimaryVideoTrack()
+    if (!videoTrack) return reject(input, "no video track")
+    // Rotated videos are scaled after rotation by FFmpeg; keep the two engines' outputs identical.
+    if ((await videoTrack.getRotation()) !== 0) return reject(input, "rotated video")
+
+    const decoderConfig = await videoTrack.getDecoderConfig()
+    if (!decoderConfig || !(await VideoDecoder.isConfigSupported(decoderConfig)).supported) {
+      return reject(input, `video codec ${await videoTrack.getCodec()} not decodable`)
+    }
+
+    const audioTrack = await input.getPrimaryAudioTrack()
+    const audioCodec = audioTrack ? await audioTrack.getCodec() : null
+    if (audioTrack && (!audioCodec || !new Mp4OutputFormat().getSupportedAudioCodecs().includes(audioCodec))) {
+      return reject(input, `audio codec ${audioCodec} can't be copied into MP4`)
+    }
+
+    const plan = await planEncode(config, videoTrack)
+    if (!plan || !(await VideoEncoder.isConfigSupported(plan.encoderConfig)).supported) {
+      return reject(input, "no suitable H.264 encoder")
+    }
+
+    log.info("Using WebCodecs for %s: %dx%d at %d kb/s", config.type, plan.width, plan.height, Math.round(plan.bitrate / 1000))
+    return {
+      run: async (options) => {
+        try {
+          return await transcode(videoTrack, decoderConfig, audioTrack && audioCodec ? { track: audioTrack, codec: audioCodec } : null, plan, options)
+        } catch (err) {
+          await options.output.abort()
+          throw err
+        } finally {
+          input.dispose()
+        }
+      },
+      dispose: () => input.dispose(),
+    }
+  } catch (err) {
+    log.warn("WebCodecs capability check failed: %o", err)
+    input.dispose()
+    return null
+  }
+}
+
+function reject(input: { dispose: () => void }, reason: string): null {
+  log.info("WebCodecs not usable (%s), using FFmpeg", reason)
+  input.dispose()
+  return null
+}
+
+/** Works out the output size, bitrate and encoder config for the action. */
+async function planEncode(config: ParsedActionConfig, track: InputVideoTrack): Promise<EncodePlan | null> {
+  const sourceWidth = await track.getDisplayWidth()
+  const sourceHeight = await track.getDisplayHeight()
+  const stats = await track.computePacketStats(100)
+  const fps = stats.averagePacketRate > 0 ? stats.averagePacketRate : DEFAULT_FPS
+
+  let width = sourceWidth
+  let height = sourceHeight
+  if (config.type === "resize") {
+    // Same rules as FFmpeg's scale filter: -1 (or empty) keeps the aspect ratio.
+    const requestedWidth = config.params.width ?? -1
+    const requestedHeight = config.params.height ?? -1
+    if (requestedWidth > 0 && requestedHeight > 0) {
+      width = requestedWidth
+      height = requestedHeight
+    } else if (requestedWidth > 0) {
+      width = requestedWidth
+      height = (requestedWidth * sourceHeight) / sourceWidth
+    } else if (requestedHeight > 0) {
+      height = requestedHeight
+      width = (requestedHeight * sourceWidth) / sourceHeight
+    }
+  }
+  // H.264 needs even dimensions.
+  width = Math.max(2, Math.round(width / 2) * 2)
+  height = Math.max(2, Math.round(height / 2) * 2)
+
+  const crf = config.type === "compress" ? config.params.crf : 23
+  const bitsPerPixel = BITS_PER_PIXEL_AT_CRF_23 * Math.pow(2, (23 - crf) / 6)
+  let bitrate = width * height * fps * bitsPerPixel
+  // Never spend more bits than the source had (scaled to the new size); that only makes the file bigger.
+  if (stats.averageBitrate > 0) {
+    bitrate = Math.min(bitrate, stats.averageBitrate * ((width * height) / (sourceWidth * sourceHeight)))
+  }
+  bitrate = Math.max(100_000, Math.round(bitrate))
+
+  return {
+    width,
+    height,
+    bitrate,
+    fps,
+    encoderConfig: {
+      codec: getAvcCodecString(width, height),
+      width,
+      height,
+      bitrate,
+      bitrateMode: "variable",
+      framerate: fps,
+      // Annex B would need converting; "avc" gives the description MP4 wants.
+      avc: { format: "avc" },
+    },
+  }
+}
+
+/**
+ * Returns an H.264 High profile codec string with a level that fits the
+ * frame size: 3.1 up to 720p, 4.0 up to 1080p, 5.1 up to 4K, 5.2 beyond.
+ */
+function getAvcCodecString(width: number, height: number): string {
+  const pixels = width * height
+  const level = pixels <= 1280 * 720 ? 0x1f : pixels <= 2048 * 1088 ? 0x28 : pixels <= 4096 * 2176 ? 0x33 : 0x34
+  return `avc1.6400${level.toString(16)}`
+}
+
+/** Decodes, scales and re-encodes the video track while copying the audio packets. */
+async function transcode(
+  videoTrack: InputVideoTrack,
+  decoderConfig: VideoDecoderConfig,
+  audio: { track: InputAudioTrack; codec: AudioCodec } | null,
+  plan: EncodePlan,
+  options: WebCodecsRunOptions
+): Promise<Blob> {
+  const { signal, onProgress } = options
+  const {
+    Output, Mp4OutputFormat, StreamTarget, EncodedPacketSink, EncodedPacket, EncodedVideoPacketSource, EncodedAudioPacketSource,
+  } = await import("mediabunny")
+
+  // Written in chunks as it's muxed; the moov box goes at the end, so nothing is held back in memory.
+  const target = new StreamTarget(options.output.writable, { chunked: true })
+  const output = new Output({ format: new Mp4OutputFormat(), target })
+  const videoSource = new EncodedVideoPacketSource("avc")
+  output.addVideoTrack(videoSource, { frameRate: plan.fps })
+  const audioSource = audio ? new EncodedAudioPacketSource(audio.codec) : null
+  if (audio && audioSource) output.addAudioTrack(audioSource)
+  await output.start()
+
+  const durationSec = await videoTrack.computeDuration()
+  const firstTimestampSec = await videoTrack.getFirstTimestamp()
+  const keyframeEvery = Math.max(1, Math.round(plan.fps * KEYFRAME_INTERVAL_SEC))
+  // Decoded frames are only scaled when the size changes.
+  const canvas = plan.width !== (await videoTrack.getDisplayWidth()) || plan.height !== (await videoTrack.getDisplayHeight())
+    ? new OffscreenCanvas(plan.width, plan.height)
+    : null
+  const ctx = canvas?.getContext("2d") ?? null
+
+  let codecError: unknown = null
+  let frameIndex = 0
+  // Muxer writes are chained so packets go in in the order the encoder produced them.
+  let writes: Promise<void> = Promise.resolve()
+
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => {
+      const packet = EncodedPacket.fromEncodedChunk(chunk)
+      writes = writes.then(() => videoSource.add(packet, meta))
+    },
+    error: (err) => { codecError ??= err },
+  })
+  encoder.configure(plan.encoderConfig)
+
+  const decoder = new VideoDecoder({
+    output: (frame) => {
+      try {
+        let encoded = frame
+        if (canvas && ctx) {
+          ctx.drawImage(frame, 0, 0, plan.width, plan.height)
+          encoded = new VideoFrame(canvas, { timestamp: frame.timestamp, duration: frame.duration ?? undefined })
+          frame.close()
+        }
+        const timestampSec = encoded.timestamp / 1e6
+        encoder.encode(encoded, { keyFrame: frameIndex % keyframeEvery === 0 })
+        encoded.close()
+        frameIndex++
+        if (durationSec > 0) onProgress?.(Math.min(1, (timestampSec - firstTimestampSec) / durationSec))
+      } catch (err) {
+        codecError ??= err
+        frame.close()
+      }
+    },
+    error: (err) => { codecError ??= err },
+  })
+  decoder.configure(decoderConfig)
+
+  const checkState = () => {
+    signal?.throwIfAborted()
+    if (codecError) throw codecError
+  }
+
+  const copyAudio = async () => {
+    if (!audio || !audioSource) return
+    const decoderConfig = await audio.track.getDecoderConfig()
+    let isFirst = true
+    for await (const packet of new EncodedPacketSink(audio.track).packets()) {
+      checkState()
+      await audioSource.add(packet, isFirst && decoderConfig ? { decoderConfig } : undefined)
+      isFirst = false
+    }
+  }
+
+  const transcodeVideo = async () => {
+    for await (const packet of new EncodedPacketSink(videoTrack).packets()) {
+      checkState()
+      decoder.decode(packet.toEncodedVideoChunk())
+      // Backpressure: don't read far ahead of what the codecs can take.
+      while (decoder.decodeQueueSize > MAX_CODEC_QUEUE || encoder.encodeQueueSize > MAX_CODEC_QUEUE) {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        checkState()
+      }
+    }
+    await decoder.flush()
+    await encoder.flush()
+    checkState()
+    await writes
+  }
+
+  try {
+    await Promise.all([transcodeVideo(), copyAudio()])
+    await output.finalize()
+  } catch (err) {
+    await output.cancel().catch(() => {})
+    throw err
+  } finally {
+    if (decoder.state !== "closed") decoder.close()
+    if (encoder.state !== "closed") encoder.close()
+  }
+
+  const blob = await options.output.finish()
+  log.info("WebCodecs transcode done: %d frames, %d bytes", frameIndex, blob.size)
+  return blob
+}
@@ -2,6 +2,10 @@ import "./style.css"
 import { createLayout } from "./components/layout"
 import { initRouter } from "./router"
 import { preloadFFmpeg } from "./lib/ffmpeg-loader"
+import { registerServiceWorker } from "./lib/service-worker"
+import { initFileLaunchHandler } from "./lib/file-launch"
+import { initSessionPersistence } from "./lib/session"
+import { createSessionRestoreBanner } from "./components/session-restore-banner"
 
 declare const __BUILD_TIME__: string
 
@@ -17,5 +21,16 @@ app.appendChild(layout.element)
 // Start routing
 initRouter()
 
+// Open videos the installed app was launched with
+initFileLaunchHandler()
+
+// Save the session as the user works, and offer the last one back after a reload or crash
+initSessionPersistence().then((saved) => {
+  if (saved) document.body.appendChild(createSessionRestoreBanner(saved).element)
+})
+
 // Preload FFmpeg in background
 preloadFFmpeg()
+
+// Cache the app for offline use
+registerServiceWorker()
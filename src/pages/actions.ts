@@ -3,6 +3,7 @@ import { getVideoData } from "../store"
 import { navigate, actionTypePath } from "../router"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
+import { createPipelineBuilder } from "../components/pipeline-builder"
 import { trackActionSelect } from "../lib/analytics"
 import { iconSvg } from "../lib/icons"
 import { formatFileSize } from "../lib/file-utils"
@@ -72,6 +73,24 @@ export default function createActionsPage(): Component {
     const backRow = document.createElement("div")
     backRow.className = "flex items-center justify-between"
     backRow.appendChild(backBtn.element)
+
+    const backRowActions = document.createElement("div")
+    backRowActions.className = "flex items-center gap-1"
+
+    const mediaInfoBtn = document.createElement("button")
+    mediaInfoBtn.className =
+      "inline-flex items-center justify-center rounded-md text-sm font-medium hover:bg-accent hover:text-accent-foreground h-9 px-3"
+    mediaInfoBtn.innerHTML = `${iconSvg("Info", 16, "w-4 h-4 mr-2")} Media info`
+    mediaInfoBtn.addEventListener("click", () => navigate(actionTypePath["media-info"]))
+    backRowActions.appendChild(mediaInfoBtn)
+
+    const batchBtn = document.createElement("button")
+    batchBtn.className =
+      "inline-flex items-center justify-center rounded-md text-sm font-medium hover:bg-accent hover:text-accent-foreground h-9 px-3"
+    batchBtn.innerHTML = `${iconSvg("Layers", 16, "w-4 h-4 mr-2")} Batch mode`
+    batchBtn.addEventListener("click", () => navigate("/batch"))
+    backRowActions.appendChild(batchBtn)
+    backRow.appendChild(backRowActions)
     inner.appendChild(backRow)
 
     // Video info card with thumbnail
@@ -138,6 +157,11 @@ export default function createActionsPage(): Component {
       grid.appendChild(actionCard)
     }
     inner.appendChild(grid)
+
+    const pipelineBuilder = createPipelineBuilder()
+    activeChildren.push(pipelineBuilder)
+    inner.appendChild(pipelineBuilder.element)
+
     container.appendChild(inner)
   }
 
@@ -0,0 +1,238 @@
+import type { Component } from "../types"
+import { createBackButton } from "../components/back-button"
+import { createActionSettingsForm } from "../components/action-settings-form"
+import { createBatchQueue, type BatchItem } from "../lib/batch-queue"
+import { batchActions, getDefaultBatchParams, getBatchSettingErrors, type BatchActionDefinition } from "../lib/batch-actions"
+import { trackActionSelect } from "../lib/analytics"
+import { formatFileSize } from "../lib/file-utils"
+import { iconSvg } from "../lib/icons"
+
+const STATUS_LABELS: Record<BatchItem["status"], string> = {
+  pending: "Waiting",
+  processing: "Processing",
+  done: "Done",
+  error: "Failed",
+  cancelled: "Cancelled",
+}
+
+/**
+ * Batch page for applying one action to many files.
+ * Files are dropped or picked in bulk, the action and its settings are chosen
+ * once, and a queue processes the files one after another with per-file
+ * progress and errors. Outputs download individually or as a single ZIP.
+ */
+export default function createBatchPage(): Component {
+  const container = document.createElement("div")
+  container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
+
+  const queue = createBatchQueue()
+  let activeChildren: Component[] = []
+  let settingsForm: Component | null = null
+  let selectedAction: BatchActionDefinition = batchActions[0]
+  let params: Record<string, unknown> = getDefaultBatchParams(selectedAction)
+
+  const inner = document.createElement("div")
+  inner.className = "max-w-4xl mx-auto space-y-6"
+
+  const backBtn = createBackButton("/", "Back")
+  activeChildren.push(backBtn)
+  inner.appendChild(backBtn.element)
+
+  const header = document.createElement("div")
+  header.className = "space-y-2"
+  header.innerHTML = `
+    <h3 class="text-2xl font-semibold">Batch Processing</h3>
+    <p class="text-muted-foreground">Apply one action to many videos. Files are processed one after another, entirely in your browser.</p>
+  `
+  inner.appendChild(header)
+
+  // Drop zone
+  const dropzone = document.createElement("label")
+  dropzone.htmlFor = "batch-file-input"
+  dropzone.className =
+    "relative flex flex-col items-center justify-center w-full min-h-[160px] rounded-2xl border-2 border-dashed border-border hover:border-muted-foreground/50 hover:bg-muted/50 cursor-pointer transition-all duration-300"
+  dropzone.innerHTML = `
+    <input id="batch-file-input" type="file" accept="video/*" multiple class="sr-only" />
+    <div class="flex items-center justify-center w-12 h-12 rounded-2xl mb-3 bg-muted">
+      ${iconSvg("Upload", 24, "h-6 w-6 text-muted-foreground")}
+    </div>
+    <p class="text-base font-medium text-foreground">Drag and drop videos</p>
+    <p class="text-muted-foreground mt-1 text-sm">or click to choose several files</p>
+  `
+  inner.appendChild(dropzone)
+
+  const fileInput = dropzone.querySelector("#batch-file-input") as HTMLInputElement
+  fileInput.addEventListener("change", () => {
+    queue.addFiles(Array.from(fileInput.files || []))
+    fileInput.value = ""
+  })
+  dropzone.addEventListener("dragover", (e) => { e.preventDefault() })
+  dropzone.addEventListener("drop", (e) => {
+    e.preventDefault()
+    const files = Array.from((e as DragEvent).dataTransfer?.files || []).filter((f) => f.type.startsWith("video/"))
+    queue.addFiles(files)
+  })
+
+  // Action + settings
+  const settingsPanel = document.createElement("div")
+  settingsPanel.className = "bg-secondary/50 rounded-lg p-6 space-y-4"
+  settingsPanel.innerHTML = `
+    <div class="space-y-2">
+      <label for="batch-action" class="text-sm font-medium leading-none">Action</label>
+      <select id="batch-action" class="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+        ${batchActions.map((a) => `<option value="${a.type}">${a.label}</option>`).join("")}
+      </select>
+    </div>
+    <div id="batch-settings"></div>
+  `
+  inner.appendChild(settingsPanel)
+
+  const actionSelect = settingsPanel.querySelector("#batch-action") as HTMLSelectElement
+  const settingsContainer = settingsPanel.querySelector("#batch-settings") as HTMLElement
+  actionSelect.addEventListener("change", () => {
+    selectedAction = batchActions.find((a) => a.type === actionSelect.value) ?? batchActions[0]
+    params = getDefaultBatchParams(selectedAction)
+    trackActionSelect(selectedAction.type)
+    renderSettings()
+    renderControls()
+  })
+
+  // Queue list and controls
+  const listPanel = document.createElement("div")
+  listPanel.className = "space-y-2"
+  inner.appendChild(listPanel)
+
+  const controls = document.createElement("div")
+  controls.className = "space-y-3"
+  inner.appendChild(controls)
+
+  container.appendChild(inner)
+
+  function renderSettings(): void {
+    settingsForm?.destroy()
+    settingsContainer.innerHTML = ""
+    settingsForm = createActionSettingsForm(selectedAction, params, renderControls)
+    settingsContainer.appendChild(settingsForm.element)
+  }
+
+  function renderList(): void {
+    const items = queue.getItems()
+    listPanel.innerHTML = ""
+    if (items.length === 0) return
+
+    const totalSize = items.reduce((sum, item) => sum + item.file.size, 0)
+    const summary = document.createElement("p")
+    summary.className = "text-sm text-muted-foreground"
+    summary.textContent = `${items.length} file${items.length === 1 ? "" : "s"} · ${formatFileSize(totalSize)}`
+    listPanel.appendChild(summary)
+
+    for (const item of items) {
+      const row = document.createElement("div")
+      row.className = "flex items-center gap-3 p-4 bg-background rounded-lg border border-border"
+      const statusClass =
+        item.status === "done" ? "text-green-500" : item.status === "error" ? "text-destructive" : "text-muted-foreground"
+      row.innerHTML = `
+        <div class="flex-1 min-w-0 space-y-1">
+          <p class="font-medium truncate">${item.file.name}</p>
+          <p class="text-sm ${statusClass}">
+            ${STATUS_LABELS[item.status]}${item.status === "processing" ? ` · ${item.progress}%` : ""} · ${formatFileSize(item.file.size)}
+          </p>
+          ${item.status === "processing" ? `
+            <div class="h-1.5 bg-secondary rounded-full overflow-hidden">
+              <div class="h-full bg-accent transition-all duration-300" style="width:${item.progress}%"></div>
+            </div>` : ""}
+          ${item.error ? `<p class="text-xs text-destructive">${item.error}</p>` : ""}
+        </div>
+        <div class="flex items-center gap-2" data-actions></div>
+      `
+
+      const actions = row.querySelector("[data-actions]") as HTMLElement
+      if (item.output) {
+        const downloadBtn = document.createElement("button")
+        downloadBtn.className =
+          "inline-flex items-center justify-center rounded-md text-sm font-medium hover:bg-accent hover:text-accent-foreground h-9 w-9"
+        downloadBtn.setAttribute("aria-label", `Download ${item.output.fileName}`)
+        downloadBtn.innerHTML = iconSvg("Download", 16, "w-4 h-4")
+        downloadBtn.addEventListener("click", () => queue.downloadItem(item.id))
+        actions.appendChild(downloadBtn)
+      }
+      if (item.status !== "processing" && !queue.isRunning()) {
+        const removeBtn = document.createElement("button")
+        removeBtn.className =
+          "inline-flex items-center justify-center rounded-md text-sm font-medium hover:bg-accent hover:text-accent-foreground h-9 w-9"
+        removeBtn.setAttribute("aria-label", `Remove ${item.file.name}`)
+        removeBtn.innerHTML = iconSvg("X", 16, "w-4 h-4")
+        removeBtn.addEventListener("click", () => queue.removeItem(item.id))
+        actions.appendChild(removeBtn)
+      }
+
+      listPanel.appendChild(row)
+    }
+  }
+
+  function renderControls(): void {
+    const items = queue.getItems()
+    const isRunning = queue.isRunning()
+    const doneCount = items.filter((i) => i.status === "done").length
+    const failedCount = items.filter((i) => i.status === "error").length
+    const remainingCount = items.length - doneCount
+    const settingErrors = getBatchSettingErrors(selectedAction, params)
+    const settingsMessage = settingErrors ? Object.values(settingErrors).join(" ") : null
+    const isRunDisabled = isRunning || remainingCount === 0 || !!settingsMessage
+
+    actionSelect.disabled = isRunning
+    settingsPanel.classList.toggle("opacity-60", isRunning)
+    settingsPanel.classList.toggle("pointer-events-none", isRunning)
+
+    controls.innerHTML = `
+      ${settingsMessage && items.length > 0 ? `<div class="p-3 bg-destructive/10 text-destructive rounded-lg text-sm">${settingsMessage}</div>` : ""}
+      ${!isRunning && doneCount > 0 ? `
+        <div class="flex items-center gap-2 text-accent text-sm">
+          ${iconSvg("CheckCircle2", 16, "w-4 h-4")}
+          <span>${doneCount} of ${items.length} file${items.length === 1 ? "" : "s"} processed${failedCount > 0 ? `, ${failedCount} failed` : ""}.</span>
+        </div>` : ""}
+      <div class="flex flex-wrap gap-3">
+        ${isRunning
+          ? `<button id="batch-cancel" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 flex-1">
+              ${iconSvg("XCircle", 16, "w-4 h-4 mr-2")} Stop Batch
+            </button>`
+          : `<button id="batch-run" class="inline-flex items-center justify-center rounded-md text-sm font-medium bg-accent text-accent-foreground hover:bg-accent/90 h-10 px-4 py-2 flex-1 ${isRunDisabled ? "opacity-50 cursor-not-allowed" : ""}" ${isRunDisabled ? "disabled" : ""}>
+              ${iconSvg("Zap", 16, "w-4 h-4 mr-2")} ${doneCount > 0 && remainingCount > 0 ? `Process Remaining ${remainingCount}` : `Process ${items.length || ""} File${items.length === 1 ? "" : "s"}`}
+            </button>`}
+        ${!isRunning && doneCount > 0 ? `
+          <button id="batch-zip" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 flex-1">
+            ${iconSvg("Download", 16, "w-4 h-4 mr-2")} Download All (ZIP)
+          </button>
+          <button id="batch-clear" class="inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2">
+            ${iconSvg("RotateCcw", 16, "w-4 h-4 mr-2")} Start Over
+          </button>` : ""}
+      </div>
+    `
+
+    controls.querySelector("#batch-run")?.addEventListener("click", () => {
+      queue.run({ type: selectedAction.type, params: { ...params } })
+    })
+    controls.querySelector("#batch-cancel")?.addEventListener("click", () => queue.cancel())
+    controls.querySelector("#batch-zip")?.addEventListener("click", () => queue.downloadAllAsZip())
+    controls.querySelector("#batch-clear")?.addEventListener("click", () => queue.clear())
+  }
+
+  const queueUnsub = queue.subscribe(() => {
+    renderList()
+    renderControls()
+  })
+
+  renderSettings()
+  renderList()
+  renderControls()
+
+  return {
+    element: container,
+    destroy: () => {
+      queueUnsub()
+      activeChildren.forEach((c) => c.destroy())
+      settingsForm?.destroy()
+      queue.destroy()
+    },
+  }
+}
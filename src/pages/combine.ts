@@ -2,7 +2,7 @@ import type { Component, ActionConfig } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { iconSvg } from "../lib/icons"
 import { formatFileSize } from "../lib/file-utils"
 
@@ -16,7 +16,7 @@ export default function createCombinePage(): Component {
 
   let activeChildren: Component[] = []
   let clips: File[] = []
-  let processingBtn: Component | null = null
+  let processingBtn: ProcessingButton | null = null
 
   if (!getVideoData()) {
     const prompt = createVideoUploadPrompt(() => {
@@ -150,6 +150,14 @@ export default function createCombinePage(): Component {
       </p>
     `
 
+    const getActionConfig = (): ActionConfig => ({
+      type: "combine",
+      params: { clips },
+    })
+    if (processingBtn && clips.length >= 2) {
+      processingBtn.update({ config: getActionConfig(), fieldTargets: { clips: panel } })
+      return
+    }
     if (processingBtn) {
       processingBtn.destroy()
       const idx = activeChildren.indexOf(processingBtn)
@@ -158,12 +166,7 @@ export default function createCombinePage(): Component {
     processingContainer.innerHTML = ""
     processingBtn = null
     if (clips.length >= 2) {
-      const getActionConfig = (): ActionConfig => ({
-        type: "combine",
-        params: { clips },
-      })
-
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      processingBtn = createProcessingButton({ config: getActionConfig(), fieldTargets: { clips: panel } })
       activeChildren.push(processingBtn)
       processingContainer.appendChild(processingBtn.element)
     }
@@ -1,20 +1,27 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
 import { createProcessingButton } from "../components/processing-button"
 import { createVideoPreview } from "../components/video-preview"
 import { createVideoUrl } from "../lib/video-url"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
+import { setControlValue } from "../lib/dom"
+import { createCompressionPreview } from "../components/compression-preview"
+import { computeTargetVideoBitrateKbps, getMinimumTargetSizeMB, MIN_VIDEO_BITRATE_KBPS } from "../lib/target-size"
 
 /**
  * Compress page for reducing video file size.
  * Allows adjusting quality (CRF) and encoding preset.
  */
-export default function createCompressPage(): Component {
+export default function createCompressPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let revokeUrl: (() => void) | null = null
 
   if (!getVideoData()) {
@@ -35,8 +42,11 @@ export default function createCompressPage(): Component {
     activeChildren = []
     container.innerHTML = ""
 
+    let compressMode: "quality" | "target-size" = "quality"
     let quality = 28
     let preset = "medium"
+    let targetSizeMB = 25
+    let audioBitrateKbps = 128
 
     const { url, revoke } = createVideoUrl(videoData.file)
     revokeUrl = revoke
@@ -67,7 +77,9 @@ export default function createCompressPage(): Component {
     function getActionConfig(): ActionConfig {
       return {
         type: "compress",
-        params: { crf: quality, preset },
+        params: compressMode === "target-size"
+          ? { mode: compressMode, preset, targetSizeMB, audioBitrateKbps }
+          : { mode: compressMode, crf: quality, preset },
       }
     }
 
@@ -84,6 +96,41 @@ export default function createCompressPage(): Component {
     const controls = document.createElement("div")
     controls.className = "space-y-6"
 
+    // Mode toggle
+    const modeSection = document.createElement("div")
+    modeSection.className = "space-y-2"
+    modeSection.innerHTML = `
+      <label class="text-sm font-medium leading-none">Mode</label>
+      <div class="flex gap-2">
+        <button data-compress-mode="quality">Quality</button>
+        <button data-compress-mode="target-size">Target Size</button>
+      </div>
+    `
+    const modeButtons = Array.from(modeSection.querySelectorAll<HTMLButtonElement>("[data-compress-mode]"))
+
+    function updateModeButtons(): void {
+      const activeClass = "inline-flex items-center justify-center rounded-md text-sm font-medium h-10 px-4 py-2 bg-accent text-accent-foreground"
+      const inactiveClass = "inline-flex items-center justify-center rounded-md text-sm font-medium h-10 px-4 py-2 border border-input bg-transparent hover:bg-accent hover:text-accent-foreground"
+      for (const btn of modeButtons) {
+        btn.className = btn.dataset.compressMode === compressMode ? activeClass : inactiveClass
+      }
+      qualitySection.classList.toggle("hidden", compressMode !== "quality")
+      targetSection.classList.toggle("hidden", compressMode !== "target-size")
+      compressionPreview.element.classList.toggle("hidden", compressMode !== "quality")
+    }
+
+    function setCompressMode(mode: "quality" | "target-size"): void {
+      compressMode = mode
+      updateModeButtons()
+      updateInfo()
+      updateProcessingButton()
+    }
+
+    for (const btn of modeButtons) {
+      btn.addEventListener("click", () => setCompressMode(btn.dataset.compressMode === "target-size" ? "target-size" : "quality"))
+    }
+    controls.appendChild(modeSection)
+
     // Quality (CRF) slider
     const qualitySection = document.createElement("div")
     qualitySection.className = "space-y-4"
@@ -125,6 +172,47 @@ export default function createCompressPage(): Component {
 
     controls.appendChild(qualitySection)
 
+    // Target size inputs
+    const targetSection = document.createElement("div")
+    targetSection.className = "grid md:grid-cols-2 gap-6"
+    targetSection.innerHTML = `
+      <div class="space-y-2">
+        <label for="compress-target-size" class="text-sm font-medium leading-none">Target Size (MB)</label>
+        <input id="compress-target-size" type="number" min="1" step="1" value="${targetSizeMB}"
+          class="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2" />
+        <div class="flex flex-wrap gap-2">
+          ${[10, 25, 50, 100].map((mb) => `<button data-target-mb="${mb}" class="inline-flex items-center justify-center rounded-md text-xs font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-7 px-2">${mb} MB</button>`).join("")}
+        </div>
+      </div>
+      <div class="space-y-2">
+        <label for="compress-audio-bitrate" class="text-sm font-medium leading-none">Audio Bitrate</label>
+        <select id="compress-audio-bitrate" class="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2">
+          <option value="64">64 kbps</option>
+          <option value="96">96 kbps</option>
+          <option value="128" selected>128 kbps</option>
+          <option value="192">192 kbps</option>
+        </select>
+        <p class="text-xs text-muted-foreground">The rest of the size budget goes to video</p>
+      </div>
+    `
+    const targetInput = targetSection.querySelector("#compress-target-size") as HTMLInputElement
+    const audioBitrateSelect = targetSection.querySelector("#compress-audio-bitrate") as HTMLSelectElement
+    targetInput.addEventListener("input", () => {
+      const value = Number.parseFloat(targetInput.value)
+      targetSizeMB = Number.isFinite(value) && value > 0 ? value : 0
+      updateInfo()
+      updateProcessingButton()
+    })
+    targetSection.querySelectorAll<HTMLButtonElement>("[data-target-mb]").forEach((btn) => {
+      btn.addEventListener("click", () => setControlValue(targetInput, btn.dataset.targetMb))
+    })
+    audioBitrateSelect.addEventListener("change", () => {
+      audioBitrateKbps = Number(audioBitrateSelect.value)
+      updateInfo()
+      updateProcessingButton()
+    })
+    controls.appendChild(targetSection)
+
     // Encoding preset select
     const presetSection = document.createElement("div")
     presetSection.className = "space-y-2"
@@ -155,6 +243,21 @@ export default function createCompressPage(): Component {
     presetSection.appendChild(presetHint)
 
     controls.appendChild(presetSection)
+
+    const settings: PageSessionBinding = {
+      getParams: () => getActionConfig().params,
+      onApply: (params) => {
+        setControlValue(slider, params.crf)
+        setControlValue(presetSelect, params.preset)
+        setControlValue(targetInput, params.targetSizeMB)
+        setControlValue(audioBitrateSelect, params.audioBitrateKbps)
+        setCompressMode(params.mode === "target-size" ? "target-size" : "quality")
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "compress", ...settings })
+    activeChildren.push(presetPicker)
+    untrackSession = trackPageSettings("compress", settings, options.params)
+    controls.appendChild(presetPicker.element)
     settingsPanel.appendChild(controls)
 
     // Info panel
@@ -162,6 +265,20 @@ export default function createCompressPage(): Component {
     info.className = "bg-background/50 rounded p-4 text-sm space-y-1"
 
     function updateInfo(): void {
+      if (compressMode === "target-size") {
+        const durationSec = videoData!.duration || 0
+        const videoBitrateKbps = computeTargetVideoBitrateKbps(targetSizeMB, durationSec, audioBitrateKbps)
+        const isTooSmall = videoBitrateKbps < MIN_VIDEO_BITRATE_KBPS
+        info.innerHTML = `
+          <p class="text-muted-foreground">Original size: ${fileSizeMB.toFixed(2)} MB</p>
+          ${isTooSmall
+            ? `<p class="text-destructive">Target too small for this video's length. Use at least ${Math.ceil(getMinimumTargetSizeMB(durationSec, audioBitrateKbps))} MB.</p>`
+            : `<p class="text-muted-foreground">Video bitrate: ${videoBitrateKbps} kbps · Audio: ${audioBitrateKbps} kbps</p>`}
+          ${targetSizeMB >= fileSizeMB ? `<p class="text-yellow-600 dark:text-yellow-500">The target is not smaller than the original file.</p>` : ""}
+          <p class="text-muted-foreground">Two-pass encode: takes about twice as long as quality mode.</p>
+        `
+        return
+      }
       info.innerHTML = `
         <p class="text-muted-foreground">Original size: ${fileSizeMB.toFixed(2)} MB</p>
         <p class="text-muted-foreground">Estimated size: ~${getEstimatedSize()} MB</p>
@@ -171,22 +288,63 @@ export default function createCompressPage(): Component {
     updateInfo()
     settingsPanel.appendChild(info)
 
+    // Sample preview (quality mode only; target-size already knows its size)
+    const compressionPreview = createCompressionPreview({ videoUrl: url, getConfig: getActionConfig })
+    activeChildren.push(compressionPreview)
+    settingsPanel.appendChild(compressionPreview.element)
+    updateModeButtons()
+
     // Processing button
     const processingBtnContainer = document.createElement("div")
     settingsPanel.appendChild(processingBtnContainer)
 
-    let processingBtn: Component | null = null
+    const resultInfo = document.createElement("div")
+    settingsPanel.appendChild(resultInfo)
+
+    let processingBtn: ReturnType<typeof createProcessingButton> | null = null
+
+    /** Shows the achieved size, compared with the target in target-size mode. */
+    function updateResultInfo(): void {
+      const ps = processingBtn?.processor.getState()
+      if (!ps?.isComplete || !ps.outputBlob) {
+        resultInfo.innerHTML = ""
+        return
+      }
+      const outputMB = ps.outputBlob.size / (1024 * 1024)
+      const config = getActionConfig()
+      if (config.params.mode !== "target-size") {
+        resultInfo.innerHTML = `<p class="text-sm text-muted-foreground">Output size: ${outputMB.toFixed(2)} MB (${Math.round((outputMB / fileSizeMB) * 100)}% of original)</p>`
+        return
+      }
+      const isOver = outputMB > targetSizeMB
+      resultInfo.innerHTML = `
+        <p class="text-sm ${isOver ? "text-yellow-600 dark:text-yellow-500" : "text-muted-foreground"}">
+          Output size: ${outputMB.toFixed(2)} MB of ${targetSizeMB} MB target (${Math.round((outputMB / targetSizeMB) * 100)}%)${isOver ? ". Try a slightly smaller target." : ""}
+        </p>
+      `
+    }
 
     function updateProcessingButton(): void {
+      compressionPreview.invalidate()
       if (processingBtn) {
-        processingBtn.destroy()
-        const idx = activeChildren.indexOf(processingBtn)
-        if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn.update({ config: getActionConfig() })
+        updateResultInfo()
+        return
       }
-      processingBtnContainer.innerHTML = ""
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      processingBtn = createProcessingButton({
+        config: getActionConfig(),
+        fieldTargets: {
+          mode: modeSection,
+          crf: qualitySection,
+          preset: presetSection,
+          targetSizeMB: targetInput.parentElement!,
+          audioBitrateKbps: audioBitrateSelect.parentElement!,
+        },
+      })
+      processingBtn.processor.subscribe(updateResultInfo)
       activeChildren.push(processingBtn)
       processingBtnContainer.appendChild(processingBtn.element)
+      updateResultInfo()
     }
     updateProcessingButton()
 
@@ -198,6 +356,7 @@ export default function createCompressPage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       revokeUrl?.()
     },
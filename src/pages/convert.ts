@@ -1,13 +1,17 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData, getState, subscribe } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { createVideoPreview } from "../components/video-preview"
 import { createVideoUrl } from "../lib/video-url"
 import { detectCodecs, CODEC_DISPLAY_NAMES } from "../lib/codec-detection"
 import { iconSvg } from "../lib/icons"
 import { createLogger } from "../lib/logger"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
+import { setControlValue } from "../lib/dom"
 
 const log = createLogger("convert")
 
@@ -17,11 +21,12 @@ const log = createLogger("convert")
  * Detects the current video codec using FFmpeg so the copy option
  * shows the actual codec name and re-encode options exclude the current codec.
  */
-export default function createConvertPage(): Component {
+export default function createConvertPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let videoUrl: { url: string; revoke: () => void } | null = null
 
   if (!getVideoData()) {
@@ -166,6 +171,18 @@ export default function createConvertPage(): Component {
 
     settingsPanel.appendChild(selectsGrid)
 
+    const settings: PageSessionBinding = {
+      getParams: () => getActionConfig().params,
+      onApply: (params) => {
+        setControlValue(formatSelect, params.format)
+        setControlValue(codecSelect, params.codec)
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "convert", ...settings })
+    activeChildren.push(presetPicker)
+    untrackSession = trackPageSettings("convert", settings, options.params)
+    settingsPanel.appendChild(presetPicker.element)
+
     // Info section
     const infoDiv = document.createElement("div")
     infoDiv.className = "bg-background/50 rounded p-4 text-sm space-y-1"
@@ -203,17 +220,18 @@ export default function createConvertPage(): Component {
       params: { format, codec },
     })
 
-    let processingBtn: Component | null = null
+    let processingBtn: ProcessingButton | null = null
     const processingBtnContainer = document.createElement("div")
 
     function updateProcessingButton(): void {
       if (processingBtn) {
-        processingBtn.destroy()
-        const idx = activeChildren.indexOf(processingBtn)
-        if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn.update({ config: getActionConfig() })
+        return
       }
-      processingBtnContainer.innerHTML = ""
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      processingBtn = createProcessingButton({
+        config: getActionConfig(),
+        fieldTargets: { format: formatDiv, codec: codecDiv },
+      })
       activeChildren.push(processingBtn)
       processingBtnContainer.appendChild(processingBtn.element)
     }
@@ -228,15 +246,15 @@ export default function createConvertPage(): Component {
     startCodecDetection()
 
     function startCodecDetection(): void {
-      const { isFFmpegLoaded, ffmpeg } = getState()
+      const { isFFmpegLoaded } = getState()
 
-      if (isFFmpegLoaded && ffmpeg && !detectedCodec) {
+      if (isFFmpegLoaded && !detectedCodec) {
         runDetection()
       } else if (!isFFmpegLoaded) {
         // Wait for FFmpeg to load
         const detectionUnsub = subscribe(() => {
           const state = getState()
-          if (state.isFFmpegLoaded && state.ffmpeg) {
+          if (state.isFFmpegLoaded) {
             detectionUnsub()
             if (!detectedCodec) {
               runDetection()
@@ -281,6 +299,7 @@ export default function createConvertPage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       videoUrl?.revoke()
     },
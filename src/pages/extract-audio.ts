@@ -1,11 +1,14 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { createVideoPreview } from "../components/video-preview"
 import { createVideoUrl } from "../lib/video-url"
 import { iconSvg } from "../lib/icons"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
 
 /**
  * Extract audio/video page for pulling an audio track from video
@@ -13,11 +16,12 @@ import { iconSvg } from "../lib/icons"
  * Supports extracting audio in multiple formats (mp3/wav/aac/flac/ogg)
  * or extracting video without audio in mp4/webm/mov.
  */
-export default function createExtractAudioPage(): Component {
+export default function createExtractAudioPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let videoUrl: { url: string; revoke: () => void } | null = null
 
   if (!getVideoData()) {
@@ -244,6 +248,24 @@ export default function createExtractAudioPage(): Component {
     updateOptionsSection()
     settingsPanel.appendChild(optionsSection)
 
+    const settings: PageSessionBinding = {
+      getParams: () => getActionConfig().params,
+      onApply: (params) => {
+        if (params.extractMode === "audio" || params.extractMode === "video") extractMode = params.extractMode
+        if (typeof params.format === "string") format = params.format
+        if (typeof params.bitrate === "string") bitrate = params.bitrate
+        if (typeof params.videoFormat === "string") videoFormat = params.videoFormat
+        updateModeButtons()
+        updateOverlay()
+        updateOptionsSection()
+        updateProcessingButton()
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "extract-audio", ...settings })
+    activeChildren.push(presetPicker)
+    untrackSession = trackPageSettings("extract-audio", settings, options.params)
+    settingsPanel.appendChild(presetPicker.element)
+
     // Duration info
     if (videoData.duration) {
       const durationDiv = document.createElement("div")
@@ -265,17 +287,18 @@ export default function createExtractAudioPage(): Component {
       },
     })
 
-    let processingBtn: Component | null = null
+    let processingBtn: ProcessingButton | null = null
     const processingBtnContainer = document.createElement("div")
 
     function updateProcessingButton(): void {
       if (processingBtn) {
-        processingBtn.destroy()
-        const idx = activeChildren.indexOf(processingBtn)
-        if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn.update({ config: getActionConfig() })
+        return
       }
-      processingBtnContainer.innerHTML = ""
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      processingBtn = createProcessingButton({
+        config: getActionConfig(),
+        fieldTargets: { extractMode: modeSection, format: optionsSection, bitrate: optionsSection, videoFormat: optionsSection },
+      })
       activeChildren.push(processingBtn)
       processingBtnContainer.appendChild(processingBtn.element)
     }
@@ -290,6 +313,7 @@ export default function createExtractAudioPage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       videoUrl?.revoke()
     },
@@ -1,23 +1,28 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { createVideoUrl } from "../lib/video-url"
 import { createVideoFramerate } from "../lib/video-framerate"
 import { snapTimeToFrame, formatTime } from "../lib/time-utils"
 import { iconSvg } from "../lib/icons"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
+import { setControlValue } from "../lib/dom"
 
 /**
  * Frame extract page for extracting frames as images.
  * Includes its own video player with play/pause and seekable timeline.
  * Supports single frame, interval, and all-frames extraction modes.
  */
-export default function createFrameExtractPage(): Component {
+export default function createFrameExtractPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let revokeUrl: (() => void) | null = null
   let framerateHandle: { getFramerateFps: () => number; destroy: () => void } | null = null
 
@@ -290,6 +295,23 @@ export default function createFrameExtractPage(): Component {
     formatSection.appendChild(formatSelect)
     controls.appendChild(formatSection)
 
+    // The single-frame timestamp belongs to this video, so it isn't saved.
+    const settings: PageSessionBinding = {
+      getParams: () => ({ mode: extractMode, interval: intervalValue, format }),
+      onApply: (params) => {
+        if (params.interval !== undefined) intervalValue = String(params.interval)
+        setControlValue(modeSelect, params.mode)
+        setControlValue(formatSelect, params.format)
+        updateModeSpecificUI()
+        updateInfoPanel()
+        updateProcessingButton()
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "frame-extract", ...settings })
+    activeChildren.push(presetPicker)
+    untrackSession = trackPageSettings("frame-extract", settings, options.params)
+    controls.appendChild(presetPicker.element)
+
     settingsPanel.appendChild(controls)
 
     // Initialize mode-specific UI
@@ -327,7 +349,7 @@ export default function createFrameExtractPage(): Component {
     const processingBtnContainer = document.createElement("div")
     settingsPanel.appendChild(processingBtnContainer)
 
-    let processingBtn: Component | null = null
+    let processingBtn: ProcessingButton | null = null
 
     function getActionConfig(): ActionConfig {
       const fps = framerateHandle?.getFramerateFps() ?? 30
@@ -344,12 +366,14 @@ export default function createFrameExtractPage(): Component {
 
     function updateProcessingButton(): void {
       if (processingBtn) {
-        processingBtn.destroy()
-        const idx = activeChildren.indexOf(processingBtn)
-        if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn.update({ config: getActionConfig() })
+        return
       }
-      processingBtnContainer.innerHTML = ""
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      processingBtn = createProcessingButton({
+        config: getActionConfig(),
+        // Errors go under whichever input the mode shows.
+        fieldTargets: { mode: modeSection, interval: modeSpecificContainer, timestamp: modeSpecificContainer, format: formatSection },
+      })
       activeChildren.push(processingBtn)
       processingBtnContainer.appendChild(processingBtn.element)
     }
@@ -363,6 +387,7 @@ export default function createFrameExtractPage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       framerateHandle?.destroy()
       revokeUrl?.()
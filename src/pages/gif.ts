@@ -1,23 +1,28 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { iconSvg } from "../lib/icons"
 import { createVideoUrl } from "../lib/video-url"
 import { createVideoFramerate } from "../lib/video-framerate"
 import { snapTimeToFrame, formatTime } from "../lib/time-utils"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
+import { setControlValue } from "../lib/dom"
 
 /**
  * GIF page for converting a video segment to animated GIF.
  * Provides a video player with time selection, FPS/scale controls,
  * and a seekable timeline with selection overlay.
  */
-export default function createGifPage(): Component {
+export default function createGifPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let revokeUrl: () => void = () => {}
   let framerateHandle: { getFramerateFps: () => number; destroy: () => void } | null = null
 
@@ -29,7 +34,7 @@ export default function createGifPage(): Component {
   let endTimeSec: number | null = null
   let fps = 10
   let scale = 480
-  let processingBtn: Component | null = null
+  let processingBtn: ProcessingButton | null = null
 
   if (!getVideoData()) {
     const prompt = createVideoUploadPrompt(() => {
@@ -262,6 +267,30 @@ export default function createGifPage(): Component {
       updateProcessingButton()
     })
 
+    // The time selection belongs to this video, so presets only keep quality settings.
+    const settings: PageSessionBinding = {
+      getParams: () => ({ fps, scale }),
+      onApply: (params) => {
+        setControlValue(fpsInput, params.fps)
+        setControlValue(scaleInput, params.scale)
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "gif", ...settings })
+    activeChildren.push(presetPicker)
+    // A saved session is for this same video, so it keeps the time selection too.
+    untrackSession = trackPageSettings("gif", settings, options.params, {
+      getParams: () => ({ ...settings.getParams(), startTimeSec, endTimeSec }),
+      onApply: (params) => {
+        settings.onApply(params)
+        if (typeof params.startTimeSec === "number") startTimeSec = params.startTimeSec
+        if (typeof params.endTimeSec === "number") endTimeSec = params.endTimeSec
+        updateTimeline()
+        updateSelectionInfo()
+        updateProcessingButton()
+      },
+    })
+    settingsPanel.insertBefore(presetPicker.element, settingsPanel.querySelector("#gif-selection-info"))
+
     // Clear button state
     updateClearButton()
     updateProcessingButton()
@@ -347,15 +376,16 @@ export default function createGifPage(): Component {
     if (!procContainer) return
 
     if (processingBtn) {
-      processingBtn.destroy()
-      const idx = activeChildren.indexOf(processingBtn)
-      if (idx !== -1) activeChildren.splice(idx, 1)
+      processingBtn.update({ config: getActionConfig() })
+      return
     }
-    procContainer.innerHTML = ""
 
+    const fieldOf = (id: string) => (container.querySelector(id) as HTMLElement).parentElement!
+    const timeline = fieldOf("#gif-timeline")
     processingBtn = createProcessingButton({
       config: getActionConfig(),
       onReset: handleClearSelection,
+      fieldTargets: { start: timeline, end: timeline, fps: fieldOf("#gif-fps"), scale: fieldOf("#gif-scale") },
     })
     activeChildren.push(processingBtn)
     procContainer.appendChild(processingBtn.element)
@@ -364,6 +394,7 @@ export default function createGifPage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       revokeUrl()
       framerateHandle?.destroy()
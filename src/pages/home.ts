@@ -1,9 +1,10 @@
 import type { Component, ActionType } from "../types"
-import { setVideoData, ensureVideoBytes } from "../store"
+import { setVideoData, ensureVideoSource } from "../store"
 import { navigate, actionTypePath } from "../router"
 import { createLogger } from "../lib/logger"
 import { trackVideoImport, trackVideoImportError, trackFeatureClick } from "../lib/analytics"
 import { getFileSizeWarningType } from "../lib/file-utils"
+import { prefetchMediaProbe } from "../lib/media-probe"
 import { createHero } from "../components/landing/hero"
 import { createDropzone } from "../components/landing/dropzone"
 import { createWhyQcut } from "../components/landing/why-qcut"
@@ -46,7 +47,6 @@ export default function createHomePage(): Component {
     const warningType = getFileSizeWarningType(file.size)
     if (warningType) {
       const warning = createFileSizeWarning(
-        warningType,
         file.size,
         () => {},
         () => processFile(file)
@@ -91,9 +91,10 @@ export default function createHomePage(): Component {
       navigate(destination)
       pendingAction = null
 
-      // Pre-read the file bytes in the background so the cut reuses them instead
+      // Snapshot the file in the background so processing reads the copy instead
       // of re-reading the (possibly stale) File reference later. See issue #2.
-      ensureVideoBytes().catch(() => {})
+      ensureVideoSource().catch(() => {})
+      prefetchMediaProbe()
     }
 
     video.onerror = () => {
@@ -0,0 +1,277 @@
+import type { Component, MediaProbe } from "../types"
+import { getVideoData, loadFFmpeg } from "../store"
+import { createVideoUploadPrompt } from "../components/video-upload-prompt"
+import { createBackButton } from "../components/back-button"
+import { getMediaProbe, getBitrateSeries, type BitrateSample } from "../lib/media-probe"
+import { getKeyframes } from "../lib/keyframes"
+import {
+  summarizeKeyframes,
+  describeContainer,
+  describeStream,
+  formatBitrate,
+  formatMediaReportText,
+  type MediaReport,
+} from "../lib/media-report"
+import { formatTime } from "../lib/time-utils"
+import { iconSvg } from "../lib/icons"
+import { createLogger } from "../lib/logger"
+
+const log = createLogger("media-info")
+
+const cardClass = "rounded-xl border bg-card text-card-foreground shadow-sm p-6 space-y-3"
+const secondaryButtonClass =
+  "inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-background hover:bg-accent hover:text-accent-foreground h-9 px-3 disabled:opacity-50 disabled:cursor-not-allowed"
+
+/** Builds a card with a heading. Content is appended by the caller. */
+function createCard(title: string): HTMLElement {
+  const card = document.createElement("div")
+  card.className = cardClass
+  const heading = document.createElement("h3")
+  heading.className = "font-semibold"
+  heading.textContent = title
+  card.appendChild(heading)
+  return card
+}
+
+/** Label/value grid. Values are set via textContent since tags come from the file. */
+function createRows(rows: Array<[string, string]>): HTMLElement {
+  const list = document.createElement("dl")
+  list.className = "grid grid-cols-[minmax(8rem,auto)_1fr] gap-x-4 gap-y-1 text-sm"
+  for (const [label, value] of rows) {
+    const dt = document.createElement("dt")
+    dt.className = "text-muted-foreground"
+    dt.textContent = label
+    const dd = document.createElement("dd")
+    dd.className = "font-mono break-all"
+    dd.textContent = value
+    list.append(dt, dd)
+  }
+  return list
+}
+
+function createTags(tags: Record<string, string>): HTMLElement | null {
+  const entries = Object.entries(tags)
+  if (entries.length === 0) return null
+  const details = document.createElement("details")
+  details.className = "text-sm"
+  const summary = document.createElement("summary")
+  summary.className = "cursor-pointer text-muted-foreground"
+  summary.textContent = `Tags (${entries.length})`
+  details.append(summary, createRows(entries))
+  return details
+}
+
+/** Bar chart of per-second bitrate as an inline SVG. */
+function createBitrateGraph(samples: BitrateSample[]): HTMLElement {
+  const wrapper = document.createElement("div")
+  wrapper.className = "space-y-2"
+  const maxBps = Math.max(1, ...samples.map((s) => s.bitrateBps))
+  const avgBps = samples.reduce((sum, s) => sum + s.bitrateBps, 0) / samples.length
+
+  const bars = samples
+    .map((s, i) => {
+      const h = (s.bitrateBps / maxBps) * 100
+      return `<rect x="${i}" y="${100 - h}" width="0.9" height="${h}"><title>${formatTime(s.timeSec)} · ${formatBitrate(s.bitrateBps)}</title></rect>`
+    })
+    .join("")
+  wrapper.innerHTML = `
+    <svg viewBox="0 0 ${samples.length} 100" preserveAspectRatio="none" class="w-full h-32 fill-primary/70 bg-background/50 rounded" role="img" aria-label="Bitrate per second">${bars}</svg>
+    <div class="flex justify-between text-xs text-muted-foreground">
+      <span>0:00</span>
+      <span>Peak ${formatBitrate(maxBps)} · Average ${formatBitrate(Math.round(avgBps))}</span>
+      <span>${formatTime(samples.length)}</span>
+    </div>
+  `
+  return wrapper
+}
+
+/**
+ * Media info page: the full probe report for the loaded file — container and
+ * stream metadata, chapters, keyframe spacing, a bitrate graph and all tags —
+ * with copy-as-JSON and download-as-text for support requests.
+ */
+export default function createMediaInfoPage(): Component {
+  const container = document.createElement("div")
+  container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
+
+  let activeChildren: Component[] = []
+  let isDestroyed = false
+
+  if (!getVideoData()) {
+    const prompt = createVideoUploadPrompt(() => {
+      prompt.element.remove()
+      renderPage()
+    })
+    activeChildren.push(prompt)
+    container.appendChild(prompt.element)
+  } else {
+    renderPage()
+  }
+
+  function renderPage(): void {
+    const videoData = getVideoData()
+    if (!videoData) return
+
+    activeChildren.forEach((c) => c.destroy())
+    activeChildren = []
+    container.innerHTML = ""
+
+    const inner = document.createElement("div")
+    inner.className = "max-w-4xl mx-auto space-y-6"
+
+    const backBtn = createBackButton()
+    activeChildren.push(backBtn)
+    inner.appendChild(backBtn.element)
+
+    const header = document.createElement("div")
+    header.className = "flex flex-col sm:flex-row sm:items-center justify-between gap-4"
+    header.innerHTML = `
+      <div class="space-y-1 min-w-0">
+        <h2 class="text-2xl font-bold">Media Info</h2>
+        <p id="mi-file-name" class="text-sm text-muted-foreground truncate"></p>
+      </div>
+      <div class="flex gap-2 flex-shrink-0">
+        <button id="mi-copy" class="${secondaryButtonClass}" disabled>${iconSvg("Copy", 16, "w-4 h-4 mr-2")} Copy as JSON</button>
+        <button id="mi-download" class="${secondaryButtonClass}" disabled>${iconSvg("FileText", 16, "w-4 h-4 mr-2")} Download as text</button>
+      </div>
+    `
+    header.querySelector("#mi-file-name")!.textContent = videoData.file.name
+    inner.appendChild(header)
+
+    const status = document.createElement("p")
+    status.className = "text-sm text-muted-foreground min-h-[1.25rem]"
+    inner.appendChild(status)
+
+    const body = document.createElement("div")
+    body.className = "space-y-4"
+    body.innerHTML = `
+      <div class="flex items-center gap-2 text-sm text-muted-foreground">
+        ${iconSvg("Loader2", 16, "w-4 h-4 animate-spin")} Analyzing file...
+      </div>
+    `
+    inner.appendChild(body)
+    container.appendChild(inner)
+
+    const copyBtn = header.querySelector("#mi-copy") as HTMLButtonElement
+    const downloadBtn = header.querySelector("#mi-download") as HTMLButtonElement
+
+    buildReport(videoData.file)
+      .then((report) => {
+        if (isDestroyed || getVideoData() !== videoData) return
+        renderReport(body, report)
+
+        copyBtn.disabled = false
+        downloadBtn.disabled = false
+        copyBtn.addEventListener("click", async () => {
+          try {
+            await navigator.clipboard.writeText(JSON.stringify(report, null, 2))
+            status.textContent = "Report copied to clipboard."
+          } catch (err) {
+            log.warn("Clipboard write failed: %o", err)
+            status.textContent = "Couldn't access the clipboard. Use Download as text instead."
+          }
+        })
+        downloadBtn.addEventListener("click", () => {
+          const blob = new Blob([formatMediaReportText(report)], { type: "text/plain" })
+          const url = URL.createObjectURL(blob)
+          const a = document.createElement("a")
+          a.href = url
+          a.download = `${videoData.file.name.replace(/\.[^.]+$/, "")}_media-info.txt`
+          a.click()
+          setTimeout(() => URL.revokeObjectURL(url), 1000)
+        })
+      })
+      .catch((err: Error) => {
+        if (isDestroyed) return
+        log.error("Media info failed: %o", err)
+        body.innerHTML = ""
+        const errorEl = document.createElement("div")
+        errorEl.className = "p-3 bg-destructive/10 text-destructive rounded-lg text-sm"
+        errorEl.textContent = `Couldn't read this file's metadata: ${err.message}`
+        body.appendChild(errorEl)
+      })
+  }
+
+  async function buildReport(file: File): Promise<MediaReport> {
+    await loadFFmpeg()
+    const probe = await getMediaProbe()
+    if (!probe) throw new Error("FFmpeg is not available.")
+
+    // Keyframes and bitrate are extras; the report is still useful without them.
+    const [keyframeInfo, bitrate] = await Promise.all([
+      getKeyframes().catch((err) => {
+        log.warn("Keyframe probe failed: %o", err)
+        return null
+      }),
+      getBitrateSeries().catch((err) => {
+        log.warn("Bitrate probe failed: %o", err)
+        return null
+      }),
+    ])
+
+    return {
+      file: {
+        name: file.name,
+        sizeBytes: file.size,
+        mimeType: file.type,
+        lastModified: new Date(file.lastModified).toISOString(),
+      },
+      probe,
+      keyframes: keyframeInfo ? summarizeKeyframes(keyframeInfo.timestamps) : null,
+      bitrate,
+    }
+  }
+
+  function renderReport(body: HTMLElement, report: MediaReport): void {
+    body.innerHTML = ""
+    const probe: MediaProbe = report.probe
+
+    const containerCard = createCard("Container")
+    containerCard.appendChild(createRows(describeContainer(probe)))
+    const containerTags = createTags(probe.tags)
+    if (containerTags) containerCard.appendChild(containerTags)
+    body.appendChild(containerCard)
+
+    for (const stream of probe.streams) {
+      const card = createCard(`Stream #${stream.index} · ${stream.type}`)
+      card.appendChild(createRows(describeStream(stream)))
+      const tags = createTags(stream.tags)
+      if (tags) card.appendChild(tags)
+      body.appendChild(card)
+    }
+
+    if (report.keyframes) {
+      const { count, averageIntervalSec, maxIntervalSec } = report.keyframes
+      const card = createCard("Keyframes")
+      card.appendChild(createRows([
+        ["Count", String(count)],
+        ["Average interval", averageIntervalSec !== null ? `${averageIntervalSec.toFixed(3)}s` : "N/A"],
+        ["Longest interval", maxIntervalSec !== null ? `${maxIntervalSec.toFixed(3)}s` : "N/A"],
+      ]))
+      body.appendChild(card)
+    }
+
+    if (report.bitrate && report.bitrate.length > 0) {
+      const card = createCard("Bitrate")
+      card.appendChild(createBitrateGraph(report.bitrate))
+      body.appendChild(card)
+    }
+
+    if (probe.chapters.length > 0) {
+      const card = createCard("Chapters")
+      card.appendChild(createRows(probe.chapters.map((c) => [
+        `${formatTime(c.startSec)} – ${formatTime(c.endSec)}`,
+        c.title ?? `Chapter ${c.id}`,
+      ])))
+      body.appendChild(card)
+    }
+  }
+
+  return {
+    element: container,
+    destroy: () => {
+      isDestroyed = true
+      activeChildren.forEach((c) => c.destroy())
+    },
+  }
+}
@@ -2,7 +2,7 @@ import type { Component, ActionConfig } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { iconSvg } from "../lib/icons"
 import { formatFileSize } from "../lib/file-utils"
 
@@ -128,7 +128,7 @@ export default function createMergePage(): Component {
     const processingBtnContainer = document.createElement("div")
     content.appendChild(processingBtnContainer)
 
-    let processingBtn: Component | null = null
+    let processingBtn: ProcessingButton | null = null
 
     function getActionConfig(): ActionConfig {
       return {
@@ -138,10 +138,15 @@ export default function createMergePage(): Component {
     }
 
     function updateProcessingButton(): void {
+      if (processingBtn && audioFile) {
+        processingBtn.update({ config: getActionConfig() })
+        return
+      }
       if (processingBtn) {
         processingBtn.destroy()
         const idx = activeChildren.indexOf(processingBtn)
         if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn = null
       }
       processingBtnContainer.innerHTML = ""
 
@@ -153,6 +158,7 @@ export default function createMergePage(): Component {
             updateAudioContent()
             updateProcessingButton()
           },
+          fieldTargets: { audioFile: audioSection },
         })
         activeChildren.push(processingBtn)
         processingBtnContainer.appendChild(processingBtn.element)
@@ -1,20 +1,25 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { createVideoPreview } from "../components/video-preview"
 import { createVideoUrl } from "../lib/video-url"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
+import { setControlValue } from "../lib/dom"
 
 /**
  * Normalize audio page for adjusting audio levels using the EBU R128 loudnorm filter.
  * Allows setting target loudness (LUFS), true peak (dB), and loudness range (LU).
  */
-export default function createNormalizeAudioPage(): Component {
+export default function createNormalizeAudioPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let videoUrl: { url: string; revoke: () => void } | null = null
 
   if (!getVideoData()) {
@@ -130,6 +135,20 @@ export default function createNormalizeAudioPage(): Component {
 
     settingsPanel.appendChild(slidersDiv)
 
+    const settings: PageSessionBinding = {
+      getParams: () => getActionConfig().params,
+      onApply: (params) => {
+        const [loudnessInput, peakInput, rangeInput] = Array.from(slidersDiv.querySelectorAll<HTMLInputElement>('input[type="range"]'))
+        setControlValue(loudnessInput, params.targetLoudnessLufs)
+        setControlValue(peakInput, params.truePeakDb)
+        setControlValue(rangeInput, params.loudnessRangeLu)
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "normalize-audio", ...settings })
+    activeChildren.push(presetPicker)
+    untrackSession = trackPageSettings("normalize-audio", settings, options.params)
+    settingsPanel.appendChild(presetPicker.element)
+
     // Info section
     const infoDiv = document.createElement("div")
     infoDiv.className = "bg-background/50 rounded p-4 text-sm"
@@ -152,17 +171,19 @@ export default function createNormalizeAudioPage(): Component {
       },
     })
 
-    let processingBtn: Component | null = null
+    let processingBtn: ProcessingButton | null = null
     const processingBtnContainer = document.createElement("div")
 
     function updateProcessingButton(): void {
       if (processingBtn) {
-        processingBtn.destroy()
-        const idx = activeChildren.indexOf(processingBtn)
-        if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn.update({ config: getActionConfig() })
+        return
       }
-      processingBtnContainer.innerHTML = ""
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      const [loudnessControl, peakControl, rangeControl] = Array.from(slidersDiv.children) as HTMLElement[]
+      processingBtn = createProcessingButton({
+        config: getActionConfig(),
+        fieldTargets: { targetLoudnessLufs: loudnessControl, truePeakDb: peakControl, loudnessRangeLu: rangeControl },
+      })
       activeChildren.push(processingBtn)
       processingBtnContainer.appendChild(processingBtn.element)
     }
@@ -177,6 +198,7 @@ export default function createNormalizeAudioPage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       videoUrl?.revoke()
     },
@@ -1,27 +1,31 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { iconSvg } from "../lib/icons"
 import { createVideoUrl } from "../lib/video-url"
 import { formatFileSize } from "../lib/file-utils"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
 
 /**
  * Overlay page for adding image watermarks/overlays to video.
  * Provides a video player with live overlay preview, position presets,
  * custom offset, scale, and opacity controls.
  */
-export default function createOverlayPage(): Component {
+export default function createOverlayPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let videoUrl = ""
   let revokeVideoUrl: () => void = () => {}
   let overlayFile: File | null = null
   let overlayPreviewUrl = ""
-  let processingBtn: Component | null = null
+  let processingBtn: ProcessingButton | null = null
   let position = "top-left"
   let offsetX = 10
   let offsetY = 10
@@ -159,6 +163,31 @@ export default function createOverlayPage(): Component {
 
     renderControls()
 
+    // The overlay image itself is a per-video input, so presets keep placement only.
+    const settings: PageSessionBinding = {
+      getParams: () => ({ position, offsetX, offsetY, scalePct, opacityPct }),
+      onApply: (params) => {
+        if (typeof params.position === "string") position = params.position
+        if (typeof params.offsetX === "number") offsetX = params.offsetX
+        if (typeof params.offsetY === "number") offsetY = params.offsetY
+        if (typeof params.scalePct === "number") scalePct = params.scalePct
+        if (typeof params.opacityPct === "number") opacityPct = params.opacityPct
+        renderControls()
+        updateOverlayPreview()
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "overlay", ...settings })
+    activeChildren.push(presetPicker)
+    // A saved session is for this same video, so it keeps the overlay image too.
+    untrackSession = trackPageSettings("overlay", settings, options.params, {
+      getParams: () => ({ ...settings.getParams(), overlayFile }),
+      onApply: (params) => {
+        if (params.overlayFile instanceof File) setOverlayFile(params.overlayFile)
+        settings.onApply(params)
+      },
+    })
+    settingsPanel.insertBefore(presetPicker.element, settingsPanel.querySelector("#overlay-controls")!.nextSibling)
+
     function renderControls(): void {
       const controlsEl = settingsPanel.querySelector("#overlay-controls") as HTMLElement
       controlsEl.innerHTML = ""
@@ -302,13 +331,13 @@ export default function createOverlayPage(): Component {
 
       // Processing button
       const procContainer = settingsPanel.querySelector("#overlay-processing") as HTMLElement
-      if (processingBtn) {
+      if (processingBtn && !overlayFile) {
         processingBtn.destroy()
         const idx = activeChildren.indexOf(processingBtn)
         if (idx !== -1) activeChildren.splice(idx, 1)
+        procContainer.innerHTML = ""
+        processingBtn = null
       }
-      procContainer.innerHTML = ""
-      processingBtn = null
       if (overlayFile) {
         const getActionConfig = (): ActionConfig => ({
           type: "overlay",
@@ -321,12 +350,29 @@ export default function createOverlayPage(): Component {
             opacityPct,
           },
         })
+        const fieldTargets: Record<string, HTMLElement> = {
+          overlayFile: imageSection,
+          position: posSection,
+          scalePct: scaleSection,
+          opacityPct: opacitySection,
+        }
+        // The offset inputs are hidden when centered.
+        const xField = controlsEl.querySelector("#overlay-offset-x")?.parentElement
+        const yField = controlsEl.querySelector("#overlay-offset-y")?.parentElement
+        if (xField) fieldTargets.offsetX = xField
+        if (yField) fieldTargets.offsetY = yField
+        // The controls were just rebuilt, so the button gets the new inputs too.
+        if (processingBtn) {
+          processingBtn.update({ config: getActionConfig(), fieldTargets })
+          return
+        }
         processingBtn = createProcessingButton({
           config: getActionConfig(),
           onReset: () => {
             clearOverlayFile()
             renderControls()
           },
+          fieldTargets,
         })
         activeChildren.push(processingBtn)
         procContainer.appendChild(processingBtn.element)
@@ -404,6 +450,7 @@ export default function createOverlayPage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       revokeVideoUrl()
       if (overlayPreviewUrl) URL.revokeObjectURL(overlayPreviewUrl)
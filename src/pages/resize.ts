@@ -1,20 +1,25 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { createVideoPreview } from "../components/video-preview"
 import { createVideoUrl } from "../lib/video-url"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
+import { setControlValue } from "../lib/dom"
 
 /**
  * Resize page for changing video dimensions.
  * Allows selecting preset resolutions or custom dimensions.
  */
-export default function createResizePage(): Component {
+export default function createResizePage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let revokeUrl: (() => void) | null = null
 
   if (!getVideoData()) {
@@ -174,6 +179,18 @@ export default function createResizePage(): Component {
     dimensionsGrid.appendChild(heightSection)
 
     controls.appendChild(dimensionsGrid)
+
+    const settings: PageSessionBinding = {
+      getParams: () => getActionConfig().params,
+      onApply: (params) => {
+        setControlValue(widthInput, params.width)
+        setControlValue(heightInput, params.height)
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "resize", ...settings })
+    activeChildren.push(presetPicker)
+    untrackSession = trackPageSettings("resize", settings, options.params)
+    controls.appendChild(presetPicker.element)
     settingsPanel.appendChild(controls)
 
     // Info panel
@@ -194,16 +211,17 @@ export default function createResizePage(): Component {
     const processingBtnContainer = document.createElement("div")
     settingsPanel.appendChild(processingBtnContainer)
 
-    let processingBtn: Component | null = null
+    let processingBtn: ProcessingButton | null = null
 
     function updateProcessingButton(): void {
       if (processingBtn) {
-        processingBtn.destroy()
-        const idx = activeChildren.indexOf(processingBtn)
-        if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn.update({ config: getActionConfig() })
+        return
       }
-      processingBtnContainer.innerHTML = ""
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      processingBtn = createProcessingButton({
+        config: getActionConfig(),
+        fieldTargets: { width: widthSection, height: heightSection },
+      })
       activeChildren.push(processingBtn)
       processingBtnContainer.appendChild(processingBtn.element)
     }
@@ -217,6 +235,7 @@ export default function createResizePage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       revokeUrl?.()
     },
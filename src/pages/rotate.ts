@@ -1,11 +1,14 @@
-import type { Component, ActionConfig } from "../types"
+import type { Component, ActionConfig, PageOptions } from "../types"
 import { getVideoData } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
 import { createVideoPreview } from "../components/video-preview"
 import { createVideoUrl } from "../lib/video-url"
 import { iconSvg } from "../lib/icons"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
 
 /** File extensions that support lossless rotation via metadata. */
 const LOSSLESS_ROTATION_EXTENSIONS = ["mp4", "mov", "m4v"]
@@ -24,11 +27,12 @@ function isLosslessRotationSupported(filename: string): boolean {
  * Supports 0/90/180/270 degree rotations and horizontal/vertical flips.
  * Uses lossless metadata rotation for MP4/MOV when only rotating (no flips).
  */
-export default function createRotatePage(): Component {
+export default function createRotatePage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let videoUrl: { url: string; revoke: () => void } | null = null
 
   if (!getVideoData()) {
@@ -211,6 +215,26 @@ export default function createRotatePage(): Component {
     flipSection.appendChild(flipButtonsDiv)
     controlsDiv.appendChild(flipSection)
 
+    // Lossless support depends on the file, not the settings, so it isn't saved.
+    const settings: PageSessionBinding = {
+      getParams: () => ({ rotation, isFlipHorizontal, isFlipVertical }),
+      onApply: (params) => {
+        const presetRotation = Number(params.rotation)
+        if (degrees.includes(presetRotation)) rotation = presetRotation
+        if (typeof params.isFlipHorizontal === "boolean") isFlipHorizontal = params.isFlipHorizontal
+        if (typeof params.isFlipVertical === "boolean") isFlipVertical = params.isFlipVertical
+        updateRotationButtons()
+        updateFlipButtons()
+        updatePreviewTransform()
+        updateInfoSection()
+        updateProcessingButton()
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "rotate", ...settings })
+    activeChildren.push(presetPicker)
+    untrackSession = trackPageSettings("rotate", settings, options.params)
+    controlsDiv.appendChild(presetPicker.element)
+
     settingsPanel.appendChild(controlsDiv)
 
     // Info section
@@ -258,17 +282,18 @@ export default function createRotatePage(): Component {
       },
     })
 
-    let processingBtn: Component | null = null
+    let processingBtn: ProcessingButton | null = null
     const processingBtnContainer = document.createElement("div")
 
     function updateProcessingButton(): void {
       if (processingBtn) {
-        processingBtn.destroy()
-        const idx = activeChildren.indexOf(processingBtn)
-        if (idx !== -1) activeChildren.splice(idx, 1)
+        processingBtn.update({ config: getActionConfig() })
+        return
       }
-      processingBtnContainer.innerHTML = ""
-      processingBtn = createProcessingButton({ config: getActionConfig() })
+      processingBtn = createProcessingButton({
+        config: getActionConfig(),
+        fieldTargets: { rotation: rotationSection, isFlipHorizontal: flipSection, isFlipVertical: flipSection },
+      })
       activeChildren.push(processingBtn)
       processingBtnContainer.appendChild(processingBtn.element)
     }
@@ -283,6 +308,7 @@ export default function createRotatePage(): Component {
   return {
     element: container,
     destroy: () => {
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
       videoUrl?.revoke()
     },
@@ -1,26 +1,49 @@
-import type { Component, ActionConfig } from "../types"
-import { getVideoData, subscribe } from "../store"
+import type { Component, ActionConfig, PageOptions } from "../types"
+import { getState, getVideoData, subscribe } from "../store"
 import { createVideoUploadPrompt } from "../components/video-upload-prompt"
 import { createBackButton } from "../components/back-button"
-import { createProcessingButton } from "../components/processing-button"
+import { createProcessingButton, type ProcessingButton } from "../components/processing-button"
+import { createPresetPicker } from "../components/preset-picker"
+import type { PageSessionBinding } from "../lib/session"
+import { trackPageSettings } from "../lib/settings-link"
 import { iconSvg } from "../lib/icons"
 import { createVideoUrl } from "../lib/video-url"
 import { createVideoFramerate } from "../lib/video-framerate"
 import { createFFmpegThumbnails } from "../lib/ffmpeg-thumbnails"
 import { createThumbnailZoom } from "../lib/thumbnail-zoom"
 import { createMarkerDrag } from "../lib/marker-drag"
-import { snapTimeToFrame, formatTime, formatTimeWithCentiseconds } from "../lib/time-utils"
+import { snapTimeToFrame, snapTimeToKeyframe, formatTime, formatTimeWithCentiseconds } from "../lib/time-utils"
+import { getKeptSegments, getTotalSegmentDuration, type TrimRange, type TrimMode } from "../lib/trim-ranges"
+import { getKeyframes, isKeyframeTime, findKeyframeAtOrBefore, type KeyframeInfo } from "../lib/keyframes"
+import { planSmartTrim, getReencodedDuration, type TrimCutMode } from "../lib/smart-trim"
+import { createLogger } from "../lib/logger"
+
+const log = createLogger("trim")
+
+/** Length of a newly added range when there is room after the playhead. */
+const DEFAULT_NEW_RANGE_SEC = 5
+
+interface ScrubberRangeElements {
+  selection: HTMLElement
+  startMarker: HTMLElement
+  endMarker: HTMLElement
+}
 
 /**
  * Trim page for cutting video segments with visual timeline preview.
- * Features a seekable scrubber timeline with draggable start/end markers,
- * a zoomable thumbnail strip, and keyboard navigation.
+ * Features a seekable scrubber timeline with draggable start/end markers for
+ * one or more ranges, a keep/remove toggle, a zoomable thumbnail strip, and
+ * keyboard navigation. All kept pieces are stitched into a single output.
+ * Cuts are either fast (keyframe-aligned stream copy) or exact (frame-accurate,
+ * re-encoding only the GOPs around each cut point). Keyframes are shown as tick
+ * marks on both timelines, and markers can optionally snap to them.
  */
-export default function createTrimPage(): Component {
+export default function createTrimPage(options: PageOptions = {}): Component {
   const container = document.createElement("div")
   container.className = "container mx-auto px-6 py-12 min-h-screen pt-20"
 
   let activeChildren: Component[] = []
+  let untrackSession: (() => void) | null = null
   let revokeUrl: () => void = () => {}
   let framerateHandle: { getFramerateFps: () => number; destroy: () => void } | null = null
   let thumbnailsHandle: ReturnType<typeof createFFmpegThumbnails> | null = null
@@ -32,15 +55,23 @@ export default function createTrimPage(): Component {
   let keydownHandler: ((e: KeyboardEvent) => void) | null = null
   let zoomUnsub: (() => void) | null = null
   let thumbnailStoreUnsub: (() => void) | null = null
-  let processingBtn: Component | null = null
+  let processingBtn: ProcessingButton | null = null
 
   // Mutable state
   let isPlaying = false
   let isMuted = false
   let currentTimeSec = 0
   let durationSec = 0
-  let startTimeSec = 0
-  let endTimeSec = 0
+  let ranges: TrimRange[] = [{ start: 0, end: 0 }]
+  let activeRangeIndex = 0
+  let trimMode: TrimMode = "keep"
+  let cutMode: TrimCutMode = "fast"
+  let keyframeInfo: KeyframeInfo | null = null
+  let isProbingKeyframes = false
+  let isSnapToKeyframes = false
+  let keyframeProbeUnsub: (() => void) | null = null
+  let isDestroyed = false
+  let scrubberRangeEls: ScrubberRangeElements[] = []
   let containerWidthPx = 0
   let isDragging = false
   let draggingMarkerType: "start" | "end" | null = null
@@ -67,19 +98,37 @@ export default function createTrimPage(): Component {
     return snapTimeToFrame(timeSec, getFramerate(), durationSec)
   }
 
+  function getKeyframeTimes(): number[] {
+    return keyframeInfo?.timestamps ?? []
+  }
+
+  /** Snaps a marker position to a keyframe when that option is on, otherwise to a frame. */
+  function snapMarkerTime(timeSec: number): number {
+    const keyframes = getKeyframeTimes()
+    if (isSnapToKeyframes && keyframes.length > 0) return snapTimeToKeyframe(timeSec, keyframes, durationSec)
+    return snapTime(timeSec)
+  }
+
+  function getActiveRange(): TrimRange {
+    return ranges[activeRangeIndex]
+  }
+
   function getActionConfig(): ActionConfig {
     return {
       type: "trim",
       params: {
-        start: snapTime(startTimeSec).toFixed(2),
-        end: snapTime(endTimeSec).toFixed(2),
+        mode: trimMode,
+        cutMode,
+        ranges: ranges.map((r) => ({
+          start: Number(snapTime(Math.min(r.start, r.end)).toFixed(3)),
+          end: Number(snapTime(Math.max(r.start, r.end)).toFixed(3)),
+        })),
       },
     }
   }
 
-  function handleClearSelection(): void {
-    startTimeSec = 0
-    endTimeSec = durationSec
+  /** Re-renders everything that depends on the ranges or the trim mode. */
+  function handleRangesChange(): void {
     updateScrubberTimeline()
     updateThumbnailStrip()
     updateSelectionInfo()
@@ -87,6 +136,107 @@ export default function createTrimPage(): Component {
     updateMarkButtons()
   }
 
+  function handleClearSelection(): void {
+    ranges = [{ start: 0, end: durationSec }]
+    activeRangeIndex = 0
+    trimMode = "keep"
+    updateModeToggle()
+    handleRangesChange()
+  }
+
+  /**
+   * Adds a new range starting at the playhead and makes it the active one.
+   * Falls back to ending at the playhead when it sits at the very end.
+   */
+  function handleAddRange(): void {
+    if (durationSec <= 0) return
+    let start = snapTime(currentTimeSec)
+    let end = snapTime(Math.min(durationSec, start + DEFAULT_NEW_RANGE_SEC))
+    if (end <= start) {
+      end = start
+      start = snapTime(Math.max(0, end - DEFAULT_NEW_RANGE_SEC))
+    }
+    ranges.push({ start, end })
+    activeRangeIndex = ranges.length - 1
+    handleRangesChange()
+  }
+
+  function handleRemoveRange(index: number): void {
+    if (ranges.length <= 1) return
+    ranges.splice(index, 1)
+    if (activeRangeIndex >= ranges.length) activeRangeIndex = ranges.length - 1
+    else if (activeRangeIndex > index) activeRangeIndex--
+    handleRangesChange()
+  }
+
+  function selectRange(index: number): void {
+    if (index === activeRangeIndex || !ranges[index]) return
+    activeRangeIndex = index
+    handleRangesChange()
+  }
+
+  function setTrimMode(mode: TrimMode): void {
+    if (mode === trimMode) return
+    trimMode = mode
+    updateModeToggle()
+    handleRangesChange()
+  }
+
+  function setCutMode(mode: TrimCutMode): void {
+    if (mode === cutMode) return
+    cutMode = mode
+    updateModeToggle()
+    updateSelectionInfo()
+    updateProcessingButton()
+  }
+
+  /** Probes keyframe positions once FFmpeg is ready, for the cut-mode status line. */
+  function startKeyframeProbe(): void {
+    if (getState().isFFmpegLoaded) {
+      runKeyframeProbe()
+      return
+    }
+    keyframeProbeUnsub = subscribe(() => {
+      const state = getState()
+      if (state.isFFmpegLoaded) {
+        keyframeProbeUnsub?.()
+        keyframeProbeUnsub = null
+        runKeyframeProbe()
+      }
+    })
+  }
+
+  async function runKeyframeProbe(): Promise<void> {
+    isProbingKeyframes = true
+    updateSelectionInfo()
+    try {
+      keyframeInfo = await getKeyframes()
+    } catch (err) {
+      log.error("Keyframe probe failed: %o", err)
+    } finally {
+      isProbingKeyframes = false
+      if (!isDestroyed) {
+        renderScrubberKeyframes()
+        updateSnapToggle()
+        recreateMarkerDrags()
+        updateThumbnailStrip()
+        updateSelectionInfo()
+      }
+    }
+  }
+
+  function setSnapToKeyframes(isEnabled: boolean): void {
+    isSnapToKeyframes = isEnabled
+    recreateMarkerDrags()
+  }
+
+  function updateSnapToggle(): void {
+    const checkbox = container.querySelector("#trim-snap-keyframes") as HTMLInputElement | null
+    if (!checkbox) return
+    checkbox.disabled = getKeyframeTimes().length === 0
+    checkbox.checked = isSnapToKeyframes
+  }
+
   function renderPage(): void {
     const videoData = getVideoData()
     if (!videoData) return
@@ -94,6 +244,7 @@ export default function createTrimPage(): Component {
     activeChildren.forEach((c) => c.destroy())
     activeChildren = []
     container.innerHTML = ""
+    scrubberRangeEls = []
 
     const urlResult = createVideoUrl(videoData.file)
     revokeUrl = urlResult.revoke
@@ -161,6 +312,14 @@ export default function createTrimPage(): Component {
     markEndBtn.innerHTML = `${iconSvg("Scissors", 16, "w-4 h-4")} Mark End`
     controlsDiv.appendChild(markEndBtn)
 
+    const addRangeBtn = document.createElement("button")
+    addRangeBtn.className =
+      "inline-flex items-center justify-center rounded-md text-sm font-medium border border-input bg-transparent hover:bg-accent hover:text-accent-foreground h-10 px-4 py-2 gap-2"
+    addRangeBtn.id = "trim-add-range"
+    addRangeBtn.innerHTML = `${iconSvg("Plus", 16, "w-4 h-4")} Add Range`
+    addRangeBtn.addEventListener("click", handleAddRange)
+    controlsDiv.appendChild(addRangeBtn)
+
     content.appendChild(controlsDiv)
 
     // Scrubber timeline
@@ -169,15 +328,9 @@ export default function createTrimPage(): Component {
     scrubberSection.innerHTML = `
       <div id="trim-scrubber" class="relative h-1.5 bg-secondary rounded-full cursor-pointer group">
         <div id="trim-scrub-progress" class="absolute top-0 left-0 h-full bg-accent rounded-full transition-all z-0" style="width:0%"></div>
+        <div id="trim-scrub-keyframes" class="absolute -top-1 -bottom-1 inset-x-0 pointer-events-none"></div>
         <div id="trim-scrub-viewport" class="absolute top-0 h-full bg-blue-500/20 border border-blue-500 rounded-full pointer-events-none" style="display:none"></div>
-        <div id="trim-scrub-selection" class="absolute top-0 h-full border-2 border-dashed border-yellow-400 opacity-50 rounded-full" style="left:0%;width:100%"></div>
         <div id="trim-scrub-playhead" class="absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-accent rounded-full shadow-lg transition-all z-10" style="left:0%;margin-left:-0.5rem"></div>
-        <div id="trim-scrub-start-marker" class="absolute top-1/2 -translate-y-1/2 w-4 h-6 bg-green-500 border-2 border-white rounded shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-20" style="left:0%;margin-left:-0.5rem">
-          <div class="absolute inset-0 flex items-center justify-center text-[8px] text-white font-bold">S</div>
-        </div>
-        <div id="trim-scrub-end-marker" class="absolute top-1/2 -translate-y-1/2 w-4 h-6 bg-red-500 border-2 border-white rounded shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-20" style="left:100%;margin-left:-0.5rem">
-          <div class="absolute inset-0 flex items-center justify-center text-[8px] text-white font-bold">E</div>
-        </div>
       </div>
       <div class="flex justify-between text-sm text-muted-foreground">
         <span id="trim-current-time">0:00</span>
@@ -191,10 +344,69 @@ export default function createTrimPage(): Component {
     thumbnailSection.className = "relative"
     thumbnailSection.innerHTML = `
       <div id="trim-thumb-container" class="flex gap-1 pb-2 cursor-grab"></div>
-      <div id="trim-thumb-selection" class="absolute top-0 h-24 border-t-2 border-b-2 border-dashed border-yellow-400 bg-yellow-500/20 pointer-events-none" style="display:none"></div>
     `
     content.appendChild(thumbnailSection)
 
+    // Keep / remove toggle
+    const modeToggle = document.createElement("div")
+    modeToggle.id = "trim-mode-toggle"
+    modeToggle.innerHTML = `
+      <span class="text-sm text-muted-foreground">Selected ranges:</span>
+      <div class="inline-flex rounded-md border border-input p-0.5">
+        <button data-trim-mode="keep" class="rounded px-3 py-1.5 text-sm font-medium">Keep selected</button>
+        <button data-trim-mode="remove" class="rounded px-3 py-1.5 text-sm font-medium">Remove selected</button>
+      </div>
+      <span class="text-sm text-muted-foreground ml-4">Cut:</span>
+      <div class="inline-flex rounded-md border border-input p-0.5">
+        <button data-trim-cut="fast" class="rounded px-3 py-1.5 text-sm font-medium" title="Stream copy, cuts snap to keyframes">Fast</button>
+        <button data-trim-cut="exact" class="rounded px-3 py-1.5 text-sm font-medium" title="Frame-accurate, re-encodes only around cut points">Exact</button>
+      </div>
+      <label class="inline-flex items-center gap-2 text-sm text-muted-foreground ml-4 cursor-pointer">
+        <input id="trim-snap-keyframes" type="checkbox" class="accent-[hsl(var(--accent))]" disabled />
+        Snap to keyframes
+      </label>
+    `
+    modeToggle.className = "flex flex-wrap items-center justify-center gap-2"
+    modeToggle.querySelectorAll<HTMLButtonElement>("[data-trim-mode]").forEach((btn) => {
+      btn.addEventListener("click", () => setTrimMode(btn.dataset.trimMode === "remove" ? "remove" : "keep"))
+    })
+    modeToggle.querySelectorAll<HTMLButtonElement>("[data-trim-cut]").forEach((btn) => {
+      btn.addEventListener("click", () => setCutMode(btn.dataset.trimCut === "exact" ? "exact" : "fast"))
+    })
+    const snapCheckbox = modeToggle.querySelector("#trim-snap-keyframes") as HTMLInputElement
+    snapCheckbox.addEventListener("change", () => setSnapToKeyframes(snapCheckbox.checked))
+    content.appendChild(modeToggle)
+
+    // Ranges are specific to this video, so presets keep the trim and cut modes only.
+    const settings: PageSessionBinding = {
+      getParams: () => ({ mode: trimMode, cutMode }),
+      onApply: (params) => {
+        if (params.mode === "keep" || params.mode === "remove") setTrimMode(params.mode)
+        if (params.cutMode === "fast" || params.cutMode === "exact") setCutMode(params.cutMode)
+      },
+    }
+    const presetPicker = createPresetPicker({ type: "trim", ...settings })
+    activeChildren.push(presetPicker)
+    // Unlike presets, a saved session is for this same video, so it keeps the ranges.
+    untrackSession = trackPageSettings("trim", settings, options.params, {
+      getParams: () => ({ mode: trimMode, cutMode, ranges: ranges.map((r) => ({ ...r })), activeRangeIndex }),
+      onApply: (params) => {
+        const restored = Array.isArray(params.ranges)
+          ? (params.ranges as TrimRange[]).filter((r) => Number.isFinite(r?.start) && Number.isFinite(r?.end))
+          : []
+        if (restored.length > 0) {
+          ranges = restored
+          activeRangeIndex = Math.min(Math.max(0, Number(params.activeRangeIndex) || 0), ranges.length - 1)
+        }
+        if (params.mode === "keep" || params.mode === "remove") trimMode = params.mode
+        if (params.cutMode === "fast" || params.cutMode === "exact") cutMode = params.cutMode
+        updateModeToggle()
+        handleRangesChange()
+      },
+    })
+    presetPicker.element.classList.add("max-w-md", "mx-auto", "w-full")
+    content.appendChild(presetPicker.element)
+
     // Selection info
     const selectionInfo = document.createElement("div")
     selectionInfo.id = "trim-selection-info"
@@ -209,6 +421,7 @@ export default function createTrimPage(): Component {
 
     inner.appendChild(content)
     container.appendChild(inner)
+    updateModeToggle()
 
     // Set up framerate detection
     framerateHandle = createVideoFramerate(videoEl)
@@ -219,12 +432,13 @@ export default function createTrimPage(): Component {
     // Video events
     videoEl.addEventListener("loadedmetadata", () => {
       durationSec = videoEl!.duration
-      if (endTimeSec === 0) endTimeSec = durationSec
+      if (ranges.length === 1 && ranges[0].end === 0) ranges[0].end = durationSec
 
       const durLabel = container.querySelector("#trim-duration-time")
       if (durLabel) durLabel.textContent = formatTime(durationSec)
 
       initZoomAndMarkers()
+      startKeyframeProbe()
       updateScrubberTimeline()
       updateSelectionInfo()
       updateProcessingButton()
@@ -259,21 +473,13 @@ export default function createTrimPage(): Component {
     })
 
     markStartBtn.addEventListener("click", () => {
-      startTimeSec = snapTime(currentTimeSec)
-      updateScrubberTimeline()
-      updateThumbnailStrip()
-      updateSelectionInfo()
-      updateProcessingButton()
-      updateMarkButtons()
+      getActiveRange().start = snapMarkerTime(currentTimeSec)
+      handleRangesChange()
     })
 
     markEndBtn.addEventListener("click", () => {
-      endTimeSec = snapTime(currentTimeSec)
-      updateScrubberTimeline()
-      updateThumbnailStrip()
-      updateSelectionInfo()
-      updateProcessingButton()
-      updateMarkButtons()
+      getActiveRange().end = snapMarkerTime(currentTimeSec)
+      handleRangesChange()
     })
 
     // Scrubber click to seek
@@ -423,7 +629,8 @@ export default function createTrimPage(): Component {
 
   /**
    * Creates or recreates marker drag handlers for both the scrubber (full timeline)
-   * and the thumbnail strip (zoomed range).
+   * and the thumbnail strip (zoomed range). Both operate on the active range;
+   * pressing a marker of another range activates that range first.
    */
   function recreateMarkerDrags(): void {
     scrubberMarkerDrag?.destroy()
@@ -440,26 +647,20 @@ export default function createTrimPage(): Component {
       videoEl,
       framerate: getFramerate(),
       duration: durationSec,
-      getStartTime: () => startTimeSec,
-      getEndTime: () => endTimeSec,
+      keyframes: getKeyframeTimes(),
+      snapToKeyframes: isSnapToKeyframes,
+      getStartTime: () => getActiveRange().start,
+      getEndTime: () => getActiveRange().end,
       visibleStart: 0,
       visibleEnd: durationSec,
       containerWidth: containerWidthPx,
       onStartChange: (time) => {
-        startTimeSec = time
-        updateScrubberTimeline()
-        updateThumbnailStrip()
-        updateSelectionInfo()
-        updateProcessingButton()
-        updateMarkButtons()
+        getActiveRange().start = time
+        handleRangesChange()
       },
       onEndChange: (time) => {
-        endTimeSec = time
-        updateScrubberTimeline()
-        updateThumbnailStrip()
-        updateSelectionInfo()
-        updateProcessingButton()
-        updateMarkButtons()
+        getActiveRange().end = time
+        handleRangesChange()
       },
       onDragStateChange: (dragging, markerType) => {
         isDragging = dragging
@@ -472,26 +673,20 @@ export default function createTrimPage(): Component {
       videoEl,
       framerate: getFramerate(),
       duration: durationSec,
-      getStartTime: () => startTimeSec,
-      getEndTime: () => endTimeSec,
+      keyframes: getKeyframeTimes(),
+      snapToKeyframes: isSnapToKeyframes,
+      getStartTime: () => getActiveRange().start,
+      getEndTime: () => getActiveRange().end,
       visibleStart: zState ? zState.visibleStartSec : 0,
       visibleEnd,
       containerWidth: containerWidthPx,
       onStartChange: (time) => {
-        startTimeSec = time
-        updateScrubberTimeline()
-        updateThumbnailStrip()
-        updateSelectionInfo()
-        updateProcessingButton()
-        updateMarkButtons()
+        getActiveRange().start = time
+        handleRangesChange()
       },
       onEndChange: (time) => {
-        endTimeSec = time
-        updateScrubberTimeline()
-        updateThumbnailStrip()
-        updateSelectionInfo()
-        updateProcessingButton()
-        updateMarkButtons()
+        getActiveRange().end = time
+        handleRangesChange()
       },
       onDragStateChange: (dragging, markerType) => {
         isDragging = dragging
@@ -499,16 +694,6 @@ export default function createTrimPage(): Component {
         updateMarkerVisuals()
       },
     })
-
-    // Attach scrubber marker handlers
-    const scrubStartMarker = container.querySelector("#trim-scrub-start-marker") as HTMLElement
-    const scrubEndMarker = container.querySelector("#trim-scrub-end-marker") as HTMLElement
-    if (scrubStartMarker && scrubberMarkerDrag) {
-      scrubStartMarker.onpointerdown = (e) => scrubberMarkerDrag!.handleStartMarkerPointerDown(e)
-    }
-    if (scrubEndMarker && scrubberMarkerDrag) {
-      scrubEndMarker.onpointerdown = (e) => scrubberMarkerDrag!.handleEndMarkerPointerDown(e)
-    }
   }
 
   function requestVisibleThumbnails(): void {
@@ -544,39 +729,150 @@ export default function createTrimPage(): Component {
       }
     }
 
-    // Selection overlay
-    const selection = container.querySelector("#trim-scrub-selection") as HTMLElement
-    if (selection) {
-      const startPct = (startTimeSec / durationSec) * 100
-      const endPct = (endTimeSec / durationSec) * 100
-      selection.style.left = `${Math.min(startPct, endPct)}%`
-      selection.style.width = `${Math.abs(endPct - startPct)}%`
-    }
+    // Selection overlays and start/end markers, one set per range
+    syncScrubberRangeElements()
+    ranges.forEach((range, i) => {
+      const els = scrubberRangeEls[i]
+      const startPct = (range.start / durationSec) * 100
+      const endPct = (range.end / durationSec) * 100
+      els.selection.style.left = `${Math.min(startPct, endPct)}%`
+      els.selection.style.width = `${Math.abs(endPct - startPct)}%`
+      els.startMarker.style.left = `${startPct}%`
+      els.startMarker.title = `${getRangeLabel(i)} start: ${formatTime(range.start)}`
+      els.endMarker.style.left = `${endPct}%`
+      els.endMarker.title = `${getRangeLabel(i)} end: ${formatTime(range.end)}`
+    })
 
-    // Start/End markers
-    const startMarker = container.querySelector("#trim-scrub-start-marker") as HTMLElement
-    const endMarker = container.querySelector("#trim-scrub-end-marker") as HTMLElement
-    if (startMarker) {
-      startMarker.style.left = `${(startTimeSec / durationSec) * 100}%`
-      startMarker.title = `Start: ${formatTime(startTimeSec)}`
-    }
-    if (endMarker) {
-      endMarker.style.left = `${(endTimeSec / durationSec) * 100}%`
-      endMarker.title = `End: ${formatTime(endTimeSec)}`
+    updateMarkerVisuals()
+  }
+
+  /** Draws a tick on the scrubber for every keyframe. The scrubber always spans the whole video. */
+  function renderScrubberKeyframes(): void {
+    const layer = container.querySelector("#trim-scrub-keyframes") as HTMLElement
+    if (!layer || durationSec <= 0) return
+    layer.innerHTML = getKeyframeTimes()
+      .map((kf) => `<div class="absolute top-0 h-full w-px bg-foreground/40" style="left:${(kf / durationSec) * 100}%"></div>`)
+      .join("")
+  }
+
+  function getRangeLabel(index: number): string {
+    return `Range ${index + 1}`
+  }
+
+  /** Returns the dashed selection colour for the current mode. */
+  function getSelectionColorClasses(): string {
+    return trimMode === "remove" ? "border-red-400 bg-red-500/20" : "border-yellow-400 bg-yellow-500/20"
+  }
+
+  /**
+   * Keeps one selection overlay and one pair of markers on the scrubber per range.
+   * Elements are reused across updates (keyed by range index) so that a marker
+   * being dragged is not replaced mid-drag.
+   */
+  function syncScrubberRangeElements(): void {
+    const scrubber = container.querySelector("#trim-scrubber") as HTMLElement
+    if (!scrubber) return
+
+    while (scrubberRangeEls.length > ranges.length) {
+      const els = scrubberRangeEls.pop()!
+      els.selection.remove()
+      els.startMarker.remove()
+      els.endMarker.remove()
     }
 
-    updateMarkerVisuals()
+    while (scrubberRangeEls.length < ranges.length) {
+      const index = scrubberRangeEls.length
+
+      const selection = document.createElement("div")
+      selection.setAttribute("data-scrub-range", String(index))
+      selection.addEventListener("click", () => selectRange(index))
+
+      const startMarker = document.createElement("div")
+      startMarker.setAttribute("data-scrub-marker", "start")
+      startMarker.style.marginLeft = "-0.5rem"
+      startMarker.innerHTML = `<div class="absolute inset-0 flex items-center justify-center text-[8px] text-white font-bold">S</div>`
+      startMarker.addEventListener("pointerdown", (e) => {
+        selectRange(index)
+        scrubberMarkerDrag?.handleStartMarkerPointerDown(e)
+      })
+
+      const endMarker = document.createElement("div")
+      endMarker.setAttribute("data-scrub-marker", "end")
+      endMarker.style.marginLeft = "-0.5rem"
+      endMarker.innerHTML = `<div class="absolute inset-0 flex items-center justify-center text-[8px] text-white font-bold">E</div>`
+      endMarker.addEventListener("pointerdown", (e) => {
+        selectRange(index)
+        scrubberMarkerDrag?.handleEndMarkerPointerDown(e)
+      })
+
+      scrubber.append(selection, startMarker, endMarker)
+      scrubberRangeEls.push({ selection, startMarker, endMarker })
+    }
   }
 
   function updateMarkerVisuals(): void {
-    const scrubStart = container.querySelector("#trim-scrub-start-marker") as HTMLElement
-    const scrubEnd = container.querySelector("#trim-scrub-end-marker") as HTMLElement
-    if (scrubStart) {
-      scrubStart.className = `absolute top-1/2 -translate-y-1/2 w-4 h-6 bg-green-500 border-2 border-white rounded shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-20 ${isDragging && draggingMarkerType === "start" ? "scale-125" : ""}`
+    scrubberRangeEls.forEach((els, i) => {
+      const isActive = i === activeRangeIndex
+      const dimClass = isActive ? "" : "opacity-60"
+      els.selection.className = `absolute top-0 h-full border-2 border-dashed rounded-full ${getSelectionColorClasses()} ${isActive ? "opacity-70" : "opacity-40"}`
+      els.startMarker.className = `absolute top-1/2 -translate-y-1/2 w-4 h-6 bg-green-500 border-2 border-white rounded shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-20 ${dimClass} ${isActive && isDragging && draggingMarkerType === "start" ? "scale-125" : ""}`
+      els.endMarker.className = `absolute top-1/2 -translate-y-1/2 w-4 h-6 bg-red-500 border-2 border-white rounded shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-20 ${dimClass} ${isActive && isDragging && draggingMarkerType === "end" ? "scale-125" : ""}`
+    })
+  }
+
+  function updateModeToggle(): void {
+    container.querySelectorAll<HTMLButtonElement>("[data-trim-mode], [data-trim-cut]").forEach((btn) => {
+      const isSelected = btn.dataset.trimMode === trimMode || btn.dataset.trimCut === cutMode
+      btn.className = `rounded px-3 py-1.5 text-sm font-medium transition-colors ${isSelected ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"}`
+      btn.setAttribute("aria-pressed", String(isSelected))
+    })
+  }
+
+  /**
+   * Describes whether the active range's start lies on a keyframe and what the
+   * selected cut mode will do with the current segments.
+   */
+  function getCutInfoHtml(segments: TrimRange[]): string {
+    if (isProbingKeyframes) {
+      return `<p class="text-muted-foreground text-xs">${iconSvg("Loader2", 12, "w-3 h-3 inline animate-spin")} Checking keyframe positions...</p>`
     }
-    if (scrubEnd) {
-      scrubEnd.className = `absolute top-1/2 -translate-y-1/2 w-4 h-6 bg-red-500 border-2 border-white rounded shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-20 ${isDragging && draggingMarkerType === "end" ? "scale-125" : ""}`
+    if (!keyframeInfo || keyframeInfo.timestamps.length === 0) {
+      return cutMode === "exact"
+        ? '<p class="text-muted-foreground text-xs">Keyframe positions unavailable. Exact mode will re-encode the selected segments.</p>'
+        : '<p class="text-muted-foreground text-xs">Keyframe positions unavailable. Fast mode cuts may start slightly before the selected frame.</p>'
+    }
+
+    const keyframes = keyframeInfo.timestamps
+    const activeStart = Math.min(getActiveRange().start, getActiveRange().end)
+    const previousKeyframe = findKeyframeAtOrBefore(keyframes, activeStart)
+    const startLine = isKeyframeTime(keyframes, activeStart)
+      ? `${getRangeLabel(activeRangeIndex)} start (${formatTimeWithCentiseconds(activeStart)}) is on a keyframe.`
+      : `${getRangeLabel(activeRangeIndex)} start (${formatTimeWithCentiseconds(activeStart)}) is not on a keyframe${previousKeyframe !== null ? ` (previous keyframe at ${formatTimeWithCentiseconds(previousKeyframe)})` : ""}.`
+
+    let modeLine: string
+    if (cutMode === "fast") {
+      const isAligned = segments.every((seg) => isKeyframeTime(keyframes, seg.start))
+      modeLine = isAligned
+        ? "Fast mode: lossless stream copy. Every cut starts on a keyframe, so the output is frame-exact."
+        : "Fast mode: lossless stream copy. Cuts that don't start on a keyframe begin at the previous keyframe instead."
+    } else {
+      const canCopy = keyframeInfo.videoCodec === "h264"
+      const parts = planSmartTrim(segments, keyframes, canCopy)
+      const reencodedSec = getReencodedDuration(parts)
+      const reencodedCount = parts.filter((p) => p.reencode).length
+      if (reencodedCount === 0) {
+        modeLine = "Exact mode: every cut point is on a keyframe, so the whole output is stream-copied."
+      } else if (!canCopy) {
+        modeLine = `Exact mode: re-encodes the whole selection (${keyframeInfo.videoCodec ?? "this codec"} can't be partially copied).`
+      } else {
+        modeLine = `Exact mode: re-encodes ${reencodedCount} short section${reencodedCount === 1 ? "" : "s"} (${reencodedSec.toFixed(1)}s) at the cut points and copies the rest.`
+      }
     }
+
+    return `
+      <p class="text-muted-foreground text-xs">${startLine}</p>
+      <p class="text-muted-foreground text-xs">${modeLine}</p>
+    `
   }
 
   function updateThumbnailStrip(): void {
@@ -630,65 +926,77 @@ export default function createTrimPage(): Component {
       thumbContainer.appendChild(thumbDiv)
     }
 
-    // Thumbnail selection overlay
-    const thumbSelection = container.querySelector("#trim-thumb-selection") as HTMLElement
-    if (thumbSelection) {
-      const visDuration = zState.visibleDurationSec > 0 ? zState.visibleDurationSec : durationSec
-      if (visDuration <= 0 || zState.timestamps.length === 0) {
-        thumbSelection.style.display = "none"
-      } else {
-        const relStart = Math.max(0, (startTimeSec - zState.visibleStartSec) / visDuration)
-        const relEnd = Math.min(1, (endTimeSec - zState.visibleStartSec) / visDuration)
-
-        if (relEnd <= 0 || relStart >= 1) {
-          thumbSelection.style.display = "none"
-        } else {
-          thumbSelection.style.display = "block"
-          thumbSelection.style.left = `${Math.max(0, Math.min(relStart, relEnd)) * 100}%`
-          thumbSelection.style.width = `${Math.abs(relEnd - relStart) * 100}%`
-        }
-      }
-    }
-
-    // Thumbnail strip markers
+    // Thumbnail strip selection overlays and markers
     const thumbSection = container.querySelector("#trim-thumb-container")?.parentElement
     if (!thumbSection) return
 
-    // Remove old thumbnail markers
-    thumbSection.querySelectorAll("[data-thumb-marker]").forEach((el) => el.remove())
+    // Remove old thumbnail overlays, keyframe ticks and markers
+    thumbSection.querySelectorAll("[data-thumb-selection], [data-thumb-keyframe], [data-thumb-marker]").forEach((el) => el.remove())
 
     const visDuration = zState.visibleDurationSec || durationSec
     const visEnd = zState.visibleStartSec + zState.visibleDurationSec
-
-    // Start marker on thumbnail strip
-    if (durationSec > 0 && startTimeSec >= zState.visibleStartSec && startTimeSec <= visEnd) {
-      const marker = document.createElement("div")
-      marker.setAttribute("data-thumb-marker", "start")
-      marker.className = `absolute top-0 w-4 h-24 bg-green-500 border-2 border-white shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-30 ${isDragging && draggingMarkerType === "start" ? "scale-125" : ""}`
-      marker.style.left = `${((startTimeSec - zState.visibleStartSec) / visDuration) * 100}%`
-      marker.style.marginLeft = "-0.5rem"
-      marker.title = `Start: ${formatTime(startTimeSec)}`
-      marker.innerHTML = `<div class="absolute inset-0 flex items-center justify-center text-[10px] text-white font-bold">S</div>`
-      marker.addEventListener("pointerdown", (e) => {
-        thumbnailMarkerDrag?.handleStartMarkerPointerDown(e)
-      })
-      thumbSection.appendChild(marker)
+    if (durationSec <= 0 || visDuration <= 0 || zState.timestamps.length === 0) return
+
+    // Keyframe ticks within the visible range
+    for (const kf of getKeyframeTimes()) {
+      if (kf < zState.visibleStartSec) continue
+      if (kf > visEnd) break
+      const tick = document.createElement("div")
+      tick.setAttribute("data-thumb-keyframe", "")
+      tick.className = "absolute top-0 h-24 w-0.5 bg-white/70 shadow pointer-events-none z-20"
+      tick.style.left = `${((kf - zState.visibleStartSec) / visDuration) * 100}%`
+      tick.title = `Keyframe at ${formatTimeWithCentiseconds(kf)}`
+      thumbSection.appendChild(tick)
     }
 
-    // End marker on thumbnail strip
-    if (durationSec > 0 && endTimeSec >= zState.visibleStartSec && endTimeSec <= visEnd) {
-      const marker = document.createElement("div")
-      marker.setAttribute("data-thumb-marker", "end")
-      marker.className = `absolute top-0 w-4 h-24 bg-red-500 border-2 border-white shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-30 ${isDragging && draggingMarkerType === "end" ? "scale-125" : ""}`
-      marker.style.left = `${((endTimeSec - zState.visibleStartSec) / visDuration) * 100}%`
-      marker.style.marginLeft = "-0.5rem"
-      marker.title = `End: ${formatTime(endTimeSec)}`
-      marker.innerHTML = `<div class="absolute inset-0 flex items-center justify-center text-[10px] text-white font-bold">E</div>`
-      marker.addEventListener("pointerdown", (e) => {
-        thumbnailMarkerDrag?.handleEndMarkerPointerDown(e)
-      })
-      thumbSection.appendChild(marker)
-    }
+    ranges.forEach((range, i) => {
+      const isActive = i === activeRangeIndex
+      const dimClass = isActive ? "" : "opacity-60"
+
+      // Selection overlay
+      const relStart = Math.max(0, (Math.min(range.start, range.end) - zState.visibleStartSec) / visDuration)
+      const relEnd = Math.min(1, (Math.max(range.start, range.end) - zState.visibleStartSec) / visDuration)
+      if (relEnd > 0 && relStart < 1) {
+        const selection = document.createElement("div")
+        selection.setAttribute("data-thumb-selection", String(i))
+        selection.className = `absolute top-0 h-24 border-t-2 border-b-2 border-dashed pointer-events-none ${getSelectionColorClasses()} ${dimClass}`
+        selection.style.left = `${relStart * 100}%`
+        selection.style.width = `${(relEnd - relStart) * 100}%`
+        thumbSection.appendChild(selection)
+      }
+
+      // Start marker on thumbnail strip
+      if (range.start >= zState.visibleStartSec && range.start <= visEnd) {
+        const marker = document.createElement("div")
+        marker.setAttribute("data-thumb-marker", "start")
+        marker.className = `absolute top-0 w-4 h-24 bg-green-500 border-2 border-white shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-30 ${dimClass} ${isActive && isDragging && draggingMarkerType === "start" ? "scale-125" : ""}`
+        marker.style.left = `${((range.start - zState.visibleStartSec) / visDuration) * 100}%`
+        marker.style.marginLeft = "-0.5rem"
+        marker.title = `${getRangeLabel(i)} start: ${formatTime(range.start)}`
+        marker.innerHTML = `<div class="absolute inset-0 flex items-center justify-center text-[10px] text-white font-bold">S</div>`
+        marker.addEventListener("pointerdown", (e) => {
+          selectRange(i)
+          thumbnailMarkerDrag?.handleStartMarkerPointerDown(e)
+        })
+        thumbSection.appendChild(marker)
+      }
+
+      // End marker on thumbnail strip
+      if (range.end >= zState.visibleStartSec && range.end <= visEnd) {
+        const marker = document.createElement("div")
+        marker.setAttribute("data-thumb-marker", "end")
+        marker.className = `absolute top-0 w-4 h-24 bg-red-500 border-2 border-white shadow-lg cursor-ew-resize hover:scale-110 transition-transform z-30 ${dimClass} ${isActive && isDragging && draggingMarkerType === "end" ? "scale-125" : ""}`
+        marker.style.left = `${((range.end - zState.visibleStartSec) / visDuration) * 100}%`
+        marker.style.marginLeft = "-0.5rem"
+        marker.title = `${getRangeLabel(i)} end: ${formatTime(range.end)}`
+        marker.innerHTML = `<div class="absolute inset-0 flex items-center justify-center text-[10px] text-white font-bold">E</div>`
+        marker.addEventListener("pointerdown", (e) => {
+          selectRange(i)
+          thumbnailMarkerDrag?.handleEndMarkerPointerDown(e)
+        })
+        thumbSection.appendChild(marker)
+      }
+    })
   }
 
   function updateSelectionInfo(): void {
@@ -696,18 +1004,47 @@ export default function createTrimPage(): Component {
     if (!infoEl) return
 
     if (durationSec > 0) {
+      const segments = getKeptSegments(ranges, trimMode, durationSec)
+      const outputDurationSec = getTotalSegmentDuration(segments)
+      const hasSingleFrame = ranges.some((r) => r.start === r.end)
+
+      const rows = ranges
+        .map((range, i) => `
+          <div data-range-row="${i}" class="flex items-center gap-4 rounded px-2 py-1 cursor-pointer ${i === activeRangeIndex ? "bg-background" : "hover:bg-background/50"}">
+            <span class="font-medium w-20">${getRangeLabel(i)}</span>
+            <span>Start: ${formatTime(Math.min(range.start, range.end))}</span>
+            <span>End: ${formatTime(Math.max(range.start, range.end))}</span>
+            <span>Duration: ${formatTime(Math.abs(range.end - range.start))}</span>
+            ${ranges.length > 1
+              ? `<button data-remove-range="${i}" class="ml-auto inline-flex items-center justify-center rounded-md hover:bg-accent hover:text-accent-foreground w-6 h-6" aria-label="Remove ${getRangeLabel(i)}">${iconSvg("X", 14, "w-3.5 h-3.5")}</button>`
+              : ""}
+          </div>
+        `)
+        .join("")
+
       infoEl.style.display = "block"
       infoEl.innerHTML = `
         <div class="text-sm space-y-1">
-          <p class="text-muted-foreground">Selection:</p>
-          <div class="flex gap-4">
-            <span>Start: ${formatTime(startTimeSec)}</span>
-            <span>End: ${formatTime(endTimeSec)}</span>
-            <span>Duration: ${formatTime(Math.abs(endTimeSec - startTimeSec))}</span>
-          </div>
-          ${startTimeSec === endTimeSec ? '<p class="text-yellow-600 text-xs mt-2">Warning: Single frame selected</p>' : ""}
+          <p class="text-muted-foreground">${trimMode === "keep" ? "Keeping" : "Removing"} ${ranges.length === 1 ? "selection" : `${ranges.length} ranges`}:</p>
+          ${rows}
+          <p class="text-muted-foreground pt-2">
+            Output: ${formatTime(outputDurationSec)}${segments.length > 1 ? ` from ${segments.length} segments joined together` : ""}
+          </p>
+          ${hasSingleFrame ? '<p class="text-yellow-600 text-xs mt-2">Warning: Single frame selected</p>' : ""}
+          ${segments.length === 0 ? '<p class="text-destructive text-xs mt-2">Nothing would be left to export. Adjust the ranges or switch to keeping them.</p>' : ""}
+          <div class="pt-2 space-y-0.5">${getCutInfoHtml(segments)}</div>
         </div>
       `
+
+      infoEl.querySelectorAll<HTMLElement>("[data-range-row]").forEach((row) => {
+        row.addEventListener("click", () => selectRange(Number(row.dataset.rangeRow)))
+      })
+      infoEl.querySelectorAll<HTMLElement>("[data-remove-range]").forEach((btn) => {
+        btn.addEventListener("click", (e) => {
+          e.stopPropagation()
+          handleRemoveRange(Number(btn.dataset.removeRange))
+        })
+      })
     } else {
       infoEl.style.display = "none"
     }
@@ -716,7 +1053,8 @@ export default function createTrimPage(): Component {
   function updateMarkButtons(): void {
     const markStartBtn = container.querySelector("#trim-mark-start") as HTMLElement
     const markEndBtn = container.querySelector("#trim-mark-end") as HTMLElement
-    const isDefault = startTimeSec === 0 && endTimeSec === durationSec
+    const activeRange = getActiveRange()
+    const isDefault = ranges.length === 1 && activeRange.start === 0 && activeRange.end === durationSec
 
     if (markStartBtn) {
       markStartBtn.innerHTML = `${iconSvg("Scissors", 16, "w-4 h-4")} ${isDefault ? "Mark Start" : "Update Start"}`
@@ -731,28 +1069,28 @@ export default function createTrimPage(): Component {
     if (!procContainer) return
 
     if (processingBtn) {
-      processingBtn.destroy()
-      const idx = activeChildren.indexOf(processingBtn)
-      if (idx !== -1) activeChildren.splice(idx, 1)
+      processingBtn.update({ config: getActionConfig() })
+      return
     }
-    procContainer.innerHTML = ""
+    if (durationSec <= 0) return
 
-    if (durationSec > 0) {
-      processingBtn = createProcessingButton({
-        config: getActionConfig(),
-        onReset: handleClearSelection,
-      })
-      activeChildren.push(processingBtn)
-      procContainer.appendChild(processingBtn.element)
-    } else {
-      processingBtn = null
-    }
+    const scrubberSection = (container.querySelector("#trim-scrubber") as HTMLElement).parentElement!
+    processingBtn = createProcessingButton({
+      config: getActionConfig(),
+      onReset: handleClearSelection,
+      fieldTargets: { ranges: scrubberSection },
+    })
+    activeChildren.push(processingBtn)
+    procContainer.appendChild(processingBtn.element)
   }
 
   return {
     element: container,
     destroy: () => {
+      isDestroyed = true
+      untrackSession?.()
       activeChildren.forEach((c) => c.destroy())
+      keyframeProbeUnsub?.()
       revokeUrl()
       framerateHandle?.destroy()
       thumbnailsHandle?.destroy()
@@ -1,6 +1,7 @@
-import type { RouteConfig, Component } from "./types"
-import { getState, cancelProcessing } from "./store"
+import type { RouteConfig, Component, ActionType, PageOptions } from "./types"
+import { hasActiveJobs, cancelFFmpegJobs, hasActiveProcessing, cancelProcessing } from "./store"
 import { trackPageView } from "./lib/analytics"
+import { readSettingsQuery } from "./lib/settings-link"
 import { createLogger } from "./lib/logger"
 
 const log = createLogger("router")
@@ -22,6 +23,7 @@ export const actionTypePath: Record<string, string> = {
   "normalize-audio": "/audio-leveler-online",
   rotate: "/flip-and-rotate-video-orientation",
   overlay: "/veed-watermark-alternative",
+  "media-info": "/video-metadata-viewer-online",
 }
 
 /**
@@ -56,6 +58,12 @@ const routes: Record<string, RouteConfig> = {
       "Select a video editing operation — trim, convert, compress, resize, extract audio, create GIFs, and more. Free browser-based video editor.",
     load: () => import("./pages/actions"),
   },
+  "/batch": {
+    title: "Batch Process Videos - Qcut",
+    description:
+      "Apply one edit to many videos at once — compress, convert, resize, and more. Runs entirely in your browser with no upload.",
+    load: () => import("./pages/batch"),
+  },
   "/trim-video-online-free": {
     title: "Trim Video Online Free (No Upload, No Watermark)",
     description:
@@ -128,6 +136,12 @@ const routes: Record<string, RouteConfig> = {
       "Looking for a Veed alternative without watermarks? Trim, compress, and convert videos privately in your browser with no account required.",
     load: () => import("./pages/overlay"),
   },
+  "/video-metadata-viewer-online": {
+    title: "Video Metadata Viewer Online (Codecs, Bitrate, Streams)",
+    description:
+      "Inspect a video's container, codecs, streams, keyframes, bitrate and tags in your browser. No upload, no install — a free online ffprobe.",
+    load: () => import("./pages/media-info"),
+  },
   "/privacy": {
     title: "Privacy Policy - Qcut",
     description: "Privacy Policy for Qcut video editor",
@@ -154,6 +168,12 @@ const routes: Record<string, RouteConfig> = {
 let currentCleanup: (() => void) | null = null
 let currentPath = ""
 
+/** Returns the action whose page lives at the path, if any. */
+function getActionTypeForPath(path: string): ActionType | null {
+  const entry = Object.entries(actionTypePath).find(([type, actionPath]) => actionPath === path && type !== "media-info")
+  return entry ? (entry[0] as ActionType) : null
+}
+
 /** Strips trailing slash from path (except root "/"). */
 function normalizePath(path: string): string {
   return path !== "/" && path.endsWith("/") ? path.slice(0, -1) : path
@@ -161,7 +181,8 @@ function normalizePath(path: string): string {
 
 /**
  * Renders the route matching the given path into #page-content.
- * Calls the previous page's destroy() before mounting the new one.
+ * Calls the previous page's destroy() before mounting the new one. Settings
+ * in the current URL's query string are validated and handed to action pages.
  */
 async function renderRoute(path: string): Promise<void> {
   path = normalizePath(path)
@@ -170,7 +191,7 @@ async function renderRoute(path: string): Promise<void> {
   const redirectTarget = redirects[path]
   if (redirectTarget) {
     log.debug("Redirecting %s → %s", path, redirectTarget)
-    navigate(redirectTarget, true)
+    navigate(redirectTarget + window.location.search, true)
     return
   }
 
@@ -215,7 +236,11 @@ async function renderRoute(path: string): Promise<void> {
       return
     }
 
-    const page = mod.default()
+    const actionType = getActionTypeForPath(path)
+    const options: PageOptions = {
+      params: (actionType && readSettingsQuery(actionType, window.location.search)) ?? undefined,
+    }
+    const page = mod.default(options)
     container.appendChild(page.element)
     currentCleanup = page.destroy
   } catch (err) {
@@ -231,26 +256,28 @@ async function renderRoute(path: string): Promise<void> {
 
 /**
  * Navigates to a new path. Shows a confirmation dialog if processing is active.
- * @param path - The target path
+ * @param path - The target path, optionally with a query string of settings
  * @param isReplace - Use replaceState instead of pushState
  */
 export async function navigate(path: string, isReplace = false): Promise<void> {
-  path = normalizePath(path)
-  if (path === currentPath) return
+  const url = new URL(path, window.location.origin)
+  path = normalizePath(url.pathname)
+  if (path === currentPath && url.search === window.location.search) return
 
   // Navigation guard: confirm before navigating away during processing
-  if (getState().isProcessing) {
+  if (hasActiveProcessing() || hasActiveJobs("encode")) {
     const shouldLeave = window.confirm(
       "Video processing is currently in progress. If you navigate away, the processing will be cancelled and you will lose any progress.\n\nCancel processing and navigate?"
     )
     if (!shouldLeave) return
-    await cancelProcessing()
+    cancelProcessing()
+    cancelFFmpegJobs("encode")
   }
 
   if (isReplace) {
-    history.replaceState(null, "", path)
+    history.replaceState(null, "", path + url.search)
   } else {
-    history.pushState(null, "", path)
+    history.pushState(null, "", path + url.search)
   }
 
   await renderRoute(path)
@@ -280,6 +307,14 @@ export function initRouter(): void {
   renderRoute(window.location.pathname)
 }
 
+/**
+ * Re-renders the current route, for when state the page was built from (e.g.
+ * the loaded video) changed from outside it.
+ */
+export function refreshRoute(): Promise<void> {
+  return renderRoute(currentPath)
+}
+
 /** Returns the current path. */
 export function getCurrentPath(): string {
   return currentPath
@@ -0,0 +1,65 @@
+/**
+ * Qcut service worker. Not bundled: vite.config.ts (serviceWorkerPlugin) copies
+ * it to dist/sw.js and replaces the placeholder below with the build's
+ * precache list, so it must stay plain JS with no imports.
+ */
+
+/** @type {{ version: string, shell: string[], core: { cacheName: string, urls: string[] } }} */
+const PRECACHE = self.__QCUT_PRECACHE__
+
+const SHELL_CACHE_PREFIX = "qcut-shell-"
+const SHELL_CACHE = `${SHELL_CACHE_PREFIX}${PRECACHE.version}`
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    (async () => {
+      const shell = await caches.open(SHELL_CACHE)
+      await shell.addAll(PRECACHE.shell)
+
+      // The core is ~30 MB per build and rarely changes between deploys, so only
+      // fetch files the cache doesn't have yet. Best effort: without it the app
+      // still installs and the page downloads the core on first use. The page
+      // checks integrity before running anything from this cache.
+      try {
+        const core = await caches.open(PRECACHE.core.cacheName)
+        for (const url of PRECACHE.core.urls) {
+          if (!(await core.match(url))) await core.add(url)
+        }
+      } catch (err) {
+        console.warn("[Qcut] Precaching the FFmpeg core failed:", err)
+      }
+
+      await self.skipWaiting()
+    })()
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      // Old core versions are cleared by the page (src/lib/ffmpeg-core.ts).
+      for (const name of await caches.keys()) {
+        if (name.startsWith(SHELL_CACHE_PREFIX) && name !== SHELL_CACHE) await caches.delete(name)
+      }
+      await self.clients.claim()
+    })()
+  )
+})
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+  if (new URL(request.url).origin !== self.location.origin) return
+
+  // Pages: network first so deploys show up, the cached shell when offline.
+  // Every route is the same SPA shell.
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request).catch(async () => (await caches.match("/index.html", { cacheName: SHELL_CACHE })) ?? Response.error())
+    )
+    return
+  }
+
+  // Hashed assets never change, so a cached copy is always current.
+  event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)))
+})
@@ -1,6 +1,15 @@
 import type { FFmpeg } from "@ffmpeg/ffmpeg"
 import type { VideoData } from "./types"
 import { createLogger } from "./lib/logger"
+import { isOpfsSupported, hasOpfsSpaceFor, writeOpfsFile, readOpfsFile, removeOpfsFile, clearOpfsDir } from "./lib/opfs"
+import {
+  createFFmpegPool,
+  getDefaultPoolSize,
+  type FFmpegJobOptions,
+  type FFmpegJobPriority,
+  type FFmpegJobStatus,
+} from "./lib/ffmpeg-pool"
+import { canUseMultiThreadCore, getCoreLoadConfig, MULTI_THREAD_POOL_SIZE, type FFmpegCoreType } from "./lib/ffmpeg-core"
 
 const log = createLogger("store")
 
@@ -11,17 +20,30 @@ const listeners = new Set<Listener>()
 // VideoData stored at module level — set synchronously before navigation
 let videoData: VideoData | null = null
 
-// In-flight read of the current video's bytes, deduped so the file is read at
-// most once. Reset whenever the video changes (see setVideoData/resetVideo).
-let videoBytesPromise: Promise<Uint8Array> | null = null
+// In-flight snapshot of the current video, deduped so the file is read at most
+// once. Reset whenever the video changes (see setVideoData/resetVideo).
+let videoSourcePromise: Promise<File> | null = null
+
+/** OPFS directory holding the snapshot of the loaded video. */
+const INPUT_OPFS_DIR = "qcut-input"
+
+// Snapshots backed by OPFS rather than memory; only these outlive the page.
+const opfsSnapshots = new WeakSet<File>()
+
+/**
+ * Without OPFS, files up to this size are snapshotted in memory. Larger ones
+ * are handed to FFmpeg as the original File (see ensureVideoSource).
+ */
+const IN_MEMORY_SNAPSHOT_MAX_BYTES = 1024 * 1024 * 1024
 
 const state = {
-  ffmpeg: null as FFmpeg | null,
   isFFmpegLoaded: false,
   ffmpegMessage: "",
+  /** Core build the FFmpeg workers run; null until the first one has loaded. */
+  ffmpegCore: null as FFmpegCoreType | null,
   thumbnailCache: new Map<string, string>(),
-  isProcessing: false,
-  processingAbortController: null as AbortController | null,
+  /** Queued and running FFmpeg jobs (see runFFmpegJob). */
+  jobs: [] as readonly FFmpegJobStatus[],
 }
 
 /** Returns a snapshot of the current app state. */
@@ -37,49 +59,102 @@ export function getVideoData(): VideoData | null {
 /** Sets the video data. */
 export function setVideoData(data: VideoData | null): void {
   videoData = data
-  videoBytesPromise = null
+  videoSourcePromise = null
 }
 
 /**
- * Returns the loaded video's bytes, reading the underlying File at most once and
- * caching the result on videoData.fileData.
+ * Returns a stable copy of the loaded video for FFmpeg to read from, making it
+ * at most once and caching it on videoData.sourceFile.
  *
- * The File reference is only read here, at load time, and never again. Reading a
- * File a second time at processing time can throw a NotReadableError DOMException
- * when the underlying file has moved, been replaced, lost its permission handle,
- * or is being read concurrently — the failure reported in GitHub issue #2. Keeping
- * the bytes in memory after the first successful read avoids that stale re-read.
+ * The File the user picked must only be read here, at load time. Reading it
+ * again at processing time can throw a NotReadableError DOMException when the
+ * underlying file has moved, been replaced, lost its permission handle, or is
+ * being read concurrently — the failure reported in GitHub issue #2. So the file
+ * is streamed once into the Origin Private File System and FFmpeg reads that
+ * copy through WORKERFS, which keeps multi-GB inputs out of memory. Browsers
+ * without OPFS (or out of quota) get an in-memory copy for files up to
+ * IN_MEMORY_SNAPSHOT_MAX_BYTES; larger files fall back to the original File.
  */
-export function ensureVideoBytes(): Promise<Uint8Array> {
+export function ensureVideoSource(): Promise<File> {
   const current = videoData
   if (!current) {
     return Promise.reject(new Error("No video is loaded yet. Please select a video first."))
   }
-  if (current.fileData) {
-    return Promise.resolve(current.fileData)
+  if (current.sourceFile) {
+    return Promise.resolve(current.sourceFile)
   }
-  if (videoBytesPromise) {
-    return videoBytesPromise
+  if (videoSourcePromise) {
+    return videoSourcePromise
   }
 
   const file = current.file
-  videoBytesPromise = file
-    .arrayBuffer()
-    .then((buffer) => {
-      const bytes = new Uint8Array(buffer)
-      // Cache the bytes only if the same file is still loaded.
+  videoSourcePromise = snapshotVideoFile(file)
+    .then((source) => {
+      // Cache the snapshot only if the same file is still loaded.
       if (videoData && videoData.file === file) {
-        videoData.fileData = bytes
+        videoData.sourceFile = source
       }
-      return bytes
+      return source
     })
     .catch((err) => {
       // Allow a later retry to start a fresh read.
-      videoBytesPromise = null
+      videoSourcePromise = null
       throw normalizeVideoReadError(err)
     })
 
-  return videoBytesPromise
+  return videoSourcePromise
+}
+
+async function snapshotVideoFile(file: File): Promise<File> {
+  if (isOpfsSupported()) {
+    const name = `${Date.now()}-${Math.random().toString(36).slice(2)}`
+    try {
+      // Only one video is loaded at a time; drop copies of earlier ones first.
+      await clearOpfsDir(INPUT_OPFS_DIR)
+      if (await hasOpfsSpaceFor(file.size)) {
+        const copy = await writeOpfsFile(INPUT_OPFS_DIR, name, file)
+        log.info("Video copied to OPFS (%d bytes)", copy.size)
+        opfsSnapshots.add(copy)
+        return copy
+      }
+      log.warn("Not enough storage quota to copy the video to OPFS")
+    } catch (err) {
+      // A read failure of the original file is the user's problem to fix; rethrow it.
+      if (err instanceof DOMException && err.name === "NotReadableError") throw err
+      log.warn("OPFS copy failed, falling back: %o", err)
+      await removeOpfsFile(INPUT_OPFS_DIR, name).catch(() => {})
+    }
+  }
+
+  if (file.size <= IN_MEMORY_SNAPSHOT_MAX_BYTES) {
+    const buffer = await file.arrayBuffer()
+    return new File([buffer], file.name, { type: file.type, lastModified: file.lastModified })
+  }
+
+  log.warn("No snapshot possible for %s; FFmpeg will read the original file", file.name)
+  return file
+}
+
+/**
+ * Returns the OPFS name of the loaded video's snapshot, or null if it has none
+ * yet or it isn't kept in OPFS. The copy survives a reload until another video
+ * is snapshotted, so a saved session can reopen it (see getVideoSnapshot).
+ */
+export function getVideoSnapshotName(): string | null {
+  const source = videoData?.sourceFile
+  return source && opfsSnapshots.has(source) ? source.name : null
+}
+
+/**
+ * Reopens a snapshot left in OPFS by an earlier page load.
+ * @param name - Name from getVideoSnapshotName
+ * @returns The snapshot, usable as VideoData.sourceFile, or null if it's gone
+ */
+export async function getVideoSnapshot(name: string): Promise<File | null> {
+  if (!isOpfsSupported()) return null
+  const file = await readOpfsFile(INPUT_OPFS_DIR, name)
+  if (file) opfsSnapshots.add(file)
+  return file
 }
 
 /**
@@ -117,13 +192,60 @@ export function resetVideo(): void {
   listeners.forEach((fn) => fn())
 }
 
-// ── FFmpeg singleton ──
+// ── FFmpeg worker pool ──
+
+// Core the next worker tries first; drops to single-thread for good once the
+// multithreaded core fails to load.
+let preferredCore: FFmpegCoreType = canUseMultiThreadCore() ? "multi-thread" : "single-thread"
+
+const ffmpegPool = createFFmpegPool({
+  maxWorkers: preferredCore === "multi-thread" ? MULTI_THREAD_POOL_SIZE : getDefaultPoolSize(),
+  createInstance: createFFmpegInstance,
+  onJobsChange: (jobs) => setState({ jobs }),
+})
 
 let ffmpegLoadPromise: Promise<void> | null = null
 
-/** Loads FFmpeg if not already loaded. Reuses a singleton instance. */
+/**
+ * Creates and loads one FFmpeg worker, on the multithreaded core when the page
+ * is cross-origin isolated, otherwise (or if that fails) on the single-threaded
+ * core. Both are self-hosted and cached (see getCoreLoadConfig).
+ */
+async function createFFmpegInstance(): Promise<FFmpeg> {
+  const { FFmpeg } = await import("@ffmpeg/ffmpeg")
+  const createInstance = () => {
+    const instance = new FFmpeg()
+    instance.on("log", ({ message }) => {
+      log.debug("FFmpeg: %s", message)
+    })
+    return instance
+  }
+
+  if (preferredCore === "multi-thread") {
+    const instance = createInstance()
+    try {
+      await instance.load(await getCoreLoadConfig("multi-thread"))
+      if (state.ffmpegCore !== "multi-thread") setState({ ffmpegCore: "multi-thread" })
+      return instance
+    } catch (err) {
+      log.warn("Multithreaded FFmpeg core failed to load, falling back to single-threaded: %o", err)
+      instance.terminate()
+      preferredCore = "single-thread"
+    }
+  }
+
+  const instance = createInstance()
+  await instance.load(await getCoreLoadConfig("single-thread"))
+  if (state.ffmpegCore !== "single-thread") setState({ ffmpegCore: "single-thread" })
+  return instance
+}
+
+/**
+ * Loads the first FFmpeg worker if not already loaded. Further workers are
+ * started on demand by the pool, reusing the cached core.
+ */
 export async function loadFFmpeg(): Promise<void> {
-  if (state.ffmpeg && state.isFFmpegLoaded) {
+  if (state.isFFmpegLoaded) {
     log.debug("FFmpeg already loaded")
     return
   }
@@ -138,14 +260,8 @@ export async function loadFFmpeg(): Promise<void> {
   log.info("Starting FFmpeg load")
 
   ffmpegLoadPromise = (async () => {
-    const { FFmpeg } = await import("@ffmpeg/ffmpeg")
-    const instance = new FFmpeg()
-    instance.on("log", ({ message }) => {
-      log.debug("FFmpeg: %s", message)
-    })
-    await instance.load()
+    await ffmpegPool.warmUp()
     setState({
-      ffmpeg: instance,
       isFFmpegLoaded: true,
       ffmpegMessage: "FFmpeg loaded successfully!",
     })
@@ -162,44 +278,63 @@ export async function loadFFmpeg(): Promise<void> {
   }
 }
 
-// ── Processing state helpers ──
+// ── FFmpeg jobs ──
+
+/**
+ * Runs work on a pooled FFmpeg instance that the job has to itself until fn
+ * settles. Jobs wait for a free worker and start in priority order (probes,
+ * then previews, then encodes). Aborting options.signal cancels only this job.
+ * @param options - Label, priority and optional abort signal
+ * @param fn - Work to do with the instance
+ * @returns fn's result; rejects with an AbortError if cancelled (see isJobCancelled)
+ */
+export function runFFmpegJob<T>(options: FFmpegJobOptions, fn: (ffmpeg: FFmpeg) => Promise<T>): Promise<T> {
+  return ffmpegPool.run(options, fn)
+}
+
+/**
+ * Returns true if any FFmpeg job is queued or running.
+ * @param priority - Only count jobs of this priority
+ */
+export function hasActiveJobs(priority?: FFmpegJobPriority): boolean {
+  return state.jobs.some((j) => !priority || j.priority === priority)
+}
 
-/** Starts processing and creates an abort controller. Returns the abort signal. */
-export function startProcessing(): AbortSignal {
-  const controller = new AbortController()
-  setState({ processingAbortController: controller, isProcessing: true })
-  return controller.signal
+/**
+ * Cancels queued and running FFmpeg jobs. Running jobs' workers are terminated
+ * and replaced on demand; other jobs keep running.
+ * @param priority - Only cancel jobs of this priority
+ */
+export function cancelFFmpegJobs(priority?: FFmpegJobPriority): void {
+  log.info("Cancelling %s FFmpeg jobs", priority ?? "all")
+  ffmpegPool.cancelAll(priority)
 }
 
-/** Cancels processing, terminates FFmpeg, and resets processing state. */
-export async function cancelProcessing(): Promise<void> {
-  log.info("Cancelling processing")
-  const { processingAbortController, ffmpeg } = state
+// ── Processing runs ──
 
-  if (processingAbortController) {
-    processingAbortController.abort()
-  }
+// Cancel functions of the runs processors have underway, on any engine (see trackProcessing).
+const activeRuns = new Set<() => void>()
 
-  if (ffmpeg) {
-    try {
-      ffmpeg.terminate()
-      log.info("FFmpeg terminated")
-    } catch (err) {
-      log.warn("Error terminating FFmpeg:", err)
-    }
-    ffmpegLoadPromise = null
-    log.debug("FFmpeg state reset, will reload on next operation")
+/**
+ * Registers a processing run, whichever engine runs it (FFmpeg, WebCodecs,
+ * gifenc, canvas), so navigation can warn about it and cancel it.
+ * @param cancel - Cancels the run
+ * @returns Function to call when the run ends
+ */
+export function trackProcessing(cancel: () => void): () => void {
+  activeRuns.add(cancel)
+  return () => {
+    activeRuns.delete(cancel)
   }
+}
 
-  setState({
-    processingAbortController: null,
-    isProcessing: false,
-    ffmpeg: null,
-    isFFmpegLoaded: false,
-  })
+/** Returns true if a processing run is underway. */
+export function hasActiveProcessing(): boolean {
+  return activeRuns.size > 0
 }
 
-/** Marks processing as complete without terminating FFmpeg. */
-export function finishProcessing(): void {
-  setState({ processingAbortController: null, isProcessing: false })
+/** Cancels every processing run underway. */
+export function cancelProcessing(): void {
+  log.info("Cancelling %d processing run(s)", activeRuns.size)
+  activeRuns.forEach((cancel) => cancel())
 }
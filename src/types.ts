@@ -12,14 +12,70 @@ export type ActionType =
   | "rotate"
   | "overlay"
 
+export type MediaStreamType = "video" | "audio" | "subtitle" | "data" | "attachment" | "unknown"
+
+/** One stream of a probed file. Video- and audio-only fields are null on other stream types. */
+export interface MediaStreamInfo {
+  index: number
+  type: MediaStreamType
+  codec: string | null
+  codecLongName: string | null
+  profile: string | null
+  bitrateBps: number | null
+  language: string | null
+  title: string | null
+  isDefault: boolean
+  // Video
+  width: number | null
+  height: number | null
+  pixelFormat: string | null
+  frameRateFps: number | null
+  /** Clockwise rotation to apply for display, from the display matrix or rotate tag. */
+  rotationDeg: number
+  colorSpace: string | null
+  colorTransfer: string | null
+  colorPrimaries: string | null
+  colorRange: string | null
+  hdrFormat: "hdr10" | "hlg" | "dolby-vision" | null
+  // Audio
+  sampleRateHz: number | null
+  channels: number | null
+  channelLayout: string | null
+  tags: Record<string, string>
+}
+
+export interface MediaChapter {
+  id: number
+  startSec: number
+  endSec: number
+  title: string | null
+}
+
+/** Structured result of probing a file with ffprobe. */
+export interface MediaProbe {
+  /** Short container names, e.g. "mov,mp4,m4a,3gp,3g2,mj2". */
+  container: string | null
+  containerLongName: string | null
+  durationSec: number | null
+  startSec: number | null
+  bitrateBps: number | null
+  sizeBytes: number | null
+  tags: Record<string, string>
+  streams: MediaStreamInfo[]
+  chapters: MediaChapter[]
+}
+
 export interface VideoData {
   file: File
-  fileData?: Uint8Array
+  /** Stable copy of file that FFmpeg reads from (see ensureVideoSource). */
+  sourceFile?: File
   duration?: number
   width?: number
   height?: number
   codec?: string
   format?: string
+  /** Full stream metadata, filled in once the file has been probed (see getMediaProbe). */
+  probe?: MediaProbe
 }
 
 export interface ActionConfig {
@@ -34,8 +90,14 @@ export interface RouteConfig {
   load: () => Promise<PageModule>
 }
 
+/** What the router hands a page when it renders it. */
+export interface PageOptions {
+  /** Validated settings from the URL's query string, to apply over the page's defaults. */
+  params?: Record<string, unknown>
+}
+
 export interface PageModule {
-  default: () => { element: HTMLElement; destroy: () => void }
+  default: (options?: PageOptions) => { element: HTMLElement; destroy: () => void }
 }
 
 export interface Component {
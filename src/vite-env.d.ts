@@ -1,6 +1,10 @@
 /// <reference types="vite/client" />
 
 declare const __BUILD_TIME__: string
+/** Version of the bundled @ffmpeg/core packages. */
+declare const __FFMPEG_CORE_VERSION__: string
+/** SRI hashes ("sha384-...") of the bundled FFmpeg core files, by asset id. */
+declare const __FFMPEG_CORE_INTEGRITY__: Record<string, string>
 
 interface ImportMetaEnv {
   readonly VITE_CONTACT_API_URL: string
@@ -1,18 +1,97 @@
-import { defineConfig } from "vite"
+import { defineConfig, type Plugin } from "vite"
 import path from "path"
+import { createHash } from "crypto"
+import { readFileSync } from "fs"
+
+/** FFmpeg core files bundled by src/lib/ffmpeg-core.ts, keyed by asset id. */
+const FFMPEG_CORE_FILES: Record<string, string> = {
+  core: "@ffmpeg/core/dist/esm/ffmpeg-core.js",
+  wasm: "@ffmpeg/core/dist/esm/ffmpeg-core.wasm",
+  "mt-core": "@ffmpeg/core-mt/dist/esm/ffmpeg-core.js",
+  "mt-wasm": "@ffmpeg/core-mt/dist/esm/ffmpeg-core.wasm",
+  "mt-worker": "@ffmpeg/core-mt/dist/esm/ffmpeg-core.worker.js",
+}
+
+/** SRI hashes of the core files, checked in the browser before they run. */
+function getFFmpegCoreIntegrity(): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(FFMPEG_CORE_FILES).map(([id, file]) => {
+      const digest = createHash("sha384").update(readFileSync(path.resolve(__dirname, "node_modules", file))).digest("base64")
+      return [id, `sha384-${digest}`]
+    })
+  )
+}
+
+function getFFmpegCoreVersion(): string {
+  const pkg = JSON.parse(readFileSync(path.resolve(__dirname, "node_modules/@ffmpeg/core/package.json"), "utf8"))
+  return pkg.version
+}
+
+/** Files from public/ the app shell needs offline (hashed build output is added automatically). */
+const PRECACHED_PUBLIC_FILES = [
+  "/manifest.json",
+  "/favicon.ico",
+  "/icon.svg",
+  "/icon-192x192.png",
+  "/icon-512x512.png",
+  "/qcut-logo.png",
+  "/qcut-logo.webp",
+  "/qcut-logo-on-dark.png",
+  "/qcut-logo-on-dark.webp",
+]
+
+const buildTime = new Date().toISOString()
+
+/**
+ * Emits dist/sw.js from src/service-worker.js with this build's precache list
+ * injected: the app shell and every route chunk, plus the FFmpeg core files,
+ * which go into the same versioned cache src/lib/ffmpeg-core.ts reads from.
+ * The list differs per build, so each deploy installs a fresh worker.
+ */
+function serviceWorkerPlugin(): Plugin {
+  return {
+    name: "qcut-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_options, bundle) {
+      const files = Object.keys(bundle).filter((name) => !name.endsWith(".map"))
+      const isCoreFile = (name: string) => path.basename(name).startsWith("ffmpeg-core")
+      const precache = {
+        version: buildTime,
+        shell: [...new Set(["/index.html", ...files.filter((name) => !isCoreFile(name)).map((name) => `/${name}`), ...PRECACHED_PUBLIC_FILES])],
+        core: {
+          // Must match CORE_CACHE_NAME in src/lib/ffmpeg-core.ts.
+          cacheName: `qcut-ffmpeg-core-${getFFmpegCoreVersion()}`,
+          urls: files.filter(isCoreFile).map((name) => `/${name}`),
+        },
+      }
+      const template = readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf8")
+      this.emitFile({
+        type: "asset",
+        fileName: "sw.js",
+        source: template.replace("self.__QCUT_PRECACHE__", JSON.stringify(precache)),
+      })
+    },
+  }
+}
 
 export default defineConfig({
+  plugins: [serviceWorkerPlugin()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "src"),
     },
   },
   define: {
-    __BUILD_TIME__: JSON.stringify(new Date().toISOString()),
+    __BUILD_TIME__: JSON.stringify(buildTime),
+    __FFMPEG_CORE_VERSION__: JSON.stringify(getFFmpegCoreVersion()),
+    __FFMPEG_CORE_INTEGRITY__: JSON.stringify(getFFmpegCoreIntegrity()),
   },
   build: {
     outDir: "dist",
     sourcemap: "hidden",
+    // Keep every FFmpeg core file a separate, cacheable asset (the mt worker is small enough to be inlined otherwise).
+    assetsInlineLimit: (file) => (file.includes("@ffmpeg/core") ? false : undefined),
     rollupOptions: {
       output: {
         manualChunks: {
@@ -21,13 +100,25 @@ export default defineConfig({
       },
     },
   },
+  // The FFmpeg class worker (src/lib/ffmpeg-worker.ts) is started as a module worker.
+  worker: {
+    format: "es",
+  },
+  // Cross-origin isolation enables SharedArrayBuffer, which the multithreaded FFmpeg core needs.
+  // Production gets the same headers from cloudfront-response-headers-policy.json (see deploy.sh).
   server: {
     headers: {
-      "Cross-Origin-Embedder-Policy": "require-corp",
+      "Cross-Origin-Embedder-Policy": "credentialless",
+      "Cross-Origin-Opener-Policy": "same-origin",
+    },
+  },
+  preview: {
+    headers: {
+      "Cross-Origin-Embedder-Policy": "credentialless",
       "Cross-Origin-Opener-Policy": "same-origin",
     },
   },
   optimizeDeps: {
-    exclude: ["@ffmpeg/ffmpeg", "@ffmpeg/util"],
+    exclude: ["@ffmpeg/ffmpeg", "@ffmpeg/util", "@ffmpeg/core", "@ffmpeg/core-mt"],
   },
 })